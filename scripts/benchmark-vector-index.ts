@@ -0,0 +1,117 @@
+/**
+ * Benchmark: IVF vector index vs exact scan
+ *
+ * Fills a throwaway database with synthetic clustered vectors, then compares
+ * searchFacts with and without the index: recall@k against the brute-force
+ * results, and average query latency, for a range of nprobe values.
+ *
+ * Usage:
+ *   npm run benchmark:index -- --facts 50000 --dim 384 --queries 50 --k 10
+ */
+
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+function parseArgs(): { facts: number; dim: number; queries: number; k: number } {
+  const args = process.argv.slice(2);
+  const get = (name: string, fallback: number) => {
+    const i = args.indexOf(`--${name}`);
+    return i >= 0 ? parseInt(args[i + 1], 10) : fallback;
+  };
+  return {
+    facts: get("facts", 20000),
+    dim: get("dim", 384),
+    queries: get("queries", 50),
+    k: get("k", 10),
+  };
+}
+
+function gaussian(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function unit(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return vector.map((x) => x / magnitude);
+}
+
+function jitter(center: number[], noise: number): number[] {
+  return unit(center.map((x) => x + noise * gaussian()));
+}
+
+async function main() {
+  const { facts: factCount, dim, queries: queryCount, k } = parseArgs();
+
+  // Isolate from the user's real config and database: config.ts persists
+  // settings under the home directory on import
+  const workDir = mkdtempSync(join(tmpdir(), "mcp-memory-bench-"));
+  process.env.HOME = workDir;
+  process.env.USERPROFILE = workDir;
+  process.env.SQLITE_PATH = join(workDir, "bench.db");
+  process.env.CONTEXT_ID = "benchmark";
+
+  const { db } = await import("../src/database.js");
+  const { default: config } = await import("../src/config.js");
+  const { createMemory, createFact, searchFacts } = await import("../src/operations.js");
+  const { vectorIndex } = await import("../src/vector-index/factory.js");
+
+  const embeddingType = dim === 1536 ? "openai" : "local_english";
+  const topicCount = Math.max(10, Math.round(factCount / 200));
+  const topics = Array.from({ length: topicCount }, () => unit(Array.from({ length: dim }, gaussian)));
+  const pickTopic = () => topics[Math.floor(Math.random() * topics.length)];
+
+  console.log(`Generating ${factCount} facts (${dim}D, ${topicCount} topics) in ${workDir}`);
+  const insert = db.transaction(() => {
+    for (let i = 0; i < factCount; i += 4) {
+      const memory = createMemory("benchmark", `synthetic memory ${i / 4}`, []);
+      const topic = pickTopic();
+      for (let j = i; j < Math.min(i + 4, factCount); j++) {
+        createFact(memory.id, `synthetic fact ${j}`, jitter(topic, 0.08), embeddingType);
+      }
+    }
+  });
+  insert();
+
+  const queries = Array.from({ length: queryCount }, () => jitter(pickTopic(), 0.1));
+
+  // Exact baseline (no index built yet)
+  let start = Date.now();
+  const exact = queries.map((q) => new Set(searchFacts(["benchmark"], q, embeddingType, { topK: k }).map((f) => f.id)));
+  const exactMs = (Date.now() - start) / queryCount;
+
+  start = Date.now();
+  const stats = vectorIndex.build(embeddingType);
+  const buildSeconds = ((Date.now() - start) / 1000).toFixed(1);
+  console.log(`Built IVF index: ${stats.listCount} lists over ${stats.factCount} facts in ${buildSeconds}s\n`);
+
+  console.log(`mode          recall@${k}   avg query`);
+  console.log(`exact         1.000      ${exactMs.toFixed(1)}ms`);
+
+  for (const nprobe of [1, 2, 4, 8, 16, 32]) {
+    if (nprobe >= stats.listCount) break;
+    config.vectorIndex.nprobe = nprobe;
+
+    start = Date.now();
+    const approximate = queries.map((q) => searchFacts(["benchmark"], q, embeddingType, { topK: k }).map((f) => f.id));
+    const avgMs = (Date.now() - start) / queryCount;
+
+    const hits = approximate.reduce(
+      (sum, ids, i) => sum + ids.filter((id) => exact[i].has(id)).length,
+      0
+    );
+    const recall = hits / (queryCount * k);
+
+    console.log(`ivf nprobe=${String(nprobe).padEnd(3)} ${recall.toFixed(3)}      ${avgMs.toFixed(1)}ms`);
+  }
+
+  db.close();
+  rmSync(workDir, { recursive: true, force: true });
+}
+
+main().catch((error) => {
+  console.error("Benchmark failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,206 @@
+/**
+ * Tool Call Audit Log
+ *
+ * The CallTool dispatcher records every call in the audit_log table: tool,
+ * redacted arguments, context, caller, touched memory IDs, outcome and
+ * duration. Recording never fails a tool call.
+ */
+
+import { createWriteStream, mkdirSync } from "fs";
+import { dirname, join } from "path";
+import { once } from "events";
+import config from "./config.js";
+import { insertAuditLogEntry, iterateAuditLog, purgeAuditLog } from "./operations.js";
+import { formatAuditLogEntry } from "./format.js";
+import type { AuditLogFilters } from "./types.js";
+
+const REDACTED = "[redacted]";
+const MAX_STRING_LENGTH = 200; // Longer strings (memory text) are truncated
+const MAX_ARRAY_ITEMS = 20;
+const MAX_MEMORY_IDS = 100;
+const MAX_PARSED_RESULT_LENGTH = 1024 * 1024; // Larger results are not scanned for memory IDs
+
+/** Tools whose results list other calls' memory IDs rather than memories they touched */
+const RESULTS_NOT_SCANNED = new Set(["query_audit_log"]);
+
+/** Argument names whose values are never stored */
+const SECRET_ARGUMENT = /(^|_)(api_?key|key|token|secret|password|authorization|credentials?)$/i;
+
+export interface ToolCallRecord {
+  toolName: string;
+  args: Record<string, unknown> | undefined;
+  result?: any; // CallTool result, when the handler returned one
+  error?: Error; // When the call threw
+  durationMs: number;
+  clientId?: string;
+  sessionId?: string;
+}
+
+function redactValue(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(redactValue);
+    return value.length > MAX_ARRAY_ITEMS ? [...items, `… (${value.length} items)`] : items;
+  }
+  if (value && typeof value === "object") {
+    return redactArguments(value as Record<string, unknown>);
+  }
+  return value;
+}
+
+/**
+ * Copy of the arguments with secrets removed and long values truncated
+ */
+export function redactArguments(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [key, SECRET_ARGUMENT.test(key) ? REDACTED : redactValue(value)])
+  );
+}
+
+/** Keys whose string value is a memory ID (source_id/target_id: link_memories) */
+const MEMORY_ID_KEYS = ["memory_id", "source_id", "target_id"];
+
+function collectMemoryIds(value: unknown, key: string, ids: Set<string>): void {
+  if (!value || typeof value !== "object") {
+    if (MEMORY_ID_KEYS.includes(key) && typeof value === "string") ids.add(value);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (key === "memory_ids" && typeof item === "string") ids.add(item);
+      else if (key === "memories" && item && typeof item.id === "string") ids.add(item.id);
+      collectMemoryIds(item, key, ids);
+    }
+    return;
+  }
+
+  if (key === "memory" && typeof (value as any).id === "string") {
+    ids.add((value as any).id);
+  }
+  for (const [childKey, child] of Object.entries(value)) {
+    collectMemoryIds(child, childKey, ids);
+  }
+}
+
+/**
+ * Memory IDs named in the arguments or returned in the result
+ */
+export function extractMemoryIds(args: Record<string, unknown> | undefined, result?: any): string[] {
+  const ids = new Set<string>();
+  collectMemoryIds(args ?? {}, "", ids);
+
+  const text = result?.content?.[0]?.text;
+  if (typeof text === "string" && text.startsWith("{") && text.length <= MAX_PARSED_RESULT_LENGTH) {
+    try {
+      collectMemoryIds(JSON.parse(text), "", ids);
+    } catch {
+      // Not JSON (e.g. the model download message)
+    }
+  }
+
+  return [...ids].slice(0, MAX_MEMORY_IDS);
+}
+
+/**
+ * Whether a call succeeded, and its error message if not
+ * Error results (isError) and `success: false` responses count as failures
+ */
+function outcomeOf(record: ToolCallRecord): { success: boolean; error: string | null } {
+  if (record.error) {
+    return { success: false, error: record.error.message };
+  }
+
+  const text = record.result?.content?.[0]?.text;
+  let body: any = null;
+  if (typeof text === "string" && text.startsWith("{") && text.length <= MAX_PARSED_RESULT_LENGTH) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = null;
+    }
+  }
+
+  if (record.result?.isError) {
+    const error = body?.error;
+    return { success: false, error: typeof error === "string" ? error : error?.message ?? text ?? "Error" };
+  }
+  if (body?.success === false) {
+    return { success: false, error: body.message ?? body.error ?? "Unsuccessful" };
+  }
+  return { success: true, error: null };
+}
+
+/**
+ * Write one audit entry (no-op when the audit log is disabled)
+ */
+export function recordToolCall(record: ToolCallRecord): void {
+  if (!config.audit.enabled) {
+    return;
+  }
+
+  try {
+    const args = record.args ?? {};
+    const contextIds = Array.isArray(args.context_ids) ? args.context_ids.join(",") : null;
+
+    insertAuditLogEntry({
+      toolName: record.toolName,
+      contextId: contextIds ?? (typeof args.context_id === "string" && args.context_id ? args.context_id : config.contextId),
+      clientId: record.clientId ?? null,
+      sessionId: record.sessionId ?? null,
+      arguments: redactArguments(args),
+      memoryIds: extractMemoryIds(args, RESULTS_NOT_SCANNED.has(record.toolName) ? undefined : record.result),
+      ...outcomeOf(record),
+      durationMs: Math.round(record.durationMs),
+      createdAt: Date.now(),
+    });
+  } catch (error: any) {
+    console.error(`Failed to record audit entry for ${record.toolName}:`, error.message);
+  }
+}
+
+/**
+ * Delete entries older than audit.retentionDays (0 keeps everything)
+ * Returns the number of entries removed
+ */
+export function purgeExpiredAuditLog(): number {
+  if (config.audit.retentionDays <= 0) {
+    return 0;
+  }
+  return purgeAuditLog(Date.now() - config.audit.retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Default audit export location: exports/ next to the database
+ */
+export function defaultAuditExportPath(): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return join(dirname(config.sqlitePath), "exports", `audit-${stamp}.jsonl`);
+}
+
+/**
+ * Write matching entries to a JSONL file, oldest first
+ */
+export async function exportAuditLog(path: string, filters: AuditLogFilters = {}): Promise<{ path: string; entries: number }> {
+  mkdirSync(dirname(path), { recursive: true });
+  const out = createWriteStream(path, { encoding: "utf-8" });
+  let entries = 0;
+
+  try {
+    for (const entry of iterateAuditLog(filters)) {
+      if (!out.write(JSON.stringify(formatAuditLogEntry(entry)) + "\n")) {
+        await once(out, "drain");
+      }
+      entries++;
+    }
+  } finally {
+    out.end();
+    await once(out, "finish");
+  }
+
+  return { path, entries };
+}
@@ -0,0 +1,306 @@
+/**
+ * API Token Authentication
+ *
+ * Bearer tokens for HTTP mode, stored as SHA-256 hashes in a local key file
+ * (auth.keyFile, default tokens.json next to config.json). Each token carries
+ * scopes and the contexts it may use:
+ *   read  - search, list and get tools
+ *   write - also add, update, delete, restore and notes
+ *   admin - everything (purge, embedding mode, index rebuild, export/import)
+ *
+ * The HTTP server resolves the token into the request's AuthInfo; the tool
+ * dispatcher checks the scope and runs the handler with `withAuth` so context
+ * resolution also honours the token's contexts. stdio is not authenticated.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { readFileSync, writeFileSync, existsSync, mkdirSync, statSync } from "fs";
+import { dirname } from "path";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { nanoid } from "nanoid";
+import config from "./config.js";
+
+export type Scope = "read" | "write" | "admin";
+
+export const SCOPES: Scope[] = ["read", "write", "admin"];
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  hash: string; // SHA-256 of the token, hex
+  scopes: Scope[];
+  contexts: string[]; // Contexts this token may use (["*"] = any the server allows)
+  created_at: number;
+}
+
+/** Token metadata without the hash, for listing */
+export type ApiTokenInfo = Omit<ApiToken, "hash">;
+
+/**
+ * A tool call outside the caller's token scope or contexts
+ */
+export class AuthorizationError extends Error {
+  constructor(
+    public readonly code: "insufficient_scope" | "context_not_allowed",
+    message: string,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "AuthorizationError";
+  }
+}
+
+const TOKEN_PREFIX = "mlm_";
+const ANY_CONTEXT = "*";
+
+/** Scope each tool needs; tools not listed need admin */
+const TOOL_SCOPES: Record<string, Scope> = {
+  search_memory: "read",
+  list_memories: "read",
+  list_contexts: "read",
+  find_duplicates: "read",
+  get_context_tags: "read",
+  list_entities: "read",
+  get_entity: "read",
+  get_memory: "read",
+  get_memory_history: "read",
+  list_trash: "read",
+  get_tool_call_notes: "read",
+  search_tool_call_notes: "read",
+  add_memory: "write",
+  update_memory: "write",
+  revert_memory: "write",
+  delete_memory: "write",
+  restore_memory: "write",
+  supersede_memory: "write",
+  pin_memory: "write",
+  unpin_memory: "write",
+  link_memories: "write",
+  unlink_memories: "write",
+  consolidate_memories: "write",
+  record_tool_call_note: "write",
+  update_tool_call_note: "write",
+  confirm_tool_call_note: "write",
+  refute_tool_call_note: "write",
+  delete_tool_call_note: "write",
+  purge_trash: "admin",
+  switch_embedding_mode: "admin",
+  rebuild_vector_index: "admin",
+  rebuild_entity_index: "admin",
+  export_memories: "admin",
+  import_memories: "admin",
+  query_audit_log: "admin",
+};
+
+/** Scopes implied by each scope */
+const IMPLIED_SCOPES: Record<Scope, Scope[]> = {
+  read: ["read"],
+  write: ["read", "write"],
+  admin: ["read", "write", "admin"],
+};
+
+// ============================================================================
+// Key File
+// ============================================================================
+
+let cache: { mtimeMs: number; tokens: ApiToken[] } | null = null;
+
+/**
+ * Read the key file (re-read when it changes, so revocations apply without a restart)
+ */
+function loadTokens(): ApiToken[] {
+  if (!existsSync(config.auth.keyFile)) {
+    cache = null;
+    return [];
+  }
+
+  const mtimeMs = statSync(config.auth.keyFile).mtimeMs;
+  if (cache && cache.mtimeMs === mtimeMs) {
+    return cache.tokens;
+  }
+
+  const data = JSON.parse(readFileSync(config.auth.keyFile, "utf-8"));
+  const tokens: ApiToken[] = Array.isArray(data.tokens) ? data.tokens : [];
+  cache = { mtimeMs, tokens };
+  return tokens;
+}
+
+function saveTokens(tokens: ApiToken[]): void {
+  mkdirSync(dirname(config.auth.keyFile), { recursive: true });
+  writeFileSync(config.auth.keyFile, JSON.stringify({ tokens }, null, 2), { mode: 0o600 });
+  cache = null;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toInfo({ hash, ...info }: ApiToken): ApiTokenInfo {
+  return info;
+}
+
+/**
+ * Mint a token. The plain token is only returned here; the key file keeps its hash
+ */
+export function createToken(
+  name: string,
+  scopes: Scope[],
+  contexts: string[] = [config.contextId]
+): { token: string; info: ApiTokenInfo } {
+  if (scopes.length === 0) {
+    throw new Error("A token needs at least one scope");
+  }
+  const invalid = scopes.filter((scope) => !SCOPES.includes(scope));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid scope: ${invalid.join(", ")}. Must be one of: ${SCOPES.join(", ")}`);
+  }
+  if (contexts.length === 0) {
+    throw new Error("A token needs at least one context");
+  }
+
+  const tokens = loadTokens();
+  if (tokens.some((t) => t.name === name)) {
+    throw new Error(`A token named '${name}' already exists`);
+  }
+
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  const record: ApiToken = {
+    id: nanoid(8),
+    name,
+    hash: hashToken(token),
+    scopes: [...new Set(scopes)],
+    contexts: [...new Set(contexts)],
+    created_at: Date.now(),
+  };
+
+  saveTokens([...tokens, record]);
+  return { token, info: toInfo(record) };
+}
+
+/**
+ * Revoke a token by id or name. Returns the revoked token, or null if none matched
+ */
+export function revokeToken(idOrName: string): ApiTokenInfo | null {
+  const tokens = loadTokens();
+  const record = tokens.find((t) => t.id === idOrName || t.name === idOrName);
+  if (!record) {
+    return null;
+  }
+
+  saveTokens(tokens.filter((t) => t !== record));
+  return toInfo(record);
+}
+
+export function listTokens(): ApiTokenInfo[] {
+  return loadTokens().map(toInfo);
+}
+
+/**
+ * Whether HTTP requests must carry a token: when auth.required is set or
+ * any token has been minted
+ */
+export function isAuthEnabled(): boolean {
+  return config.auth.required || loadTokens().length > 0;
+}
+
+/**
+ * Look up a plain token; returns the AuthInfo to attach to the request, or null
+ */
+export function verifyToken(token: string): AuthInfo | null {
+  const hash = Buffer.from(hashToken(token), "hex");
+  const record = loadTokens().find((t) => {
+    const stored = Buffer.from(t.hash, "hex");
+    return stored.length === hash.length && timingSafeEqual(stored, hash);
+  });
+  if (!record) {
+    return null;
+  }
+
+  return {
+    token,
+    clientId: record.name,
+    scopes: record.scopes,
+    extra: { tokenId: record.id, contexts: record.contexts },
+  };
+}
+
+// ============================================================================
+// Authorization
+// ============================================================================
+
+const currentAuth = new AsyncLocalStorage<AuthInfo>();
+
+/**
+ * Run a tool call as the given token (undefined = unauthenticated, unrestricted)
+ */
+export function withAuth<T>(auth: AuthInfo | undefined, fn: () => T): T {
+  return auth ? currentAuth.run(auth, fn) : fn();
+}
+
+export function requiredScope(toolName: string): Scope {
+  return TOOL_SCOPES[toolName] ?? "admin";
+}
+
+export function hasScope(auth: AuthInfo | undefined, scope: Scope): boolean {
+  if (!auth) {
+    return true;
+  }
+  return auth.scopes.some((s) => IMPLIED_SCOPES[s as Scope]?.includes(scope));
+}
+
+/**
+ * Throw unless the caller may call this tool
+ */
+export function assertToolAllowed(auth: AuthInfo | undefined, toolName: string): void {
+  const scope = requiredScope(toolName);
+  if (!hasScope(auth, scope)) {
+    throw new AuthorizationError(
+      "insufficient_scope",
+      `Tool '${toolName}' needs the '${scope}' scope`,
+      { tool: toolName, required_scope: scope, token_scopes: auth!.scopes }
+    );
+  }
+}
+
+/**
+ * Throw unless the caller may read resources or prompts (both show memory content)
+ */
+export function assertReadAllowed(auth: AuthInfo | undefined, what: "resources" | "prompts"): void {
+  if (!hasScope(auth, "read")) {
+    throw new AuthorizationError(
+      "insufficient_scope",
+      `Reading ${what} needs the 'read' scope`,
+      { required_scope: "read", token_scopes: auth!.scopes }
+    );
+  }
+}
+
+/**
+ * Contexts the current token may use, or null when unrestricted
+ */
+export function getTokenContexts(): string[] | null {
+  const contexts = currentAuth.getStore()?.extra?.contexts as string[] | undefined;
+  if (!contexts || contexts.includes(ANY_CONTEXT)) {
+    return null;
+  }
+  return contexts;
+}
+
+export function isContextAllowedForToken(contextId: string): boolean {
+  const contexts = getTokenContexts();
+  return contexts === null || contexts.includes(contextId);
+}
+
+/**
+ * Throw unless the current token may use this context
+ */
+export function assertContextAllowedForToken(contextId: string): void {
+  if (!isContextAllowedForToken(contextId)) {
+    throw new AuthorizationError(
+      "context_not_allowed",
+      `Context '${contextId}' is not allowed for this token. Allowed: ${getTokenContexts()!.join(", ")}`,
+      { context_id: contextId, token_contexts: getTokenContexts() }
+    );
+  }
+}
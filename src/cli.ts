@@ -0,0 +1,270 @@
+/**
+ * Command-line interface
+ * 
+ * Maintenance commands run on the `mcp-local-memory` bin instead of starting the server:
+ *   mcp-local-memory export [--out file] [--context id]... [--all-contexts] [--include-vectors]
+ *   mcp-local-memory import <file> [--on-conflict skip|overwrite|remap] [--context id]
+ *   mcp-local-memory vault-sync [--vault dir] [--context id]... [--all-contexts] [--on-conflict skip|file|db] [--watch]
+ *   mcp-local-memory token create --name n [--scope s]... [--context id]... | list | revoke <id|name>
+ *   mcp-local-memory audit export [--out file] [--since date] [--until date] [--tool name] [--errors]
+ */
+
+import { parseArgs } from "util";
+import config from "./config.js";
+import { exportMemories, importMemories, defaultExportPath, CONFLICT_STRATEGIES } from "./transfer.js";
+import type { ConflictStrategy } from "./transfer.js";
+import { syncVault, watchVault, formatSyncResult, VAULT_CONFLICT_STRATEGIES } from "./vault-sync.js";
+import type { VaultConflictStrategy, VaultSyncResult } from "./vault-sync.js";
+import { createToken, revokeToken, listTokens } from "./auth.js";
+import type { Scope } from "./auth.js";
+import { exportAuditLog, defaultAuditExportPath } from "./audit.js";
+import { parseDateArg } from "./format.js";
+
+const USAGE = `Usage:
+  mcp-local-memory                      Start the MCP server on stdio
+  mcp-local-memory export [options]     Export memories to JSONL
+      --out <file>                      Output file (default: exports/ next to the database)
+      --context <id>                    Context to export, repeatable (default: current context)
+      --all-contexts                    Export every context
+      --include-vectors                 Include stored embeddings
+  mcp-local-memory import <file> [options]
+      --on-conflict <strategy>          skip | overwrite | remap (default: skip)
+      --context <id>                    Import everything into this context
+  mcp-local-memory vault-sync [options] Two-way sync with a Markdown vault
+      --vault <dir>                     Vault directory (default: vaultSync.path / VAULT_PATH)
+      --context <id>                    Context to sync, repeatable (default: current context)
+      --all-contexts                    Sync every context
+      --on-conflict <strategy>          skip | file | db when both sides changed (default: skip)
+      --watch                           Keep syncing on file changes until interrupted
+  mcp-local-memory token create [options]  Mint an API token for HTTP mode (printed once)
+      --name <name>                     Label for the token (required, unique)
+      --scope <scope>                   read | write | admin, repeatable (default: read)
+      --context <id>                    Context the token may use, repeatable, "*" = any (default: current context)
+  mcp-local-memory token list           List tokens (never shows the token itself)
+  mcp-local-memory token revoke <id|name>
+  mcp-local-memory audit export [options]  Export the tool call audit log to JSONL
+      --out <file>                      Output file (default: exports/ next to the database)
+      --since <date>                    Only calls at or after this ISO 8601 date/time
+      --until <date>                    Only calls before this ISO 8601 date/time
+      --tool <name>                     Only calls to this tool
+      --errors                          Only failed calls`;
+
+async function runExport(argv: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      out: { type: "string" },
+      context: { type: "string", multiple: true },
+      "all-contexts": { type: "boolean" },
+      "include-vectors": { type: "boolean" },
+    },
+  });
+
+  const contextIds = values["all-contexts"] ? undefined : (values.context ?? [config.contextId]);
+  const result = await exportMemories(values.out ?? defaultExportPath(contextIds), {
+    contextIds,
+    includeVectors: values["include-vectors"] ?? false,
+  });
+
+  console.error(
+    `✓ Exported ${result.memories} memories (${result.facts} facts, ${result.vectors} vectors), ` +
+    `${result.links} links and ${result.toolCallNotes} tool call notes to ${result.path}`
+  );
+}
+
+async function runImport(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      "on-conflict": { type: "string" },
+      context: { type: "string" },
+    },
+  });
+
+  if (positionals.length !== 1) {
+    throw new Error("import needs exactly one file argument");
+  }
+
+  const onConflict = (values["on-conflict"] ?? "skip") as ConflictStrategy;
+  if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+    throw new Error(`Invalid --on-conflict: ${onConflict}. Must be one of: ${CONFLICT_STRATEGIES.join(", ")}`);
+  }
+
+  const result = await importMemories(positionals[0], { onConflict, contextId: values.context });
+
+  console.error(
+    `✓ Imported ${result.memoriesImported} memories ` +
+    `(${result.memoriesSkipped} skipped, ${result.memoriesOverwritten} overwritten, ${result.memoriesRemapped} remapped), ` +
+    `${result.factsImported} facts, ${result.linksImported} links, ${result.toolCallNotesImported} tool call notes`
+  );
+  if (result.factsEmbedded > 0) {
+    console.error(`✓ Embedded ${result.factsEmbedded} facts with the current embedding mode`);
+  }
+}
+
+function printSyncResult(result: VaultSyncResult): void {
+  console.error(`✓ Vault sync: ${formatSyncResult(result)}`);
+  for (const conflict of result.conflicts) {
+    console.error(`  ⚠ Conflict ${conflict.memoryId} (file v${conflict.fileVersion ?? "?"}, db v${conflict.dbVersion}): ${conflict.reason}`);
+    console.error(`    ${conflict.path}`);
+  }
+  for (const error of result.errors) {
+    console.error(`  ✗ ${error.path}: ${error.message}`);
+  }
+}
+
+async function runVaultSync(argv: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      vault: { type: "string" },
+      context: { type: "string", multiple: true },
+      "all-contexts": { type: "boolean" },
+      "on-conflict": { type: "string" },
+      watch: { type: "boolean" },
+    },
+  });
+
+  const vaultPath = values.vault ?? config.vaultSync.path;
+  if (!vaultPath) {
+    throw new Error("No vault configured. Pass --vault <dir>, or set VAULT_PATH / vaultSync.path in config.json");
+  }
+
+  const onConflict = (values["on-conflict"] ?? "skip") as VaultConflictStrategy;
+  if (!VAULT_CONFLICT_STRATEGIES.includes(onConflict)) {
+    throw new Error(`Invalid --on-conflict: ${onConflict}. Must be one of: ${VAULT_CONFLICT_STRATEGIES.join(", ")}`);
+  }
+
+  const options = {
+    vaultPath,
+    contextIds: values["all-contexts"] ? undefined : (values.context ?? [config.contextId]),
+    onConflict,
+  };
+
+  if (!values.watch) {
+    printSyncResult(await syncVault(options));
+    return;
+  }
+
+  const stop = await watchVault(options, config.vaultSync.intervalSeconds, printSyncResult);
+  console.error(`Watching ${vaultPath} (Ctrl+C to stop)`);
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  stop();
+}
+
+async function runToken(argv: string[]): Promise<void> {
+  const [action, ...rest] = argv;
+  const { values, positionals } = parseArgs({
+    args: rest,
+    allowPositionals: true,
+    options: {
+      name: { type: "string" },
+      scope: { type: "string", multiple: true },
+      context: { type: "string", multiple: true },
+    },
+  });
+
+  switch (action) {
+    case "create": {
+      if (!values.name) {
+        throw new Error("token create needs --name");
+      }
+      const { token, info } = createToken(
+        values.name,
+        (values.scope ?? ["read"]) as Scope[],
+        values.context ?? [config.contextId]
+      );
+      console.error(`✓ Created token ${info.id} '${info.name}' (scopes: ${info.scopes.join(", ")}; contexts: ${info.contexts.join(", ")})`);
+      console.error("  Store it now, it cannot be shown again. Send it as 'Authorization: Bearer <token>'.");
+      console.log(token);
+      break;
+    }
+    case "list": {
+      const tokens = listTokens();
+      if (tokens.length === 0) {
+        console.error(`No tokens in ${config.auth.keyFile}`);
+      }
+      for (const t of tokens) {
+        console.log(`${t.id}  ${t.name}  scopes=${t.scopes.join(",")}  contexts=${t.contexts.join(",")}  created=${new Date(t.created_at).toISOString()}`);
+      }
+      break;
+    }
+    case "revoke": {
+      if (positionals.length !== 1) {
+        throw new Error("token revoke needs exactly one token id or name");
+      }
+      const revoked = revokeToken(positionals[0]);
+      if (!revoked) {
+        throw new Error(`No token with id or name '${positionals[0]}'`);
+      }
+      console.error(`✓ Revoked token ${revoked.id} '${revoked.name}'`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown token action: ${action}. Use create, list or revoke`);
+  }
+}
+
+async function runAudit(argv: string[]): Promise<void> {
+  const [action, ...rest] = argv;
+  if (action !== "export") {
+    throw new Error(`Unknown audit action: ${action}. Use export`);
+  }
+
+  const { values } = parseArgs({
+    args: rest,
+    options: {
+      out: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      tool: { type: "string" },
+      errors: { type: "boolean" },
+    },
+  });
+
+  const result = await exportAuditLog(values.out ?? defaultAuditExportPath(), {
+    toolName: values.tool,
+    success: values.errors ? false : undefined,
+    since: parseDateArg(values.since, "--since"),
+    until: parseDateArg(values.until, "--until"),
+  });
+
+  console.error(`✓ Exported ${result.entries} audit log entries to ${result.path}`);
+}
+
+/**
+ * Run a CLI command
+ * 
+ * @param argv - Arguments after the bin name (argv[0] is the command)
+ */
+export async function runCli(argv: string[]): Promise<void> {
+  const [command, ...rest] = argv;
+
+  switch (command) {
+    case "export":
+      await runExport(rest);
+      break;
+    case "import":
+      await runImport(rest);
+      break;
+    case "vault-sync":
+      await runVaultSync(rest);
+      break;
+    case "token":
+      await runToken(rest);
+      break;
+    case "audit":
+      await runAudit(rest);
+      break;
+    case "help":
+      console.log(USAGE);
+      break;
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Memory Clustering
+ *
+ * Groups existing memories by fact vectors, with single linkage (A ~ B ~ C
+ * form one cluster):
+ * - find_duplicates: memory B duplicates memory A when every fact of the one
+ *   with fewer facts has a fact in the other at least `threshold` similar
+ * - consolidate_memories: memories are related when the mean vectors of their
+ *   facts are at least `threshold` similar
+ */
+
+import type { Memory, DuplicateCluster } from "./types.js";
+
+/** Exact pairwise comparison; larger stores must be narrowed with filters */
+export const MAX_CLUSTERED_MEMORIES = 5000;
+
+export interface MemoryVectors {
+  memory: Memory;
+  vectors: Float32Array[]; // Unit-length fact vectors
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Mean best-match similarity of the smaller memory's facts in the other memory,
+ * or null as soon as one of them has no match above the threshold
+ */
+function containmentSimilarity(a: MemoryVectors, b: MemoryVectors, threshold: number): number | null {
+  const [inner, outer] = a.vectors.length <= b.vectors.length ? [a, b] : [b, a];
+  let total = 0;
+
+  for (const vector of inner.vectors) {
+    let best = -Infinity;
+    for (const other of outer.vectors) {
+      best = Math.max(best, dot(vector, other));
+    }
+    if (best < threshold) {
+      return null;
+    }
+    total += best;
+  }
+
+  return total / inner.vectors.length;
+}
+
+function findRoot(parents: number[], i: number): number {
+  while (parents[i] !== i) {
+    parents[i] = parents[parents[i]]; // Path halving
+    i = parents[i];
+  }
+  return i;
+}
+
+/**
+ * Unit-length mean of a memory's fact vectors (its overall topic)
+ */
+function centroid(vectors: Float32Array[]): Float32Array {
+  const mean = new Float32Array(vectors[0].length);
+  for (const vector of vectors) {
+    for (let i = 0; i < mean.length; i++) {
+      mean[i] += vector[i];
+    }
+  }
+
+  const norm = Math.sqrt(dot(mean, mean));
+  return norm > 0 ? mean.map((value) => value / norm) : mean;
+}
+
+/**
+ * Cluster duplicate memories, largest clusters first
+ *
+ * @param entries - Memories with their fact vectors, oldest first
+ * @param threshold - Minimum fact similarity (0-1) for facts to count as duplicates
+ */
+export function clusterDuplicates(entries: MemoryVectors[], threshold: number): DuplicateCluster[] {
+  return linkClusters(entries, (a, b) => containmentSimilarity(entries[a], entries[b], threshold));
+}
+
+/**
+ * Cluster related memories (same topic, not necessarily repeating each
+ * other), largest clusters first
+ *
+ * @param entries - Memories with their fact vectors, oldest first
+ * @param threshold - Minimum similarity (0-1) of the memories' mean fact vectors
+ */
+export function clusterRelated(entries: MemoryVectors[], threshold: number): DuplicateCluster[] {
+  const centroids = entries.map((entry) => centroid(entry.vectors));
+  return linkClusters(entries, (a, b) => {
+    const similarity = dot(centroids[a], centroids[b]);
+    return similarity >= threshold ? similarity : null;
+  });
+}
+
+/**
+ * Join every pair with a similarity (null = unrelated) into clusters
+ */
+function linkClusters(
+  entries: MemoryVectors[],
+  similarityOf: (a: number, b: number) => number | null
+): DuplicateCluster[] {
+  if (entries.length > MAX_CLUSTERED_MEMORIES) {
+    throw new Error(
+      `Too many memories to compare (${entries.length}, max ${MAX_CLUSTERED_MEMORIES}). ` +
+      `Narrow the search with 'tags' or a 'created_after' date.`
+    );
+  }
+
+  const parents = entries.map((_, i) => i);
+  const pairs: Array<{ a: number; b: number; similarity: number }> = [];
+
+  for (let a = 0; a < entries.length; a++) {
+    for (let b = a + 1; b < entries.length; b++) {
+      const similarity = similarityOf(a, b);
+      if (similarity === null) continue;
+
+      pairs.push({ a, b, similarity });
+      parents[findRoot(parents, b)] = findRoot(parents, a);
+    }
+  }
+
+  const clusters = new Map<number, { members: number[]; pairs: DuplicateCluster["pairs"] }>();
+  const clusterOf = (i: number) => {
+    const root = findRoot(parents, i);
+    if (!clusters.has(root)) {
+      clusters.set(root, { members: [], pairs: [] });
+    }
+    return clusters.get(root)!;
+  };
+
+  const paired = new Set(pairs.flatMap((pair) => [pair.a, pair.b]));
+  entries.forEach((_, i) => {
+    if (paired.has(i)) {
+      clusterOf(i).members.push(i);
+    }
+  });
+  for (const pair of pairs) {
+    clusterOf(pair.a).pairs.push({
+      memoryIds: [entries[pair.a].memory.id, entries[pair.b].memory.id],
+      similarity: pair.similarity,
+    });
+  }
+
+  return Array.from(clusters.values())
+    .map((cluster) => ({
+      memories: cluster.members.map((i) => entries[i].memory),
+      pairs: cluster.pairs.sort((x, y) => y.similarity - x.similarity),
+    }))
+    .sort((x, y) => y.memories.length - x.memories.length || y.pairs[0].similarity - x.pairs[0].similarity);
+}
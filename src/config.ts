@@ -6,7 +6,9 @@ import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
 import { homedir } from "os";
 import { join } from "path";
 import { config as loadEnv } from "dotenv";
-import type { LanguageMode } from "./embeddings/types.js";
+import type { LanguageMode, EmbeddingModelConfig } from "./embeddings/types.js";
+import type { FactExtractionSetting } from "./extraction/types.js";
+import type { DuplicatePolicy, SupersededMode, ContradictionCheck, EntityExtraction, RankingWeights } from "./types.js";
 
 // Load .env file if it exists
 loadEnv();
@@ -20,14 +22,69 @@ export interface Config {
     embeddingDimension: number;
   };
   contextId: string;
+  allowedContexts: string[]; // Extra contexts tools may use via context_id (["*"] = any)
   languageMode: LanguageMode; // 'en' or 'multilang' (only for local embeddings)
+  embeddingMode: string; // Embedding model to start with ("" = openai with a key, else local by languageMode)
+  embeddingModels: EmbeddingModelConfig[]; // Extra embedding models (Ollama, OpenAI-compatible, transformers.js)
+  factExtraction: {
+    provider: FactExtractionSetting; // How memories are split into facts when none are passed (independent of embeddings)
+    model: string; // Chat model for 'openai-compatible' ("" = openai.model)
+    baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+    apiKeyEnv: string; // Environment variable with the endpoint's API key ("" = none)
+  };
+  duplicates: {
+    enabled: boolean; // Check add_memory facts against existing facts in the context
+    threshold: number; // Fact similarity (0-1) from which memories count as duplicates
+    defaultPolicy: DuplicatePolicy; // add_memory's on_duplicate when not given
+  };
+  contradictions: {
+    check: ContradictionCheck; // Flag new facts that likely contradict similar existing facts on add_memory
+    threshold: number; // Fact similarity (0-1) from which pairs are checked
+  };
+  entities: {
+    extraction: EntityExtraction; // Index the entities new facts mention (for list_entities, get_entity, search filters)
+  };
+  superseded: {
+    search: SupersededMode; // search_memory default for memories replaced by newer ones
+    weight: number; // Score multiplier for superseded memories in 'downrank' mode
+  };
+  consolidation: {
+    threshold: number; // Similarity (0-1) of mean fact vectors from which memories are grouped
+    summarize: boolean; // Let the fact extraction LLM write the merged text (otherwise texts are joined)
+  };
   lambda: number; // Tag boost factor
+  keywordWeight: number; // Share of the BM25 score in hybrid search (0-1)
+  ranking: RankingWeights & {
+    contexts: Record<string, Partial<RankingWeights>>; // Per-context overrides
+  };
   enableToolCallNotes: boolean; // Enable tool call learning system
+  toolCallNotes: {
+    staleDays: number; // Notes not verified (or edited) for this long are flagged stale; also the recency half-life in ranking
+  };
+  trashRetentionDays: number; // Trashed memories older than this are purged at startup (0 = keep forever)
+  vectorIndex: {
+    enabled: boolean; // Use the approximate index in search when one is built
+    nprobe: number; // IVF lists scanned per query (higher = better recall, slower)
+  };
+  vaultSync: {
+    path: string; // Markdown vault directory ("" = disabled)
+    watch: boolean; // Keep the vault in sync while the server runs
+    intervalSeconds: number; // How often the watcher picks up database-side changes
+  };
+  auth: {
+    keyFile: string; // Hashed API tokens for HTTP mode (see auth.ts)
+    required: boolean; // Reject unauthenticated HTTP requests even before any token exists
+  };
+  audit: {
+    enabled: boolean; // Record every tool call in audit_log
+    retentionDays: number; // Entries older than this are purged at startup (0 = keep forever)
+  };
 }
 
 const CONFIG_DIR = join(homedir(), "Documents", "mcp-personal-memory");
 const CONFIG_PATH = join(CONFIG_DIR, "config.json");
 const DEFAULT_SQLITE_PATH = join(CONFIG_DIR, "memory.db");
+const DEFAULT_KEY_FILE = join(CONFIG_DIR, "tokens.json");
 
 const DEFAULT_CONFIG: Config = {
   sqlitePath: process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH,
@@ -38,9 +95,67 @@ const DEFAULT_CONFIG: Config = {
     embeddingDimension: 1536, // text-embedding-3-small dimension
   },
   contextId: process.env.CONTEXT_ID || "default",
+  allowedContexts: [],
   languageMode: (process.env.LANGUAGE_MODE as LanguageMode) || "multilang",
+  embeddingMode: process.env.EMBEDDING_MODE || "",
+  embeddingModels: [],
+  factExtraction: {
+    provider: "auto",
+    model: "",
+    baseUrl: "",
+    apiKeyEnv: "",
+  },
+  duplicates: {
+    enabled: true,
+    threshold: 0.9,
+    defaultPolicy: "reject",
+  },
+  contradictions: {
+    check: "heuristic",
+    threshold: 0.75,
+  },
+  entities: {
+    extraction: "rule-based",
+  },
+  superseded: {
+    search: "downrank",
+    weight: 0.5,
+  },
+  consolidation: {
+    threshold: 0.8,
+    summarize: true,
+  },
   lambda: 0.1, // Tag boost factor
+  keywordWeight: 0.3,
+  ranking: {
+    recencyWeight: 0.1,
+    halfLifeDays: 180,
+    usageWeight: 0.05,
+    usageSaturation: 10,
+    contexts: {},
+  },
   enableToolCallNotes: process.env.ENABLE_TOOL_CALL_NOTES !== "false", // Default: enabled
+  toolCallNotes: {
+    staleDays: 90,
+  },
+  trashRetentionDays: 30,
+  vectorIndex: {
+    enabled: true,
+    nprobe: 8,
+  },
+  vaultSync: {
+    path: process.env.VAULT_PATH || "",
+    watch: false,
+    intervalSeconds: 30,
+  },
+  auth: {
+    keyFile: DEFAULT_KEY_FILE,
+    required: false,
+  },
+  audit: {
+    enabled: true,
+    retentionDays: 90,
+  },
 };
 
 export function loadConfig(): Config {
@@ -62,14 +177,88 @@ export function loadConfig(): Config {
     ...baseConfig,
     sqlitePath: process.env.SQLITE_PATH || baseConfig.sqlitePath,
     contextId: process.env.CONTEXT_ID || baseConfig.contextId,
+    allowedContexts: process.env.ALLOWED_CONTEXTS
+      ? process.env.ALLOWED_CONTEXTS.split(",").map((id) => id.trim()).filter(Boolean)
+      : baseConfig.allowedContexts,
     languageMode: (process.env.LANGUAGE_MODE as LanguageMode) || baseConfig.languageMode,
+    embeddingMode: process.env.EMBEDDING_MODE || baseConfig.embeddingMode,
     enableToolCallNotes: process.env.ENABLE_TOOL_CALL_NOTES !== "false",
+    trashRetentionDays: process.env.TRASH_RETENTION_DAYS
+      ? parseInt(process.env.TRASH_RETENTION_DAYS, 10)
+      : baseConfig.trashRetentionDays,
     openai: {
       ...baseConfig.openai,
       apiKey: process.env.OPENAI_API_KEY || baseConfig.openai.apiKey,
       model: process.env.OPENAI_MODEL || baseConfig.openai.model,
       embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || baseConfig.openai.embeddingModel,
     },
+    factExtraction: {
+      ...DEFAULT_CONFIG.factExtraction,
+      ...baseConfig.factExtraction,
+      ...(process.env.FACT_EXTRACTION && { provider: process.env.FACT_EXTRACTION as FactExtractionSetting }),
+      ...(process.env.FACT_EXTRACTION_MODEL && { model: process.env.FACT_EXTRACTION_MODEL }),
+      ...(process.env.FACT_EXTRACTION_BASE_URL && { baseUrl: process.env.FACT_EXTRACTION_BASE_URL }),
+    },
+    duplicates: {
+      ...DEFAULT_CONFIG.duplicates,
+      ...baseConfig.duplicates,
+      ...(process.env.DUPLICATE_THRESHOLD && { threshold: parseFloat(process.env.DUPLICATE_THRESHOLD) }),
+      ...(process.env.DUPLICATE_POLICY && { defaultPolicy: process.env.DUPLICATE_POLICY as DuplicatePolicy }),
+    },
+    contradictions: {
+      ...DEFAULT_CONFIG.contradictions,
+      ...baseConfig.contradictions,
+      ...(process.env.CONTRADICTION_CHECK && { check: process.env.CONTRADICTION_CHECK as ContradictionCheck }),
+    },
+    entities: {
+      ...DEFAULT_CONFIG.entities,
+      ...baseConfig.entities,
+      ...(process.env.ENTITY_EXTRACTION && { extraction: process.env.ENTITY_EXTRACTION as EntityExtraction }),
+    },
+    superseded: {
+      ...DEFAULT_CONFIG.superseded,
+      ...baseConfig.superseded,
+      ...(process.env.SUPERSEDED_SEARCH && { search: process.env.SUPERSEDED_SEARCH as SupersededMode }),
+    },
+    consolidation: {
+      ...DEFAULT_CONFIG.consolidation,
+      ...baseConfig.consolidation,
+    },
+    ranking: {
+      ...DEFAULT_CONFIG.ranking,
+      ...baseConfig.ranking,
+      ...(process.env.RANKING_RECENCY_WEIGHT && { recencyWeight: parseFloat(process.env.RANKING_RECENCY_WEIGHT) }),
+      ...(process.env.RANKING_USAGE_WEIGHT && { usageWeight: parseFloat(process.env.RANKING_USAGE_WEIGHT) }),
+    },
+    toolCallNotes: {
+      ...DEFAULT_CONFIG.toolCallNotes,
+      ...baseConfig.toolCallNotes,
+      ...(process.env.TOOL_NOTE_STALE_DAYS && { staleDays: parseInt(process.env.TOOL_NOTE_STALE_DAYS, 10) }),
+    },
+    vectorIndex: {
+      ...DEFAULT_CONFIG.vectorIndex,
+      ...baseConfig.vectorIndex,
+      ...(process.env.VECTOR_INDEX && { enabled: process.env.VECTOR_INDEX !== "false" }),
+      ...(process.env.VECTOR_INDEX_NPROBE && { nprobe: parseInt(process.env.VECTOR_INDEX_NPROBE, 10) }),
+    },
+    vaultSync: {
+      ...DEFAULT_CONFIG.vaultSync,
+      ...baseConfig.vaultSync,
+      ...(process.env.VAULT_PATH && { path: process.env.VAULT_PATH }),
+      ...(process.env.VAULT_WATCH && { watch: process.env.VAULT_WATCH === "true" }),
+    },
+    auth: {
+      ...DEFAULT_CONFIG.auth,
+      ...baseConfig.auth,
+      ...(process.env.AUTH_KEY_FILE && { keyFile: process.env.AUTH_KEY_FILE }),
+      ...(process.env.AUTH_REQUIRED && { required: process.env.AUTH_REQUIRED === "true" }),
+    },
+    audit: {
+      ...DEFAULT_CONFIG.audit,
+      ...baseConfig.audit,
+      ...(process.env.AUDIT_LOG && { enabled: process.env.AUDIT_LOG !== "false" }),
+      ...(process.env.AUDIT_RETENTION_DAYS && { retentionDays: parseInt(process.env.AUDIT_RETENTION_DAYS, 10) }),
+    },
   };
 }
 
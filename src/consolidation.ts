@@ -0,0 +1,203 @@
+/**
+ * Memory Consolidation
+ *
+ * Over time a tag collects many small, overlapping memories. consolidate_memories
+ * groups related ones (clusterRelated) and proposes one merged memory per group:
+ * the originals' facts without near-duplicates, their combined tags, and a text
+ * written by the fact extraction LLM (or the original texts joined when there is
+ * none). Nothing changes until a proposal is applied: the merged memory is then
+ * created and the originals are archived, linked to it.
+ */
+
+import OpenAI from "openai";
+import config from "./config.js";
+import { embedder } from "./embeddings/factory.js";
+import { getLlmSettings } from "./extraction/factory.js";
+import { listMemories, getMemory, getFactsByMemoryId, getFactVectors } from "./operations.js";
+import { insertConsolidatedMemory } from "./pipeline.js";
+import { indexFactEntities } from "./entities.js";
+import { clusterRelated } from "./clustering.js";
+import { dotProduct } from "./vector.js";
+import type { Memory, Fact, DuplicateCluster, ConsolidationProposal } from "./types.js";
+
+export interface ConsolidationFilters {
+  tags?: string[]; // Memories having any of these tags
+  createdAfter?: number;
+  createdBefore?: number;
+}
+
+interface MemoryFacts {
+  memory: Memory;
+  facts: Array<{ fact: Fact; vector?: number[] }>; // Vector in the current embedding mode
+}
+
+function loadMemoryFacts(memories: Memory[]): MemoryFacts[] {
+  const embeddingType = embedder.getType();
+  return memories.map((memory) => ({
+    memory,
+    facts: getFactsByMemoryId(memory.id).map((fact) => ({
+      fact,
+      vector: getFactVectors(fact.id)[embeddingType],
+    })),
+  }));
+}
+
+const SUMMARY_PROMPT = `You merge several related notes from a personal memory into one note.
+Keep every distinct detail, drop repetition, and when notes disagree keep the newest statement (notes are listed oldest first).
+Write plain prose of at most 6 sentences. Respond with the merged note only.`;
+
+/**
+ * Merged text written by the fact extraction LLM, or null when there is none
+ * (or the call fails)
+ */
+async function summarize(texts: string[]): Promise<string | null> {
+  if (!config.consolidation.summarize) {
+    return null;
+  }
+
+  try {
+    const llm = getLlmSettings();
+    if (!llm) return null;
+
+    const client = new OpenAI({ apiKey: llm.apiKey || "none", baseURL: llm.baseUrl });
+    const response = await client.chat.completions.create({
+      model: llm.model,
+      messages: [
+        { role: "system", content: SUMMARY_PROMPT },
+        { role: "user", content: texts.map((text, i) => `${i + 1}. ${text}`).join("\n\n") },
+      ],
+      temperature: 0,
+    });
+
+    return response.choices[0]?.message?.content?.trim() || null;
+  } catch (error: any) {
+    console.error(`⚠️  Consolidation summary failed (${error.message}); joining the texts instead`);
+    return null;
+  }
+}
+
+/**
+ * Propose one merged memory for a group of related memories (oldest first)
+ * Facts are kept oldest first unless a kept fact is at least
+ * duplicates.threshold similar (or has the same text)
+ */
+async function buildProposal(group: MemoryFacts[], pairs: DuplicateCluster["pairs"]): Promise<ConsolidationProposal> {
+  const kept: Array<{ text: string; vector?: number[] }> = [];
+  const droppedFacts: string[] = [];
+
+  for (const { fact, vector } of group.flatMap((entry) => entry.facts)) {
+    const repeated = kept.some((other) =>
+      other.text.trim().toLowerCase() === fact.text.trim().toLowerCase() ||
+      (vector && other.vector && dotProduct(vector, other.vector) >= config.duplicates.threshold)
+    );
+    if (repeated) {
+      droppedFacts.push(fact.text);
+    } else {
+      kept.push({ text: fact.text, vector });
+    }
+  }
+
+  const texts = [...new Set(group.map((entry) => entry.memory.text.trim()))];
+  const summary = await summarize(texts);
+
+  const tags: string[] = [];
+  for (const tag of group.flatMap((entry) => entry.memory.tags)) {
+    if (!tags.includes(tag)) tags.push(tag);
+  }
+
+  return {
+    memories: group.map((entry) => entry.memory),
+    pairs,
+    text: summary ?? texts.join("\n\n"),
+    tags,
+    facts: kept.map((fact) => fact.text),
+    droppedFacts,
+    summarized: summary !== null,
+  };
+}
+
+/**
+ * Group related memories of a context and propose a merged memory for each
+ * group, largest groups first
+ *
+ * @param threshold - Minimum similarity (0-1) of the memories' mean fact vectors
+ * @param limit - Max proposals (each may cost an LLM call)
+ */
+export async function proposeConsolidations(
+  contextId: string,
+  filters: ConsolidationFilters,
+  threshold: number,
+  limit: number
+): Promise<{ memoriesCompared: number; proposals: ConsolidationProposal[] }> {
+  const memories = listMemories(contextId, filters.tags, Number.MAX_SAFE_INTEGER)
+    .filter((memory) =>
+      (filters.createdAfter === undefined || memory.createdAt >= filters.createdAfter) &&
+      (filters.createdBefore === undefined || memory.createdAt < filters.createdBefore)
+    )
+    .reverse(); // Oldest first
+
+  // Memories without vectors in the current mode cannot be compared
+  const entries = loadMemoryFacts(memories)
+    .map((entry) => ({
+      entry,
+      vectors: entry.facts.flatMap(({ vector }) => (vector ? [Float32Array.from(vector)] : [])),
+    }))
+    .filter(({ vectors }) => vectors.length > 0);
+
+  const clusters = clusterRelated(
+    entries.map(({ entry, vectors }) => ({ memory: entry.memory, vectors })),
+    threshold
+  );
+
+  const byId = new Map(entries.map(({ entry }) => [entry.memory.id, entry]));
+  const proposals: ConsolidationProposal[] = [];
+  for (const cluster of clusters.slice(0, limit)) {
+    const group = cluster.memories.map((memory) => byId.get(memory.id)!);
+    proposals.push(await buildProposal(group, cluster.pairs));
+  }
+
+  return { memoriesCompared: entries.length, proposals };
+}
+
+/**
+ * Merge the given memories into one new memory and archive them
+ * Text, tags and facts default to the proposal for these memories; pass the
+ * (possibly edited) proposal back to apply it as reviewed.
+ */
+export async function applyConsolidation(
+  contextId: string,
+  memoryIds: string[],
+  overrides: { text?: string; tags?: string[]; facts?: string[] } = {}
+): Promise<{ memory: Memory; facts: Fact[]; archivedIds: string[] }> {
+  const ids = [...new Set(memoryIds)];
+  if (ids.length < 2) {
+    throw new Error("Consolidation needs at least 2 different memory_ids");
+  }
+
+  const memories = ids.map((id) => {
+    const memory = getMemory(id);
+    if (!memory || memory.contextId !== contextId || memory.deletedAt) {
+      throw new Error(`Memory ${id} not found in context '${contextId}' (or it is in trash)`);
+    }
+    if (memory.archivedAt) {
+      throw new Error(`Memory ${id} is already consolidated into ${memory.consolidatedInto}`);
+    }
+    return memory;
+  }).sort((a, b) => a.createdAt - b.createdAt);
+
+  const needsProposal = overrides.text === undefined || overrides.tags === undefined || overrides.facts === undefined;
+  const proposal = needsProposal ? await buildProposal(loadMemoryFacts(memories), []) : null;
+
+  const text = overrides.text ?? proposal!.text;
+  const tags = overrides.tags ?? proposal!.tags;
+  const factTexts = overrides.facts ?? proposal!.facts;
+  if (factTexts.length === 0) {
+    throw new Error("The consolidated memory needs at least one fact");
+  }
+
+  const embeddings = await embedder.embedBatch(factTexts);
+  const result = insertConsolidatedMemory(contextId, ids, text, tags, factTexts, embeddings);
+  await indexFactEntities(contextId, result.facts);
+
+  return { ...result, archivedIds: memories.map((memory) => memory.id) };
+}
@@ -0,0 +1,88 @@
+/**
+ * Context Access
+ * 
+ * Which contexts this server may read and write, and resolution of the
+ * optional `context_id` / `context_ids` tool arguments.
+ * 
+ * The configured contextId is always allowed and is the default.
+ * allowedContexts lists extra contexts; ["*"] allows any context.
+ * In authenticated HTTP calls the token's contexts narrow this further.
+ */
+
+import config from "./config.js";
+import { getContextIds } from "./operations.js";
+import { isContextAllowedForToken, assertContextAllowedForToken } from "./auth.js";
+
+const ANY_CONTEXT = "*";
+
+function allowsAnyContext(): boolean {
+  return config.allowedContexts.includes(ANY_CONTEXT);
+}
+
+function isContextAllowedOnServer(contextId: string): boolean {
+  return contextId === config.contextId
+    || allowsAnyContext()
+    || config.allowedContexts.includes(contextId);
+}
+
+export function isContextAllowed(contextId: string): boolean {
+  return isContextAllowedOnServer(contextId) && isContextAllowedForToken(contextId);
+}
+
+/**
+ * Every context this server (and the calling token) may use: the configured
+ * list, or with "*" every context that has memories (the default context first)
+ */
+export function getAllowedContextIds(): string[] {
+  const contexts = allowsAnyContext() ? getContextIds() : config.allowedContexts;
+  return [config.contextId, ...contexts.filter((id) => id !== config.contextId)]
+    .filter(isContextAllowedForToken);
+}
+
+function assertAllowed(contextId: string): void {
+  assertContextAllowedForToken(contextId);
+  if (!isContextAllowedOnServer(contextId)) {
+    throw new Error(
+      `Context '${contextId}' is not allowed on this server. ` +
+      `Allowed: ${allowsAnyContext() ? "any" : getAllowedContextIds().join(", ")} (see allowedContexts / ALLOWED_CONTEXTS)`
+    );
+  }
+}
+
+/**
+ * Context for a tool call: `context_id` if given (must be allowed), otherwise the default
+ */
+export function resolveContextId(args: any): string {
+  const contextId = args?.context_id;
+  if (contextId === undefined || contextId === null || contextId === "") {
+    assertContextAllowedForToken(config.contextId);
+    return config.contextId;
+  }
+  if (typeof contextId !== "string") {
+    throw new Error("context_id must be a string");
+  }
+
+  assertAllowed(contextId);
+  return contextId;
+}
+
+/**
+ * Contexts for a multi-context call (search, export): `context_ids` if given,
+ * where "*" expands to every allowed context; otherwise `context_id` / the default
+ */
+export function resolveContextIds(args: any): string[] {
+  const contextIds = args?.context_ids;
+  if (contextIds === undefined || contextIds === null) {
+    return [resolveContextId(args)];
+  }
+  if (!Array.isArray(contextIds) || contextIds.length === 0) {
+    throw new Error("context_ids must be a non-empty array of context IDs");
+  }
+
+  if (contextIds.includes(ANY_CONTEXT)) {
+    return getAllowedContextIds();
+  }
+
+  contextIds.forEach(assertAllowed);
+  return [...new Set(contextIds as string[])];
+}
@@ -0,0 +1,160 @@
+/**
+ * Contradiction Detection
+ *
+ * add_memory compares new facts with similar existing facts in the context and
+ * flags pairs that likely contradict ("uses Postgres" → "moved to MySQL"), so
+ * the agent can supersede the outdated memory. Checks are advisory: they never
+ * fail the write.
+ *
+ * 'heuristic': negation, change wording, different numbers, or the same
+ * statement with one value swapped. 'llm': asks the fact extraction model,
+ * falling back to the heuristic when there is none or the call fails.
+ */
+
+import OpenAI from "openai";
+import config from "./config.js";
+import { findSimilarFacts } from "./operations.js";
+import { getLlmSettings } from "./extraction/factory.js";
+import type { EmbeddingType } from "./embeddings/types.js";
+import type { PossibleContradiction } from "./types.js";
+
+const MAX_CHECKED_PAIRS = 20; // Most similar pairs only, to bound LLM prompts
+const MAX_SWAPPED_WORDS = 2;
+
+const NEGATION = /\b(not|no|never|none|neither|nor|without|cannot|stopped|quit)\b|n't\b/i;
+const CHANGE = /\b(no longer|any ?more|moved|switched|migrated|changed|replaced|instead|now|from\b.+\bto)\b/i;
+const NUMBER = /\d+(?:[.,]\d+)?/g;
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "of", "to", "in", "on", "at", "for", "with", "by", "from", "as",
+  "is", "are", "was", "were", "be", "been", "has", "have", "had", "do", "does", "did",
+  "it", "its", "this", "that", "these", "those", "their", "his", "her", "our", "my", "your",
+  "user", "users", "we", "they", "he", "she", "i", "you",
+]);
+
+type CandidatePair = Omit<PossibleContradiction, "reason">;
+
+function contentWords(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}_+#.-]+/gu) ?? [];
+  return new Set(words.map((word) => word.replace(/[.-]+$/, "")).filter((word) => word && !STOPWORDS.has(word)));
+}
+
+/**
+ * Why a new fact likely contradicts an existing one, or null
+ */
+export function heuristicContradiction(newFact: string, existingFact: string): string | null {
+  if (NEGATION.test(newFact) !== NEGATION.test(existingFact)) {
+    return "One statement negates the other";
+  }
+
+  const newNumbers = newFact.match(NUMBER) ?? [];
+  const oldNumbers = existingFact.match(NUMBER) ?? [];
+  if (newNumbers.length > 0 && oldNumbers.length > 0 && newNumbers.join() !== oldNumbers.join()) {
+    return `Different values (${oldNumbers.join(", ")} → ${newNumbers.join(", ")})`;
+  }
+
+  if (CHANGE.test(newFact) && !CHANGE.test(existingFact)) {
+    return "The new statement describes a change";
+  }
+
+  const newWords = contentWords(newFact);
+  const oldWords = contentWords(existingFact);
+  const added = [...newWords].filter((word) => !oldWords.has(word));
+  const removed = [...oldWords].filter((word) => !newWords.has(word));
+
+  const shared = newWords.size - added.length;
+  if (added.length > 0 && removed.length > 0 && added.length <= MAX_SWAPPED_WORDS &&
+      removed.length <= MAX_SWAPPED_WORDS && shared >= 1) {
+    return `Same statement with a different value ('${removed.join(" ")}' → '${added.join(" ")}')`;
+  }
+
+  return null;
+}
+
+const LLM_PROMPT = `You compare statements stored in a personal memory with new statements.
+For each numbered pair, decide whether the NEW statement contradicts the EXISTING one or makes it outdated
+(a changed preference, value, tool, location, status, ...). Pairs that agree, repeat or merely add detail are not contradictions.
+
+Respond with JSON only: {"contradictions": [{"pair": <number>, "reason": "<short reason>"}]}
+Use an empty list when no pair contradicts.`;
+
+async function llmContradictions(pairs: CandidatePair[]): Promise<PossibleContradiction[] | null> {
+  const listing = pairs
+    .map((pair, i) => `${i + 1}. EXISTING: ${pair.existingFact.text}\n   NEW: ${pair.factText}`)
+    .join("\n");
+
+  try {
+    const llm = getLlmSettings();
+    if (!llm) {
+      console.error("⚠️  contradictions.check is 'llm' but fact extraction uses no LLM; using the heuristic check");
+      return null;
+    }
+
+    const client = new OpenAI({ apiKey: llm.apiKey || "none", baseURL: llm.baseUrl });
+    const response = await client.chat.completions.create({
+      model: llm.model,
+      messages: [
+        { role: "system", content: LLM_PROMPT },
+        { role: "user", content: listing },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0,
+    });
+
+    const content = response.choices[0]?.message?.content ?? "";
+    const parsed = JSON.parse(content.slice(content.indexOf("{"), content.lastIndexOf("}") + 1));
+    const found = Array.isArray(parsed.contradictions) ? parsed.contradictions : [];
+
+    return found
+      .filter((item: any) => Number.isInteger(item?.pair) && pairs[item.pair - 1])
+      .map((item: any) => ({
+        ...pairs[item.pair - 1],
+        reason: typeof item.reason === "string" && item.reason ? item.reason : "Flagged by the LLM",
+      }));
+  } catch (error: any) {
+    console.error(`⚠️  LLM contradiction check failed (${error.message}); using the heuristic check`);
+    return null;
+  }
+}
+
+/**
+ * Likely contradictions between new facts and similar existing facts in the
+ * context (empty when contradictions.check is 'off')
+ *
+ * @param embeddings - Vectors of the new facts from the current embedder
+ */
+export async function findPossibleContradictions(
+  contextId: string,
+  factTexts: string[],
+  embeddings: number[][],
+  embeddingType: EmbeddingType
+): Promise<PossibleContradiction[]> {
+  const { check, threshold } = config.contradictions;
+  if (check === "off") {
+    return [];
+  }
+
+  const pairs: CandidatePair[] = findSimilarFacts(contextId, factTexts, embeddings, embeddingType, threshold)
+    .flatMap((candidate) => candidate.matches.map((match) => ({
+      factText: match.factText,
+      existingFact: match.existingFact,
+      memory: candidate.memory,
+      similarity: match.similarity,
+    })))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, MAX_CHECKED_PAIRS);
+
+  if (pairs.length === 0) {
+    return [];
+  }
+
+  if (check === "llm") {
+    const flagged = await llmContradictions(pairs);
+    if (flagged) return flagged;
+  }
+
+  return pairs.flatMap((pair) => {
+    const reason = heuristicContradiction(pair.factText, pair.existingFact.text);
+    return reason ? [{ ...pair, reason }] : [];
+  });
+}
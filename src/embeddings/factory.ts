@@ -1,17 +1,22 @@
 /**
  * Embedder Factory
  * 
- * Creates the appropriate embedder based on configuration
+ * Creates the embedder for the current mode from the model registry
  */
 
-import type { Embedder, LanguageMode, EmbeddingType } from "./types.js";
+import type { Embedder, EmbeddingConfig, EmbeddingType } from "./types.js";
 import { OpenAIEmbedder } from "./openai-embedder.js";
+import { OllamaEmbedder } from "./ollama-embedder.js";
 import { LocalEmbedder } from "./local-embedder.js";
+import { EMBEDDING_CONFIGS, getEmbeddingConfig, embeddingBatchSize } from "./registry.js";
 import { validateOpenAIKey } from "./validation.js";
 import { 
   getFactsMissingEmbeddings, 
   countFactsMissingEmbeddings, 
-  addEmbeddingToFact 
+  addEmbeddingToFact,
+  getToolCallNotesMissingEmbeddings,
+  countToolCallNotesMissingEmbeddings,
+  addEmbeddingToToolCallNote,
 } from "../operations.js";
 import config from "../config.js";
 
@@ -28,57 +33,59 @@ export function getEmbedder(): Embedder {
   return embedderInstance;
 }
 
+/**
+ * Create the embedder for a registered model
+ */
+function createEmbedderFor(model: EmbeddingConfig): Embedder {
+  switch (model.provider) {
+    case 'openai':
+      return new OpenAIEmbedder(model, config.openai.apiKey);
+    case 'openai-compatible':
+      return new OpenAIEmbedder(model, model.apiKeyEnv ? process.env[model.apiKeyEnv] ?? "" : "");
+    case 'ollama':
+      return new OllamaEmbedder(model);
+    case 'transformers':
+      return new LocalEmbedder(model);
+  }
+}
+
 /**
  * Create embedder based on configuration
  * 
  * Priority:
- * 1. If OPENAI_API_KEY is set and valid → OpenAI embedder
- * 2. Otherwise → Local embedder (uses language_mode: 'en' or 'multilang')
+ * 1. embeddingMode / EMBEDDING_MODE names a registered model → that model
+ * 2. If OPENAI_API_KEY is set → OpenAI embedder
+ * 3. Otherwise → Local embedder (uses language_mode: 'en' or 'multilang')
  */
 function createEmbedder(): Embedder {
+  if (config.embeddingMode) {
+    const model = getEmbeddingConfig(config.embeddingMode);
+    console.error(`✓ Using ${model.id} embeddings (${model.provider}: ${model.model})`);
+    currentMode = model.id;
+    return createEmbedderFor(model);
+  }
+
   // OpenAI takes precedence if API key is available
   if (config.openai.apiKey) {
     console.error("✓ OpenAI API key detected, using OpenAI embeddings");
     currentMode = 'openai';
-    return new OpenAIEmbedder(
-      config.openai.apiKey,
-      config.openai.embeddingModel,
-      config.openai.embeddingDimension
-    );
+    return createEmbedderFor(EMBEDDING_CONFIGS.openai);
   }
 
   // Use local embeddings with language mode
   const mode = config.languageMode === 'en' ? 'local_english' : 'local_multilingual';
   console.error(`✓ No OpenAI key, using local embeddings (${config.languageMode})`);
   currentMode = mode;
-  return new LocalEmbedder(config.languageMode);
+  return createEmbedderFor(EMBEDDING_CONFIGS[mode]);
 }
 
 /**
- * Switch embedding mode
- * 
- * @param mode - Target embedding mode
- * @param languageMode - For local modes, 'en' or 'multilang'
- * @throws Error if switching to OpenAI without valid key
+ * Check a model can be used before switching to it
+ * OpenAI validates the key; servers (Ollama, OpenAI-compatible) must answer a
+ * test embedding of the registered dimension. transformers models load lazily.
  */
-export async function switchEmbeddingMode(
-  mode: EmbeddingType,
-  languageMode?: LanguageMode
-): Promise<{ 
-  success: boolean; 
-  message: string; 
-  previousMode: EmbeddingType | null;
-  missingEmbeddings: number;
-  embeddedCount?: number;
-  estimatedTime?: string;
-}> {
-  const previousMode = currentMode;
-
-  // Check how many facts are missing embeddings for target mode
-  const missingCount = countFactsMissingEmbeddings(mode);
-
-  // Validate OpenAI mode
-  if (mode === 'openai') {
+async function validateModel(model: EmbeddingConfig, target: Embedder): Promise<void> {
+  if (model.provider === 'openai') {
     if (!config.openai.apiKey) {
       throw new Error(
         "Cannot switch to OpenAI mode: OPENAI_API_KEY not set. " +
@@ -93,128 +100,153 @@ export async function switchEmbeddingMode(
         "Check your OPENAI_API_KEY or use local embedding mode."
       );
     }
+    return;
+  }
 
-    // Create new embedder
-    embedderInstance = new OpenAIEmbedder(
-      config.openai.apiKey,
-      config.openai.embeddingModel,
-      config.openai.embeddingDimension
-    );
-    currentMode = 'openai';
-
-    // If there are missing embeddings, create them
-    if (missingCount > 0) {
-      console.error(`ℹ️  Found ${missingCount} facts without OpenAI embeddings`);
-      console.error(`⏳ Embedding missing facts (estimated: ${estimateEmbeddingTime(missingCount, 'openai')})`);
-      
-      const startTime = Date.now();
-      const factsToEmbed = getFactsMissingEmbeddings(mode);
-      
-      // Batch embed for efficiency
-      let embedded = 0;
-      const batchSize = 100;
-      
-      for (let i = 0; i < factsToEmbed.length; i += batchSize) {
-        const batch = factsToEmbed.slice(i, i + batchSize);
-        const texts = batch.map(f => f.text);
-        const embeddings = await embedderInstance.embedBatch(texts);
-        
-        for (let j = 0; j < batch.length; j++) {
-          addEmbeddingToFact(batch[j].id, embeddings[j], mode);
-          embedded++;
-        }
-        
-        if (embedded % 50 === 0) {
-          console.error(`  Progress: ${embedded}/${missingCount} facts embedded`);
-        }
-      }
-      
-      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-      console.error(`✓ Embedded ${embedded} facts in ${elapsed}s`);
-
-      return {
-        success: true,
-        message: `Switched to OpenAI embeddings. Created ${embedded} missing embeddings in ${elapsed}s.`,
-        previousMode,
-        missingEmbeddings: missingCount,
-        embeddedCount: embedded,
-        estimatedTime: estimateEmbeddingTime(missingCount, 'openai'),
-      };
+  if (model.provider !== 'transformers') {
+    try {
+      await target.embedText("test");
+    } catch (error: any) {
+      throw new Error(`Cannot switch to ${model.id}: ${error.message}`);
     }
-
-    return {
-      success: true,
-      message: "Switched to OpenAI embeddings. All facts already have OpenAI embeddings.",
-      previousMode,
-      missingEmbeddings: 0,
-    };
   }
+}
 
-  // Switch to local mode
-  const targetLanguageMode = languageMode || 
-    (mode === 'local_english' ? 'en' : 'multilang');
+/**
+ * Switch embedding mode
+ * 
+ * @param mode - Registered embedding model to switch to
+ * @throws Error if the mode is unknown or its provider is not usable
+ */
+export async function switchEmbeddingMode(
+  mode: EmbeddingType
+): Promise<{ 
+  success: boolean; 
+  message: string; 
+  previousMode: EmbeddingType | null;
+  missingEmbeddings: number;
+  embeddedCount?: number;
+  estimatedTime?: string;
+  notesEmbedded?: number;
+}> {
+  const model = getEmbeddingConfig(mode);
+  const previousMode = currentMode;
+
+  // Check how many facts (and tool call notes) are missing embeddings for target mode
+  const missingCount = countFactsMissingEmbeddings(mode);
+  const missingNoteCount = countToolCallNotesMissingEmbeddings(mode);
 
-  const modelInfo = targetLanguageMode === 'en' 
-    ? "bge-small-en-v1.5 (~120MB)"
-    : "paraphrase-multilingual-MiniLM-L12-v2 (~130MB)";
+  const target = createEmbedderFor(model);
+  await validateModel(model, target);
 
-  embedderInstance = new LocalEmbedder(targetLanguageMode);
+  embedderInstance = target;
   currentMode = mode;
 
+  const label = model.provider === 'openai' ? "OpenAI" : `${mode} (${model.provider}: ${model.model})`;
+  const note = model.provider === 'transformers'
+    ? " Note: First use will download the model, which may take 1-3 minutes depending on connection."
+    : "";
+
+  // Notes are few and short, so they are embedded without progress output
+  const notesEmbedded = missingNoteCount > 0
+    ? await embedMissingToolCallNotes(target, mode, embeddingBatchSize(mode))
+    : undefined;
+  const notesMessage = notesEmbedded ? ` Embedded ${notesEmbedded} tool call notes.` : "";
+
   // If there are missing embeddings, create them
   if (missingCount > 0) {
     console.error(`ℹ️  Found ${missingCount} facts without ${mode} embeddings`);
     console.error(`⏳ Embedding missing facts (estimated: ${estimateEmbeddingTime(missingCount, mode)})`);
     
     const startTime = Date.now();
-    const factsToEmbed = getFactsMissingEmbeddings(mode);
-    
-    // Batch embed for efficiency
-    let embedded = 0;
-    const batchSize = 50; // Smaller batches for local to show progress
-    
-    for (let i = 0; i < factsToEmbed.length; i += batchSize) {
-      const batch = factsToEmbed.slice(i, i + batchSize);
-      const texts = batch.map(f => f.text);
-      const embeddings = await embedderInstance.embedBatch(texts);
-      
-      for (let j = 0; j < batch.length; j++) {
-        addEmbeddingToFact(batch[j].id, embeddings[j], mode);
-        embedded++;
-      }
-      
-      if (embedded % 25 === 0 || embedded === missingCount) {
-        console.error(`  Progress: ${embedded}/${missingCount} facts embedded`);
-      }
-    }
+    const embedded = await embedMissingFacts(target, mode, embeddingBatchSize(mode));
     
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
     console.error(`✓ Embedded ${embedded} facts in ${elapsed}s`);
 
     return {
       success: true,
-      message: 
-        `Switched to local ${targetLanguageMode} embeddings (${modelInfo}). ` +
-        `Created ${embedded} missing embeddings in ${elapsed}s. ` +
-        `Note: First use will download the model, which may take 1-3 minutes depending on connection.`,
+      message: `Switched to ${label} embeddings. Created ${embedded} missing embeddings in ${elapsed}s.${notesMessage}${note}`,
       previousMode,
       missingEmbeddings: missingCount,
       embeddedCount: embedded,
       estimatedTime: estimateEmbeddingTime(missingCount, mode),
+      notesEmbedded,
     };
   }
 
   return {
     success: true,
-    message: 
-      `Switched to local ${targetLanguageMode} embeddings (${modelInfo}). ` +
-      `All facts already have ${mode} embeddings. ` +
-      `Note: First use will download the model, which may take 1-3 minutes depending on connection.`,
+    message: `Switched to ${label} embeddings. All facts already have ${mode} embeddings.${notesMessage}${note}`,
     previousMode,
     missingEmbeddings: 0,
+    notesEmbedded,
   };
 }
 
+/**
+ * Embed every fact that has no vector in the given mode, in batches
+ * 
+ * @param target - Embedder producing vectors for `mode`
+ * @param mode - Embedding mode whose vector table is filled in
+ * @param batchSize - Facts per embedBatch call
+ * @returns Number of facts embedded
+ */
+export async function embedMissingFacts(
+  target: Embedder,
+  mode: EmbeddingType,
+  batchSize: number
+): Promise<number> {
+  const factsToEmbed = getFactsMissingEmbeddings(mode);
+  
+  // Batch embed for efficiency
+  let embedded = 0;
+  
+  for (let i = 0; i < factsToEmbed.length; i += batchSize) {
+    const batch = factsToEmbed.slice(i, i + batchSize);
+    const texts = batch.map(f => f.text);
+    const embeddings = await target.embedBatch(texts);
+    
+    for (let j = 0; j < batch.length; j++) {
+      addEmbeddingToFact(batch[j].id, embeddings[j], mode);
+      embedded++;
+    }
+    
+    console.error(`  Progress: ${embedded}/${factsToEmbed.length} facts embedded`);
+  }
+  
+  return embedded;
+}
+
+/**
+ * Embed every tool call note that has no vector in the given mode, in batches
+ * 
+ * @param target - Embedder producing vectors for `mode`
+ * @param mode - Embedding mode whose note vector table is filled in
+ * @param batchSize - Notes per embedBatch call
+ * @returns Number of notes embedded
+ */
+export async function embedMissingToolCallNotes(
+  target: Embedder,
+  mode: EmbeddingType,
+  batchSize: number
+): Promise<number> {
+  const notesToEmbed = getToolCallNotesMissingEmbeddings(mode);
+  let embedded = 0;
+
+  for (let i = 0; i < notesToEmbed.length; i += batchSize) {
+    const batch = notesToEmbed.slice(i, i + batchSize);
+    const embeddings = await target.embedBatch(batch.map((n) => n.text));
+
+    for (let j = 0; j < batch.length; j++) {
+      addEmbeddingToToolCallNote(batch[j].id, embeddings[j], mode);
+      embedded++;
+    }
+  }
+
+  return embedded;
+}
+
 /**
  * Estimate embedding time based on count and mode
  * @param count - Number of facts to embed
@@ -223,7 +255,7 @@ export async function switchEmbeddingMode(
  */
 function estimateEmbeddingTime(count: number, mode: EmbeddingType): string {
   // Time per fact (in seconds)
-  const timePerFact = mode === 'openai' ? 0.1 : 0.15; // OpenAI ~100ms, Local ~150ms
+  const timePerFact = getEmbeddingConfig(mode).provider === 'transformers' ? 0.15 : 0.1; // In-process ~150ms, APIs ~100ms
   
   const totalSeconds = count * timePerFact;
   
@@ -255,6 +287,17 @@ export function resetEmbedder(): void {
   currentMode = null;
 }
 
-// Export singleton instance
-export const embedder = getEmbedder();
+/**
+ * The current embedder, following switch_embedding_mode
+ * (delegates to the singleton, so modules can import it once)
+ */
+export const embedder: Embedder = {
+  embedText: (text) => getEmbedder().embedText(text),
+  embedBatch: (texts) => getEmbedder().embedBatch(texts),
+  getDimension: () => getEmbedder().getDimension(),
+  getType: () => getEmbedder().getType(),
+};
+
+// Pick the mode at startup
+getEmbedder();
 
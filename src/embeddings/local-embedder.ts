@@ -2,24 +2,13 @@
  * Local Embedder
  * 
  * Uses @xenova/transformers for local embeddings (no API required)
- * Supports both English-only and multilingual models
+ * Runs any registered 'transformers' model: the built-in English and
+ * multilingual models, or one from config.embeddingModels
  */
 
 import { normalize } from "../vector.js";
-import type { Embedder, EmbeddingType, LanguageMode } from "./types.js";
-
-const MODEL_CONFIGS = {
-  en: {
-    model: 'Xenova/bge-small-en-v1.5',
-    dimension: 384,
-    type: 'local_english' as EmbeddingType,
-  },
-  multilang: {
-    model: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
-    dimension: 384,
-    type: 'local_multilingual' as EmbeddingType,
-  },
-};
+import { assertDimension } from "./registry.js";
+import type { Embedder, EmbeddingConfig, EmbeddingType } from "./types.js";
 
 // Shared download state across all instances
 let downloadProgress = {
@@ -31,12 +20,13 @@ let downloadProgress = {
 export class LocalEmbedder implements Embedder {
   private model: any;
   private ready: Promise<void> | null = null;
+  private config: EmbeddingConfig;
   private dimension: number;
   private type: EmbeddingType;
   private modelName: string;
 
-  constructor(languageMode: LanguageMode = 'multilang') {
-    const config = MODEL_CONFIGS[languageMode];
+  constructor(config: EmbeddingConfig) {
+    this.config = config;
     this.dimension = config.dimension;
     this.type = config.type;
     this.modelName = config.model;
@@ -65,7 +55,6 @@ export class LocalEmbedder implements Embedder {
 
         console.error(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
         console.error(`⬇️  Downloading local embedding model: ${this.modelName}`);
-        console.error(`   Size: ~${this.type === 'local_english' ? '120' : '130'}MB`);
         console.error(`   This is a one-time download. Subsequent uses will be instant.`);
         console.error(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
         
@@ -75,7 +64,7 @@ export class LocalEmbedder implements Embedder {
         this.model = await pipeline(
           'feature-extraction',
           this.modelName,
-          { quantized: true } // Use quantized for smaller size/faster
+          { quantized: this.config.quantized ?? true } // Quantized is smaller/faster
         );
         
         console.error(`✓ Model loaded successfully (${this.dimension}D embeddings)`);
@@ -100,12 +89,13 @@ export class LocalEmbedder implements Embedder {
     await this.init();
     
     const output = await this.model(text, {
-      pooling: 'mean',
+      pooling: this.config.pooling ?? 'mean',
       normalize: true,
     });
     
     // Convert to regular array and normalize
     const embedding = Array.from(output.data) as number[];
+    assertDimension(embedding.length, this.config);
     return normalize(embedding);
   }
 
@@ -115,9 +105,10 @@ export class LocalEmbedder implements Embedder {
     await this.init();
     
     const output = await this.model(texts, {
-      pooling: 'mean',
+      pooling: this.config.pooling ?? 'mean',
       normalize: true,
     });
+    assertDimension(output.dims[output.dims.length - 1], this.config);
     
     // Convert to regular arrays and normalize
     const embeddings: number[][] = [];
@@ -140,9 +131,5 @@ export class LocalEmbedder implements Embedder {
   getType(): EmbeddingType {
     return this.type;
   }
-
-  requiresManualFacts(): boolean {
-    return true;
-  }
 }
 
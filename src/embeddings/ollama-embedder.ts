@@ -0,0 +1,70 @@
+/**
+ * Ollama Embedder
+ *
+ * Uses a local (or remote) Ollama server's /api/embed endpoint
+ */
+
+import { normalize } from "../vector.js";
+import { assertDimension } from "./registry.js";
+import type { Embedder, EmbeddingConfig, EmbeddingType } from "./types.js";
+
+const DEFAULT_BASE_URL = "http://localhost:11434";
+
+export class OllamaEmbedder implements Embedder {
+  private config: EmbeddingConfig;
+  private baseUrl: string;
+
+  constructor(config: EmbeddingConfig) {
+    this.config = config;
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  }
+
+  async embedText(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/embed`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: this.config.model, input: texts }),
+      });
+    } catch (error: any) {
+      throw new Error(
+        `Cannot reach Ollama at ${this.baseUrl}: ${error.cause?.message ?? error.message}. ` +
+        `Start it with 'ollama serve', or use 'switch_embedding_mode' to pick another model.`
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(
+        `Ollama embedding failed for model '${this.config.model}' (HTTP ${response.status}): ${body.slice(0, 200)}` +
+        (response.status === 404 ? `. Pull the model first: ollama pull ${this.config.model}` : "")
+      );
+    }
+
+    const data = await response.json() as { embeddings?: number[][] };
+    if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+      throw new Error(`Unexpected response from Ollama /api/embed for model '${this.config.model}'`);
+    }
+
+    return data.embeddings.map((embedding) => {
+      assertDimension(embedding.length, this.config);
+      return normalize(embedding);
+    });
+  }
+
+  getDimension(): number {
+    return this.config.dimension;
+  }
+
+  getType(): EmbeddingType {
+    return this.config.type;
+  }
+}
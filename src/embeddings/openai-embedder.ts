@@ -2,21 +2,26 @@
  * OpenAI Embedder
  * 
  * Uses OpenAI API for embeddings (text-embedding-3-small by default)
+ * Also serves 'openai-compatible' models (vLLM, LM Studio, LocalAI...) via their baseUrl
  */
 
 import OpenAI from "openai";
 import { normalize } from "../vector.js";
-import type { Embedder, EmbeddingType } from "./types.js";
+import { assertDimension } from "./registry.js";
+import type { Embedder, EmbeddingConfig, EmbeddingType } from "./types.js";
 
 export class OpenAIEmbedder implements Embedder {
   private client: OpenAI;
+  private config: EmbeddingConfig;
   private model: string;
   private dimension: number;
 
-  constructor(apiKey: string, model: string = "text-embedding-3-small", dimension: number = 1536) {
-    this.client = new OpenAI({ apiKey });
-    this.model = model;
-    this.dimension = dimension;
+  constructor(config: EmbeddingConfig, apiKey: string) {
+    // Local servers often need no key, but the client insists on one
+    this.client = new OpenAI({ apiKey: apiKey || "none", baseURL: config.baseUrl });
+    this.config = config;
+    this.model = config.model;
+    this.dimension = config.dimension;
   }
 
   async embedText(text: string): Promise<number[]> {
@@ -25,6 +30,7 @@ export class OpenAIEmbedder implements Embedder {
         model: this.model,
         input: text,
       });
+      assertDimension(response.data[0].embedding.length, this.config);
       return normalize(response.data[0].embedding);
     } catch (error: any) {
       this.handleOpenAIError(error);
@@ -41,7 +47,10 @@ export class OpenAIEmbedder implements Embedder {
         input: texts,
       });
       
-      return response.data.map((item) => normalize(item.embedding));
+      return response.data.map((item) => {
+        assertDimension(item.embedding.length, this.config);
+        return normalize(item.embedding);
+      });
     } catch (error: any) {
       this.handleOpenAIError(error);
       throw error; // Re-throw after logging
@@ -49,6 +58,16 @@ export class OpenAIEmbedder implements Embedder {
   }
 
   private handleOpenAIError(error: any): void {
+    if (this.config.provider !== 'openai') {
+      if (error?.status !== undefined || error?.cause) {
+        throw new Error(
+          `Embedding request to ${this.config.baseUrl} failed for model '${this.model}': ${error.message}. ` +
+          `Check that the server is running, or use 'switch_embedding_mode' to pick another model.`
+        );
+      }
+      return;
+    }
+
     if (error?.status === 401) {
       throw new Error(
         "OpenAI API authentication failed. Your API key is invalid. " +
@@ -82,11 +101,7 @@ export class OpenAIEmbedder implements Embedder {
   }
 
   getType(): EmbeddingType {
-    return 'openai';
-  }
-
-  requiresManualFacts(): boolean {
-    return false;
+    return this.config.type;
   }
 }
 
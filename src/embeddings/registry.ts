@@ -0,0 +1,154 @@
+/**
+ * Embedding Model Registry
+ *
+ * The built-in modes (openai, local_english, local_multilingual) plus every
+ * model declared in config.embeddingModels. Each registered model stores its
+ * vectors in its own fact_vectors_* table (and tool call note vectors in its own
+ * tool_note_vectors_* table); tables for configured models are created on startup.
+ */
+
+import { db } from "../database.js";
+import config from "../config.js";
+import { EMBEDDING_PROVIDERS } from "./types.js";
+import type { EmbeddingConfig, EmbeddingModelConfig, EmbeddingType } from "./types.js";
+
+const MODEL_ID_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+const BUILT_IN_MODELS: EmbeddingConfig[] = [
+  {
+    id: 'openai',
+    type: 'openai',
+    provider: 'openai',
+    model: config.openai.embeddingModel,
+    dimension: config.openai.embeddingDimension,
+    tableName: 'fact_vectors_openai',
+    noteTableName: 'tool_note_vectors_openai',
+    description: 'OpenAI API (requires OPENAI_API_KEY)',
+    builtIn: true,
+  },
+  {
+    id: 'local_english',
+    type: 'local_english',
+    provider: 'transformers',
+    model: 'Xenova/bge-small-en-v1.5',
+    dimension: 384,
+    tableName: 'fact_vectors_local_en',
+    noteTableName: 'tool_note_vectors_local_en',
+    description: 'Offline, English only (~120MB download)',
+    builtIn: true,
+  },
+  {
+    id: 'local_multilingual',
+    type: 'local_multilingual',
+    provider: 'transformers',
+    model: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+    dimension: 384,
+    tableName: 'fact_vectors_local_ml',
+    noteTableName: 'tool_note_vectors_local_ml',
+    description: 'Offline, 50+ languages (~130MB download, default for local)',
+    builtIn: true,
+  },
+];
+
+/**
+ * Validate a configured model and give it its vector table
+ */
+function registerModel(model: EmbeddingModelConfig, registered: EmbeddingConfig[]): EmbeddingConfig {
+  const label = `embeddingModels entry '${model.id}'`;
+
+  if (typeof model.id !== "string" || !MODEL_ID_PATTERN.test(model.id)) {
+    throw new Error(`Invalid ${label}: id must be lowercase letters, digits and underscores (max 40 chars)`);
+  }
+  if (registered.some((m) => m.id === model.id)) {
+    throw new Error(`Invalid ${label}: id is already registered`);
+  }
+  if (!EMBEDDING_PROVIDERS.includes(model.provider)) {
+    throw new Error(`Invalid ${label}: provider must be one of ${EMBEDDING_PROVIDERS.join(", ")}`);
+  }
+  if (!model.model) {
+    throw new Error(`Invalid ${label}: model is required`);
+  }
+  if (!Number.isInteger(model.dimension) || model.dimension <= 0) {
+    throw new Error(`Invalid ${label}: dimension must be a positive integer`);
+  }
+  if (model.provider === 'openai-compatible' && !model.baseUrl) {
+    throw new Error(`Invalid ${label}: openai-compatible providers need a baseUrl`);
+  }
+
+  const tableName = `fact_vectors_${model.id}`;
+  if (registered.some((m) => m.tableName === tableName)) {
+    throw new Error(`Invalid ${label}: id clashes with the vector table of another model`);
+  }
+
+  return { ...model, type: model.id, tableName, noteTableName: `tool_note_vectors_${model.id}`, builtIn: false };
+}
+
+/**
+ * Same layout as the built-in fact_vectors_* (migration 001) and
+ * tool_note_vectors_* (migration 013) tables
+ */
+function createVectorTables(model: EmbeddingConfig): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${model.tableName} (
+      fact_id TEXT PRIMARY KEY,
+      dim INTEGER NOT NULL DEFAULT ${model.dimension},
+      unit_norm INTEGER NOT NULL DEFAULT 1,
+      embedding BLOB NOT NULL,
+      FOREIGN KEY (fact_id) REFERENCES facts(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS ${model.noteTableName} (
+      note_id TEXT PRIMARY KEY,
+      dim INTEGER NOT NULL DEFAULT ${model.dimension},
+      unit_norm INTEGER NOT NULL DEFAULT 1,
+      embedding BLOB NOT NULL,
+      FOREIGN KEY (note_id) REFERENCES tool_call_notes(id) ON DELETE CASCADE
+    )
+  `);
+}
+
+function buildRegistry(): Record<EmbeddingType, EmbeddingConfig> {
+  const registered = [...BUILT_IN_MODELS];
+
+  for (const model of config.embeddingModels ?? []) {
+    const entry = registerModel(model, registered);
+    createVectorTables(entry);
+    registered.push(entry);
+  }
+
+  // No prototype, so `type in EMBEDDING_CONFIGS` only matches registered IDs
+  return Object.assign(Object.create(null), Object.fromEntries(registered.map((m) => [m.id, m])));
+}
+
+/** Every registered embedding model by ID */
+export const EMBEDDING_CONFIGS: Record<EmbeddingType, EmbeddingConfig> = buildRegistry();
+
+/**
+ * Look up a registered model, throwing a helpful error for unknown IDs
+ */
+export function getEmbeddingConfig(type: EmbeddingType): EmbeddingConfig {
+  const model = EMBEDDING_CONFIGS[type];
+  if (!model) {
+    throw new Error(`Unknown embedding mode: ${type}. Registered: ${Object.keys(EMBEDDING_CONFIGS).join(", ")}`);
+  }
+  return model;
+}
+
+/**
+ * Facts per embedBatch call when backfilling (smaller for in-process models to show progress)
+ */
+export function embeddingBatchSize(type: EmbeddingType): number {
+  return getEmbeddingConfig(type).provider === 'transformers' ? 50 : 100;
+}
+
+/**
+ * Throw when a provider returns vectors of another size than the model is registered with
+ */
+export function assertDimension(actual: number, model: EmbeddingConfig): void {
+  if (actual !== model.dimension) {
+    throw new Error(
+      `Embedding model '${model.model}' (${model.id}) returned ${actual}-dimensional vectors, ` +
+      `but it is registered with dimension ${model.dimension}. Fix 'dimension' in embeddingModels.`
+    );
+  }
+}
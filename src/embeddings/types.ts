@@ -14,36 +14,38 @@ export interface Embedder {
   
   /** Get embedding type identifier */
   getType(): EmbeddingType;
-  
-  /** Check if this embedder requires manual facts */
-  requiresManualFacts(): boolean;
 }
 
-export type EmbeddingType = 'openai' | 'local_english' | 'local_multilingual';
+/**
+ * Registered embedding model ID (the "mode"): 'openai', 'local_english',
+ * 'local_multilingual' or an ID from config.embeddingModels
+ */
+export type EmbeddingType = string;
 
 export type LanguageMode = 'en' | 'multilang';
 
-export interface EmbeddingConfig {
-  type: EmbeddingType;
+export type EmbeddingProvider = 'openai' | 'openai-compatible' | 'ollama' | 'transformers';
+
+export const EMBEDDING_PROVIDERS: EmbeddingProvider[] = ['openai', 'openai-compatible', 'ollama', 'transformers'];
+
+/**
+ * An embedding model as declared in config.embeddingModels
+ */
+export interface EmbeddingModelConfig {
+  id: string; // Mode name, lowercase letters, digits and underscores
+  provider: EmbeddingProvider;
+  model: string; // Model name for the provider (e.g. 'nomic-embed-text', 'Xenova/gte-small')
   dimension: number;
-  tableName: string;
+  baseUrl?: string; // openai-compatible (required) and ollama (default http://localhost:11434)
+  apiKeyEnv?: string; // Environment variable holding the API key (openai-compatible)
+  pooling?: 'mean' | 'cls'; // transformers only (default 'mean')
+  quantized?: boolean; // transformers only (default true)
+  description?: string; // Shown in switch_embedding_mode
 }
 
-export const EMBEDDING_CONFIGS: Record<EmbeddingType, EmbeddingConfig> = {
-  openai: {
-    type: 'openai',
-    dimension: 1536,
-    tableName: 'fact_vectors_openai',
-  },
-  local_english: {
-    type: 'local_english',
-    dimension: 384, // bge-small-en-v1.5
-    tableName: 'fact_vectors_local_en',
-  },
-  local_multilingual: {
-    type: 'local_multilingual',
-    dimension: 384, // paraphrase-multilingual-MiniLM-L12-v2
-    tableName: 'fact_vectors_local_ml',
-  },
-};
-
+export interface EmbeddingConfig extends EmbeddingModelConfig {
+  type: EmbeddingType; // Same as id
+  tableName: string;
+  noteTableName: string; // Vectors of tool call notes
+  builtIn: boolean;
+}
@@ -0,0 +1,226 @@
+/**
+ * Entity Extraction
+ *
+ * Embedding search is poor at exact names, so new facts are scanned for the
+ * people, services, repos, ... they mention, and each mention is recorded in
+ * the entity index (list_entities, get_entity, search_memory's entities
+ * filter). Extraction is advisory: it never fails the write.
+ *
+ * 'rule-based': @handles, owner/repo names, service-like identifiers
+ * (billing-api, auth_service), and capitalized names or acronyms that do not
+ * merely start a sentence. 'llm': asks the fact extraction model, falling back
+ * to the rules when there is none or the call fails.
+ */
+
+import OpenAI from "openai";
+import config from "./config.js";
+import { db } from "./database.js";
+import { getLlmSettings } from "./extraction/factory.js";
+import { recordFactEntities, clearEntities, getMemoriesForExport, getFactsByMemoryId } from "./operations.js";
+import type { EntityType, ExtractedEntity, Fact } from "./types.js";
+
+export const ENTITY_TYPES: EntityType[] = ["person", "organization", "project", "service", "repo", "tool", "place", "other"];
+
+const HANDLE = /(?<![\w.])@([A-Za-z][\w-]{1,38})\b/g;
+const HOSTED_REPO = /\b(?:github\.com|gitlab\.com|bitbucket\.org)\/([\w.-]+\/[\w.-]+?)(?:\.git)?(?=[\s/)"'.,;:]|$)/g;
+const REPO = /(?<![\w./@])([A-Za-z0-9][\w.-]*\/[A-Za-z0-9][\w.-]*)(?![\w/])/g;
+const SERVICE = /(?<![\w./-])([a-z][a-z0-9]*(?:[-_][a-z0-9]+)+)(?![\w/-])/gi;
+
+/** Last segments that make an identifier a service name (billing-api, queue_worker) */
+const SERVICE_SUFFIXES = new Set([
+  "api", "service", "svc", "server", "worker", "db", "gateway", "proxy", "queue", "app",
+  "backend", "frontend", "bot", "cli", "sdk", "lib", "web", "ui", "job", "cron", "daemon",
+]);
+
+/** Capitalized words that are not names on their own (dropped at either end of a name) */
+const NOT_NAMES = new Set([
+  "a", "an", "the", "this", "that", "these", "those", "our", "my", "your", "his", "her", "their", "its",
+  "i", "we", "he", "she", "they", "it", "you", "user", "users", "and", "or", "but", "if", "when", "then",
+  "also", "always", "never", "use", "uses", "on", "in", "at", "to", "for", "of", "with", "from", "by", "ok",
+  "pr", "prs", "api", "apis", "url", "urls", "id", "ids", "ui", "ux", "ci", "cd", "faq", "todo", "tbd", "eta", "asap", "fyi",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+  "january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december",
+]);
+
+function isCapitalized(word: string): boolean {
+  return /^\p{Lu}/u.test(word);
+}
+
+/** Acronyms (AWS) and mixed case (GitHub, PostgreSQL, iOS) are names wherever they stand */
+function isDistinctive(word: string): boolean {
+  return /^\p{Lu}{2,}$/u.test(word) || (/^\p{L}+\p{Lu}/u.test(word) && /\p{Ll}/u.test(word));
+}
+
+/**
+ * Runs of capitalized words ("Alice Smith", "Project Phoenix", "AWS"), except a
+ * single ordinary word starting a sentence
+ */
+function capitalizedNames(text: string): string[] {
+  const names: string[] = [];
+  let run: string[] = [];
+  let runAtSentenceStart = false;
+  let atSentenceStart = true;
+
+  const flush = () => {
+    while (run.length > 0 && NOT_NAMES.has(run[0].toLowerCase())) run.shift();
+    while (run.length > 0 && NOT_NAMES.has(run[run.length - 1].toLowerCase())) run.pop();
+    const ambiguous = run.length === 1 && runAtSentenceStart && !isDistinctive(run[0]);
+    if (run.length > 0 && !ambiguous) names.push(run.join(" "));
+    run = [];
+  };
+
+  for (const token of text.split(/\s+/).filter(Boolean)) {
+    const word = token.replace(/^[("'“‘\[]+/, "").replace(/[)"'”’\],.;:!?]+$/, "");
+    const capitalized = /^\p{L}[\p{L}\p{N}&'’.-]*$/u.test(word) && (isCapitalized(word) || isDistinctive(word));
+
+    if (capitalized) {
+      if (run.length === 0) runAtSentenceStart = atSentenceStart;
+      run.push(word);
+    } else {
+      flush();
+    }
+
+    // Punctuation after a word ends the name; sentence punctuation starts a new sentence
+    if (word !== token.replace(/^[("'“‘\[]+/, "")) flush();
+    atSentenceStart = /[.!?:]["')\]]*$/.test(token) || /^[-*•]$/.test(token);
+  }
+  flush();
+
+  return names;
+}
+
+/**
+ * Entities in a fact found without an LLM
+ */
+export function ruleBasedEntities(text: string): ExtractedEntity[] {
+  const found = new Map<string, ExtractedEntity>();
+  const add = (name: string, type: EntityType, aliases: string[] = []) => {
+    const key = name.toLowerCase();
+    if (!found.has(key)) found.set(key, { name, type, aliases });
+  };
+
+  for (const [, repo] of text.matchAll(HOSTED_REPO)) add(repo, "repo");
+  for (const [, repo] of text.matchAll(REPO)) {
+    // Bare owner/repo needs an identifier-like part, so "read/write" is not a repo
+    if (/[-_\d]/.test(repo) && !/\.\w{1,4}$/.test(repo)) add(repo, "repo");
+  }
+  for (const [, handle] of text.matchAll(HANDLE)) add(handle, "person", [`@${handle}`]);
+  for (const [, identifier] of text.matchAll(SERVICE)) {
+    const last = identifier.split(/[-_]/).pop()!;
+    if (SERVICE_SUFFIXES.has(last.toLowerCase())) add(identifier, "service");
+  }
+  for (const name of capitalizedNames(text)) {
+    if (![...found.values()].some((entity) => entity.name.includes(name))) add(name, "other");
+  }
+
+  return [...found.values()];
+}
+
+const LLM_PROMPT = `You find named entities in facts stored in a personal memory: people, organizations, projects,
+services, repositories, tools and places that are referred to by name.
+For each numbered fact, list the entities it mentions. Use the name as written in the fact, and add other names
+the fact itself gives for the same entity (full name, abbreviation, handle) as aliases.
+Skip generic nouns ("the database", "the team"), dates and numbers.
+Types: ${ENTITY_TYPES.join(", ")}.
+
+Respond with JSON only: {"facts": [{"fact": <number>, "entities": [{"name": "...", "type": "...", "aliases": ["..."]}]}]}
+Leave out facts without entities.`;
+
+async function llmEntities(factTexts: string[]): Promise<ExtractedEntity[][] | null> {
+  const listing = factTexts.map((text, i) => `${i + 1}. ${text}`).join("\n");
+
+  try {
+    const llm = getLlmSettings();
+    if (!llm) {
+      console.error("⚠️  entities.extraction is 'llm' but fact extraction uses no LLM; using the rule-based extraction");
+      return null;
+    }
+
+    const client = new OpenAI({ apiKey: llm.apiKey || "none", baseURL: llm.baseUrl });
+    const response = await client.chat.completions.create({
+      model: llm.model,
+      messages: [
+        { role: "system", content: LLM_PROMPT },
+        { role: "user", content: listing },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0,
+    });
+
+    const content = response.choices[0]?.message?.content ?? "";
+    const parsed = JSON.parse(content.slice(content.indexOf("{"), content.lastIndexOf("}") + 1));
+    const entities: ExtractedEntity[][] = factTexts.map(() => []);
+
+    for (const item of Array.isArray(parsed.facts) ? parsed.facts : []) {
+      if (!Number.isInteger(item?.fact) || !entities[item.fact - 1] || !Array.isArray(item.entities)) continue;
+
+      for (const entity of item.entities) {
+        if (typeof entity?.name !== "string" || !entity.name.trim()) continue;
+        entities[item.fact - 1].push({
+          name: entity.name.trim(),
+          type: ENTITY_TYPES.includes(entity.type) ? entity.type : "other",
+          aliases: Array.isArray(entity.aliases) ? entity.aliases.filter((alias: unknown) => typeof alias === "string") : [],
+        });
+      }
+    }
+    return entities;
+  } catch (error: any) {
+    console.error(`⚠️  LLM entity extraction failed (${error.message}); using the rule-based extraction`);
+    return null;
+  }
+}
+
+/**
+ * Entities mentioned in each fact (empty lists when entities.extraction is 'off')
+ */
+export async function extractEntities(factTexts: string[]): Promise<ExtractedEntity[][]> {
+  const { extraction } = config.entities;
+  if (extraction === "off" || factTexts.length === 0) {
+    return factTexts.map(() => []);
+  }
+
+  if (extraction === "llm") {
+    const extracted = await llmEntities(factTexts);
+    if (extracted) return extracted;
+  }
+
+  return factTexts.map(ruleBasedEntities);
+}
+
+/**
+ * Record the entities new facts mention in the entity index
+ * Failures are logged, never thrown: the facts are already stored.
+ */
+export async function indexFactEntities(contextId: string, facts: Fact[]): Promise<void> {
+  try {
+    const entities = await extractEntities(facts.map((fact) => fact.text));
+    db.transaction(() => {
+      facts.forEach((fact, i) => recordFactEntities(contextId, fact.id, entities[i]));
+    })();
+  } catch (error: any) {
+    console.error(`⚠️  Entity indexing failed (${error.message}); the facts were stored without entities`);
+  }
+}
+
+/**
+ * Rebuild the entity index of a context from all its facts (including trash
+ * and archived memories, so restoring them keeps their entities)
+ * With 'llm' extraction this makes one LLM call per memory.
+ */
+export async function rebuildEntityIndex(contextId: string): Promise<{ memories: number; facts: number }> {
+  if (config.entities.extraction === "off") {
+    throw new Error("Entity extraction is off. Set entities.extraction (ENTITY_EXTRACTION) to 'rule-based' or 'llm' first.");
+  }
+
+  clearEntities(contextId);
+
+  let factCount = 0;
+  const memories = getMemoriesForExport([contextId]);
+  for (const memory of memories) {
+    const facts = getFactsByMemoryId(memory.id);
+    await indexFactEntities(contextId, facts);
+    factCount += facts.length;
+  }
+
+  return { memories: memories.length, facts: factCount };
+}
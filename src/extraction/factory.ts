@@ -0,0 +1,87 @@
+/**
+ * Fact Extractor Factory
+ *
+ * Picks the extractor from config.factExtraction, independently of the
+ * embedding mode (e.g. Ollama embeddings with rule-based extraction)
+ */
+
+import type { FactExtractor, FactExtractionProvider, LlmSettings } from "./types.js";
+import { FACT_EXTRACTION_SETTINGS } from "./types.js";
+import { OpenAIExtractor } from "./openai-extractor.js";
+import { RuleBasedExtractor } from "./rule-based-extractor.js";
+import config from "../config.js";
+
+let extractorInstance: FactExtractor | null | undefined;
+
+/**
+ * Resolve the configured provider
+ *
+ * 'auto': OpenAI when OPENAI_API_KEY is set, otherwise rule-based
+ * 'none': null, callers must pass manual facts
+ */
+function resolveProvider(): FactExtractionProvider | null {
+  const { provider } = config.factExtraction;
+
+  if (!FACT_EXTRACTION_SETTINGS.includes(provider)) {
+    throw new Error(`Invalid factExtraction.provider '${provider}': must be one of ${FACT_EXTRACTION_SETTINGS.join(", ")}`);
+  }
+
+  if (provider === 'none') return null;
+  if (provider === 'auto') return config.openai.apiKey ? 'openai' : 'rule-based';
+  return provider;
+}
+
+/**
+ * The chat model fact extraction uses, or null when it uses none (rule-based, none)
+ */
+export function getLlmSettings(): LlmSettings | null {
+  const { model, baseUrl, apiKeyEnv } = config.factExtraction;
+
+  switch (resolveProvider()) {
+    case 'openai':
+      if (!config.openai.apiKey) {
+        throw new Error("factExtraction.provider is 'openai' but OPENAI_API_KEY is not set");
+      }
+      return { provider: 'openai', model: config.openai.model, apiKey: config.openai.apiKey };
+    case 'openai-compatible':
+      if (!baseUrl || !model) {
+        throw new Error("factExtraction.provider 'openai-compatible' needs factExtraction.baseUrl and factExtraction.model");
+      }
+      return {
+        provider: 'openai-compatible',
+        model,
+        apiKey: apiKeyEnv ? process.env[apiKeyEnv] ?? "" : "",
+        baseUrl,
+      };
+    default:
+      return null;
+  }
+}
+
+function createExtractor(): FactExtractor | null {
+  const provider = resolveProvider();
+  if (provider === null) {
+    return null;
+  }
+  if (provider === 'rule-based') {
+    return new RuleBasedExtractor();
+  }
+  return new OpenAIExtractor(getLlmSettings()!);
+}
+
+/**
+ * Get the fact extractor (singleton), or null when extraction is disabled
+ */
+export function getFactExtractor(): FactExtractor | null {
+  if (extractorInstance === undefined) {
+    extractorInstance = createExtractor();
+  }
+  return extractorInstance;
+}
+
+/**
+ * Whether callers must pass manual facts (factExtraction.provider is 'none')
+ */
+export function requiresManualFacts(): boolean {
+  return getFactExtractor() === null;
+}
@@ -0,0 +1,119 @@
+/**
+ * OpenAI Fact Extractor
+ *
+ * Splits memories with an LLM: the OpenAI Responses API with structured
+ * output, or for 'openai-compatible' servers (llama.cpp, Ollama's /v1,
+ * vLLM, LM Studio) Chat Completions in JSON mode.
+ */
+
+import OpenAI from "openai";
+import { zodTextFormat } from "openai/helpers/zod";
+import { z } from "zod";
+import type { FactExtractor, FactExtractionProvider, LlmSettings } from "./types.js";
+
+const MAX_FACTS = 4;
+
+const FactExtraction = z.object({
+  facts: z.array(z.string()).min(1).max(MAX_FACTS),
+});
+
+/** Small chat models overshoot the limit; extra facts are dropped rather than rejected */
+const ChatFactExtraction = z.object({
+  facts: z.array(z.string()).min(1),
+});
+
+const SYSTEM_PROMPT = `You extract discrete facts from memory entries.
+
+CRITICAL RULES:
+1. Extract ONLY what is explicitly stated - no inference, no expansion, no interpretation
+2. Each fact is one complete semantic unit from the original text
+3. Preserve the exact meaning and wording from the source
+4. If the memory is a single statement (e.g., "User likes ice-cream"), return it as ONE fact unchanged
+5. If the memory contains multiple statements, extract 2-4 separate facts
+6. DO NOT add context, implications, or related information not present in the original
+
+Examples:
+- Input: "User likes ice-cream" → Output: ["User likes ice-cream"]
+- Input: "User likes ice-cream. Prefers chocolate flavor." → Output: ["User likes ice-cream", "User prefers chocolate flavor ice-cream"]`;
+
+/** Chat models without structured output are told the shape explicitly */
+const JSON_INSTRUCTION = `\n\nRespond with JSON only, in the form {"facts": ["...", "..."]}.`;
+
+export class OpenAIExtractor implements FactExtractor {
+  private client: OpenAI;
+  private provider: FactExtractionProvider;
+  private model: string;
+  private baseUrl?: string;
+
+  constructor(settings: LlmSettings) {
+    // Local servers often need no key, but the client insists on one
+    this.client = new OpenAI({ apiKey: settings.apiKey || "none", baseURL: settings.baseUrl });
+    this.provider = settings.provider;
+    this.model = settings.model;
+    this.baseUrl = settings.baseUrl;
+  }
+
+  async extractFacts(text: string): Promise<string[]> {
+    return this.provider === 'openai'
+      ? this.extractWithResponses(text)
+      : this.extractWithChat(text);
+  }
+
+  private async extractWithResponses(text: string): Promise<string[]> {
+    const response = await this.client.responses.parse({
+      model: this.model,
+      input: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: text },
+      ],
+      text: {
+        format: zodTextFormat(FactExtraction, "fact_extraction"),
+      },
+    });
+
+    return response.output_parsed?.facts || [];
+  }
+
+  private async extractWithChat(text: string): Promise<string[]> {
+    let content: string;
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT + JSON_INSTRUCTION },
+          { role: "user", content: text },
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0,
+      });
+      content = response.choices[0]?.message?.content ?? "";
+    } catch (error: any) {
+      throw new Error(
+        `Fact extraction via ${this.baseUrl} failed for model '${this.model}': ${error.message.replace(/\.$/, "")}. ` +
+        `Check that the server is running, pass 'facts' manually, or set factExtraction.provider to 'rule-based'.`
+      );
+    }
+
+    // Small models sometimes wrap the JSON in prose or code fences
+    const json = content.slice(content.indexOf("{"), content.lastIndexOf("}") + 1);
+    let parsed: z.infer<typeof ChatFactExtraction> | null = null;
+    try {
+      const result = ChatFactExtraction.safeParse(JSON.parse(json));
+      parsed = result.success ? result.data : null;
+    } catch {
+      parsed = null;
+    }
+
+    if (!parsed) {
+      throw new Error(
+        `Model '${this.model}' did not return facts as {"facts": [...]}. ` +
+        `Pass 'facts' manually, or use a model that supports JSON output.`
+      );
+    }
+    return parsed.facts.map((fact) => fact.trim()).filter(Boolean).slice(0, MAX_FACTS);
+  }
+
+  getName(): FactExtractionProvider {
+    return this.provider;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Rule-Based Fact Extractor
+ *
+ * Deterministic, offline splitter: list items and lines first, then sentences.
+ * Facts keep the original wording (only list markers and a final period are
+ * dropped), so the same text always gives the same facts.
+ */
+
+import type { FactExtractor, FactExtractionProvider } from "./types.js";
+
+const MAX_FACTS = 20; // Anything beyond is kept in the last fact
+
+/** Words that end with a period without ending the sentence */
+const ABBREVIATIONS = new Set([
+  "e.g", "i.e", "etc", "vs", "approx", "incl", "no", "nr", "fig", "cf",
+  "mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "inc", "ltd", "co", "corp",
+  "jan", "feb", "mar", "apr", "jun", "jul", "aug", "sep", "sept", "oct", "nov", "dec",
+]);
+
+const LIST_MARKER = /^\s*(?:[-*•+]|\d+[.)]|[a-z][.)])\s+/i;
+
+/**
+ * Whether the period at `index` ends a sentence (not an abbreviation,
+ * initial or decimal point)
+ */
+function endsSentence(text: string, index: number): boolean {
+  if (text[index] !== ".") {
+    return true; // ! and ?
+  }
+
+  const before = text.slice(0, index).match(/([\p{L}.]+)$/u)?.[1] ?? "";
+  if (ABBREVIATIONS.has(before.toLowerCase())) {
+    return false;
+  }
+  // Single-letter initials ("J. Smith") and dotted acronyms ("U.S.")
+  if (/^\p{L}$/u.test(before) || /^(\p{L}\.)+\p{L}$/u.test(before)) {
+    return false;
+  }
+  return true;
+}
+
+function splitSentences(line: string): string[] {
+  const sentences: string[] = [];
+  const boundary = /[.!?]+(?=\s+["'(\[]?[\p{Lu}\p{N}])/gu;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(line)) !== null) {
+    const end = match.index + match[0].length;
+    if (endsSentence(line, match.index + match[0].length - 1)) {
+      sentences.push(line.slice(start, end));
+      start = end;
+    }
+  }
+  sentences.push(line.slice(start));
+
+  return sentences;
+}
+
+function cleanFact(fact: string): string {
+  return fact.trim().replace(/(?<!\.)\.$/, "").trim();
+}
+
+/**
+ * Split text into facts without an LLM
+ */
+export function splitIntoSentenceFacts(text: string): string[] {
+  const facts: string[] = [];
+  const seen = new Set<string>();
+
+  for (const line of text.split(/\r?\n/)) {
+    const item = line.replace(LIST_MARKER, "");
+    for (const sentence of splitSentences(item)) {
+      const fact = cleanFact(sentence);
+      // Skip headings like "Notes:" and fragments without words
+      if (!/\p{L}.*\p{L}/u.test(fact) || fact.endsWith(":") || seen.has(fact)) continue;
+      seen.add(fact);
+      facts.push(fact);
+    }
+  }
+
+  if (facts.length === 0) {
+    return [text.trim()];
+  }
+  if (facts.length > MAX_FACTS) {
+    return [...facts.slice(0, MAX_FACTS - 1), facts.slice(MAX_FACTS - 1).join(". ")];
+  }
+  return facts;
+}
+
+export class RuleBasedExtractor implements FactExtractor {
+  async extractFacts(text: string): Promise<string[]> {
+    return splitIntoSentenceFacts(text);
+  }
+
+  getName(): FactExtractionProvider {
+    return 'rule-based';
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Fact Extraction Types
+ */
+
+export interface FactExtractor {
+  /** Split memory text into atomic facts */
+  extractFacts(text: string): Promise<string[]>;
+
+  /** Provider name, reported with extracted facts */
+  getName(): FactExtractionProvider;
+}
+
+/**
+ * 'auto' = OpenAI with an API key, otherwise rule-based
+ * 'none' = callers must always pass manual facts
+ */
+export type FactExtractionProvider = 'openai' | 'openai-compatible' | 'rule-based';
+
+export type FactExtractionSetting = 'auto' | FactExtractionProvider | 'none';
+
+/**
+ * Chat model used for LLM fact extraction (also used by the LLM contradiction check)
+ */
+export interface LlmSettings {
+  provider: 'openai' | 'openai-compatible';
+  model: string;
+  apiKey: string; // "" for local servers without keys
+  baseUrl?: string; // OpenAI-compatible endpoint
+}
+
+export const FACT_EXTRACTION_SETTINGS: FactExtractionSetting[] = ['auto', 'openai', 'openai-compatible', 'rule-based', 'none'];
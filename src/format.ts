@@ -1,10 +1,28 @@
 /**
  * Response Formatting Utilities
  * 
- * Convert Unix timestamps to ISO 8601 strings for LLM readability
+ * Convert Unix timestamps to ISO 8601 strings for LLM readability (and
+ * ISO 8601 arguments back to timestamps)
  */
 
-import type { Memory, Fact } from "./types.js";
+import type {
+  Memory,
+  Fact,
+  AuditLogEntry,
+  DuplicateCandidate,
+  DuplicateCluster,
+  PossibleContradiction,
+  ConsolidationProposal,
+  ScoreBreakdown,
+  MemoryLink,
+  MemoryRelation,
+  LinkedMemory,
+  Entity,
+  EntitySummary,
+} from "./types.js";
+import { MEMORY_RELATIONS } from "./operations.js";
+import type { ToolCallNote } from "./operations.js";
+import { toolCallNoteFlags } from "./ranking.js";
 
 /**
  * Convert Unix timestamp to ISO 8601 string
@@ -13,6 +31,34 @@ function formatTimestamp(timestamp: number): string {
   return new Date(timestamp).toISOString();
 }
 
+/**
+ * Parse an ISO 8601 date/time argument into a Unix timestamp (ms)
+ */
+export function parseDateArg(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+
+  const timestamp = Date.parse(String(value));
+  if (isNaN(timestamp)) {
+    throw new Error(`Invalid ${name}: '${value}'. Use an ISO 8601 date, e.g. '2025-03-01' or '2025-03-01T09:00:00Z'`);
+  }
+  return timestamp;
+}
+
+/**
+ * Parse a relation argument (one relation or a list) into relations
+ */
+export function parseRelationArg(value: unknown, name: string): MemoryRelation[] | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  const relations = Array.isArray(value) ? value : [value];
+  for (const relation of relations) {
+    if (!MEMORY_RELATIONS.includes(relation)) {
+      throw new Error(`Invalid ${name}: '${relation}'. Must be one of: ${MEMORY_RELATIONS.join(", ")}`);
+    }
+  }
+  return relations as MemoryRelation[];
+}
+
 /**
  * Format memory for response (convert timestamps to ISO strings)
  */
@@ -25,6 +71,20 @@ export function formatMemory(memory: Memory): any {
     created_at: formatTimestamp(memory.createdAt),
     updated_at: formatTimestamp(memory.updatedAt),
     version: memory.version,
+    ...(memory.deletedAt && { deleted_at: formatTimestamp(memory.deletedAt) }),
+    ...(memory.supersededBy && {
+      superseded_by: memory.supersededBy,
+      superseded_at: formatTimestamp(memory.supersededAt!),
+    }),
+    ...(memory.archivedAt && {
+      archived_at: formatTimestamp(memory.archivedAt),
+      consolidated_into: memory.consolidatedInto,
+    }),
+    ...(memory.pinnedAt && { pinned_at: formatTimestamp(memory.pinnedAt) }),
+    ...(memory.lastAccessedAt && {
+      access_count: memory.accessCount,
+      last_accessed_at: formatTimestamp(memory.lastAccessedAt),
+    }),
   };
 }
 
@@ -42,3 +102,166 @@ export function formatFact(fact: Fact): any {
   };
 }
 
+/**
+ * Format a possible duplicate of a new memory for response
+ */
+export function formatDuplicateCandidate(candidate: DuplicateCandidate): any {
+  return {
+    memory: formatMemory(candidate.memory),
+    similarity: candidate.similarity,
+    matching_facts: candidate.matches.map((match) => ({
+      fact: match.factText,
+      existing_fact: match.existingFact.text,
+      existing_fact_id: match.existingFact.id,
+      similarity: match.similarity,
+    })),
+  };
+}
+
+/**
+ * Format a likely contradiction with an existing fact for response
+ */
+export function formatPossibleContradiction(contradiction: PossibleContradiction): any {
+  return {
+    fact: contradiction.factText,
+    existing_fact: contradiction.existingFact.text,
+    existing_fact_id: contradiction.existingFact.id,
+    memory_id: contradiction.memory.id,
+    memory_text: contradiction.memory.text,
+    similarity: contradiction.similarity,
+    reason: contradiction.reason,
+  };
+}
+
+/**
+ * Format a cluster of duplicate memories for response
+ */
+export function formatDuplicateCluster(cluster: DuplicateCluster): any {
+  return {
+    size: cluster.memories.length,
+    memories: cluster.memories.map(formatMemory),
+    pairs: cluster.pairs.map((pair) => ({
+      memory_ids: pair.memoryIds,
+      similarity: pair.similarity,
+    })),
+  };
+}
+
+/**
+ * Format a proposed consolidation of related memories for response
+ */
+export function formatConsolidationProposal(proposal: ConsolidationProposal): any {
+  return {
+    memory_ids: proposal.memories.map((memory) => memory.id),
+    memories: proposal.memories.map(formatMemory),
+    pairs: proposal.pairs.map((pair) => ({
+      memory_ids: pair.memoryIds,
+      similarity: pair.similarity,
+    })),
+    proposed: {
+      text: proposal.text,
+      context_tags: proposal.tags,
+      facts: proposal.facts,
+    },
+    dropped_facts: proposal.droppedFacts,
+    summarized: proposal.summarized,
+  };
+}
+
+/**
+ * Format a link between memories for response
+ */
+export function formatLink(link: MemoryLink): any {
+  return {
+    source_id: link.sourceId,
+    target_id: link.targetId,
+    relation: link.relation,
+    created_at: formatTimestamp(link.createdAt),
+  };
+}
+
+/**
+ * Format a memory reached through links for response
+ */
+export function formatLinkedMemory(linked: LinkedMemory): any {
+  return {
+    memory: formatMemory(linked.memory),
+    relation: linked.relation,
+    direction: linked.direction,
+    via: linked.via,
+    depth: linked.depth,
+  };
+}
+
+/**
+ * Format an entity for response (with mention counts when listed)
+ */
+export function formatEntity(entity: Entity | EntitySummary): any {
+  return {
+    id: entity.id,
+    name: entity.name,
+    type: entity.type,
+    aliases: entity.aliases.filter((alias) => alias !== entity.name),
+    ...("memoryCount" in entity && {
+      memory_count: entity.memoryCount,
+      fact_count: entity.factCount,
+      last_mentioned_at: formatTimestamp(entity.lastMentionedAt),
+    }),
+  };
+}
+
+/**
+ * Format a tool call note for response, with its verification counters and
+ * warnings (refuted, stale)
+ */
+export function formatToolCallNote(note: ToolCallNote): any {
+  const flags = toolCallNoteFlags(note);
+  return {
+    id: note.id,
+    tool_name: note.toolName,
+    scope: note.scope,
+    note_type: note.noteType,
+    content: note.content,
+    ...(note.parameters && { parameters: note.parameters }),
+    ...(note.errorMessage && { error_message: note.errorMessage }),
+    ...(note.successPattern && { success_pattern: note.successPattern }),
+    confirmed_count: note.confirmedCount,
+    refuted_count: note.refutedCount,
+    ...(note.lastVerifiedAt && { last_verified_at: formatTimestamp(note.lastVerifiedAt) }),
+    ...(flags.length > 0 && { flags }),
+    created_at: formatTimestamp(note.createdAt),
+    ...(note.updatedAt !== note.createdAt && { updated_at: formatTimestamp(note.updatedAt) }),
+  };
+}
+
+/**
+ * Format how a search result's score was put together
+ */
+export function formatScoreBreakdown(breakdown: ScoreBreakdown): any {
+  return {
+    relevance: breakdown.relevance,
+    tag_boost: breakdown.tagBoost,
+    recency: breakdown.recency,
+    usage: breakdown.usage,
+    ...(breakdown.supersededFactor !== 1 && { superseded_factor: breakdown.supersededFactor }),
+  };
+}
+
+/**
+ * Format audit log entry for response (convert timestamps to ISO strings)
+ */
+export function formatAuditLogEntry(entry: AuditLogEntry): any {
+  return {
+    id: entry.id,
+    tool_name: entry.toolName,
+    context_id: entry.contextId,
+    client_id: entry.clientId,
+    session_id: entry.sessionId,
+    arguments: entry.arguments,
+    memory_ids: entry.memoryIds,
+    success: entry.success,
+    error: entry.error,
+    duration_ms: entry.durationMs,
+    created_at: formatTimestamp(entry.createdAt),
+  };
+}
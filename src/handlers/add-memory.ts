@@ -1,83 +1,153 @@
 /**
  * Handler: add_memory
- * 
+ *
  * Add a new memory with manual or automatic fact extraction
+ * Similar existing memories are reported, merged into, or ignored per on_duplicate;
+ * likely contradictions with existing facts are flagged
  */
 
 import config from "../config.js";
-import { db } from "../database.js";
-import { splitIntoFacts } from "../openai.js";
+import { resolveContextId } from "../context.js";
 import { embedder } from "../embeddings/factory.js";
-import { createMemory, createFact } from "../operations.js";
-import { formatMemory, formatFact } from "../format.js";
-import type { Memory, Fact } from "../types.js";
+import {
+  resolveFactTexts,
+  insertMemoryWithFacts,
+  findDuplicateCandidates,
+  mergeIntoMemory,
+} from "../pipeline.js";
+import { findPossibleContradictions } from "../contradictions.js";
+import { indexFactEntities } from "../entities.js";
+import { getMemory, isSupersededBy } from "../operations.js";
+import {
+  formatMemory,
+  formatFact,
+  formatDuplicateCandidate,
+  formatPossibleContradiction,
+} from "../format.js";
+import type { DuplicatePolicy, PossibleContradiction } from "../types.js";
+
+const DUPLICATE_POLICIES: DuplicatePolicy[] = ["reject", "merge", "force"];
+const MAX_CANDIDATES = 5;
 
 export async function handleAddMemory(args: any) {
   const text = args.text as string;
   const contextTags = (args.context_tags as string[]) || [];
   const manualFacts = args.facts as string[] | undefined;
+  const policy = (args.on_duplicate as DuplicatePolicy | undefined) ?? config.duplicates.defaultPolicy;
+  const mergeInto = args.merge_into as string | undefined;
+  const supersedes = (args.supersedes as string[]) || [];
+  const contextId = resolveContextId(args);
 
   if (!text) {
     throw new Error("Text is required");
   }
-
-  // Check if manual facts are required
-  if (embedder.requiresManualFacts() && (!manualFacts || manualFacts.length === 0)) {
-    throw new Error(
-      "Manual facts are required when using local embedding mode. " +
-      "Provide a 'facts' array, or set OPENAI_API_KEY environment variable " +
-      "to enable automatic fact extraction."
-    );
+  if (!DUPLICATE_POLICIES.includes(policy)) {
+    throw new Error(`Invalid on_duplicate: ${policy}. Must be one of: ${DUPLICATE_POLICIES.join(", ")}`);
   }
-
-  let factTexts: string[];
-  let aiExtracted = false;
-
-  if (manualFacts && manualFacts.length > 0) {
-    // Use manually provided facts
-    factTexts = manualFacts;
-    aiExtracted = false;
-  } else {
-    // Split memory into facts using LLM (only available with OpenAI)
-    factTexts = await splitIntoFacts(text);
-    aiExtracted = true;
+  if (mergeInto && policy !== "merge") {
+    throw new Error("merge_into requires on_duplicate: 'merge'");
+  }
+  for (const memoryId of supersedes) {
+    const memory = getMemory(memoryId);
+    if (!memory || memory.contextId !== contextId || memory.deletedAt) {
+      throw new Error(`Memory ${memoryId} in supersedes not found in context '${contextId}' (or it is in trash)`);
+    }
   }
 
-  // Embed all facts in batch
+  const { factTexts, aiExtracted, extractor } = await resolveFactTexts(text, manualFacts);
   const embeddings = await embedder.embedBatch(factTexts);
-  const embeddingType = embedder.getType();
 
-  // Create memory and facts in transaction
-  const insertMemoriesAndFacts = db.transaction(() => {
-    const memory = createMemory(config.contextId, text, contextTags);
-    const facts: Fact[] = [];
+  // Memories the caller already declared outdated need no warning
+  const contradictions = (await findPossibleContradictions(contextId, factTexts, embeddings, embedder.getType()))
+    .filter((contradiction) => !supersedes.includes(contradiction.memory.id));
+
+  const candidates = config.duplicates.enabled && policy !== "force"
+    ? findDuplicateCandidates(contextId, factTexts, embeddings, contradictions)
+    : [];
+
+  if (policy === "reject" && candidates.length > 0) {
+    const response = {
+      success: false,
+      duplicate: true,
+      message:
+        `Found ${candidates.length} similar ${candidates.length === 1 ? "memory" : "memories"}; nothing was added. ` +
+        `Call add_memory again with on_duplicate 'merge' to add the new facts to the closest memory ` +
+        `(or the one given in merge_into), or 'force' to add a separate memory.`,
+      candidates: candidates.slice(0, MAX_CANDIDATES).map(formatDuplicateCandidate),
+      ...contradictionFields(contradictions),
+    };
 
-    for (let i = 0; i < factTexts.length; i++) {
-      const fact = createFact(memory.id, factTexts[i], embeddings[i], embeddingType);
-      facts.push(fact);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
+  if (policy === "merge" && (mergeInto || candidates.length > 0)) {
+    const targetId = mergeInto ?? candidates[0].memory.id;
+    const loop = supersedes.find((memoryId) => isSupersededBy(targetId, memoryId));
+    if (loop) {
+      throw new Error(`Cannot merge into memory ${targetId} while superseding ${loop}: ${targetId} is already superseded (directly or indirectly) by ${loop}`);
+    }
+    const merged = mergeIntoMemory(targetId, contextId, text, contextTags, factTexts, embeddings, supersedes);
+    if (!merged) {
+      throw new Error(`Memory ${targetId} not found in context '${contextId}' (or it is in trash)`);
     }
+    await indexFactEntities(contextId, merged.addedFacts);
 
-    return { memory, facts };
-  });
+    const response = {
+      success: true,
+      merged_into: merged.memory.id,
+      memory: formatMemory(merged.memory),
+      message: merged.addedFacts.length > 0
+        ? `Merged into memory ${merged.memory.id}: added ${merged.addedFacts.length} facts, skipped ${merged.skippedFacts.length} duplicates`
+        : `Memory ${merged.memory.id} already holds all ${merged.skippedFacts.length} facts; nothing new to merge`,
+      added_facts: merged.addedFacts.map(formatFact),
+      skipped_facts: merged.skippedFacts,
+      ...supersededFields(merged.superseded),
+      ...contradictionFields(contradictions.filter((c) => c.memory.id !== merged.memory.id)),
+    };
 
-  const result = insertMemoriesAndFacts();
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
+  // Create memory and facts in transaction (facts are already embedded)
+  const result = await insertMemoryWithFacts(contextId, text, contextTags, factTexts, embeddings, supersedes);
 
-  // Build response based on whether AI extraction was used
+  // Build response based on whether facts were extracted
   const response: any = {
     success: true,
     memory: formatMemory(result.memory),
     message: `Added memory with ${result.facts.length} facts`,
   };
 
-  // Only include facts if AI extraction was used
+  // Only include facts if they were extracted automatically
   if (aiExtracted) {
     response.facts = result.facts.map(formatFact);
     response.ai_extracted = true;
+    response.fact_extractor = extractor;
   } else {
     response.facts_count = result.facts.length;
     response.ai_extracted = false;
   }
 
+  Object.assign(
+    response,
+    supersededFields(result.superseded),
+    contradictionFields(contradictions)
+  );
+
   return {
     content: [
       {
@@ -88,3 +158,24 @@ export async function handleAddMemory(args: any) {
   };
 }
 
+/**
+ * The memories the write marked as replaced by the new (or merged) memory
+ */
+function supersededFields(superseded: string[]) {
+  return superseded.length > 0 ? { superseded } : {};
+}
+
+function contradictionFields(contradictions: PossibleContradiction[]) {
+  if (contradictions.length === 0) {
+    return {};
+  }
+
+  const memoryIds = [...new Set(contradictions.map((c) => c.memory.id))];
+  return {
+    possible_contradictions: contradictions.map(formatPossibleContradiction),
+    contradiction_hint:
+      `The new facts may contradict ${memoryIds.length === 1 ? "memory" : "memories"} ${memoryIds.join(", ")}. ` +
+      `If the new memory replaces them, call supersede_memory (memory_id: old, superseded_by: new) ` +
+      `so search ranks the outdated ones lower.`,
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Handler: confirm_tool_call_note
+ * 
+ * Record that a tool call note held up when you followed it, raising its
+ * rank in get_tool_call_notes and marking it as recently verified.
+ */
+
+import { resolveContextId } from "../context.js";
+import { verifyToolCallNote } from "../operations.js";
+import { formatToolCallNote } from "../format.js";
+
+export async function handleConfirmToolCallNote(args: any) {
+  const { note_id } = args;
+  const contextId = resolveContextId(args);
+  
+  if (!note_id) {
+    throw new Error("note_id is required");
+  }
+  
+  const note = verifyToolCallNote(contextId, note_id, "confirm");
+  
+  if (!note) {
+    throw new Error("Note not found or access denied");
+  }
+  
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            note: formatToolCallNote(note),
+            message: "Tool call note confirmed",
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
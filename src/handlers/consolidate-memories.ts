@@ -0,0 +1,93 @@
+/**
+ * Handler: consolidate_memories
+ *
+ * Propose merged memories for groups of related memories, then apply them on
+ * confirmation (originals are archived and linked to the merged memory)
+ */
+
+import config from "../config.js";
+import { resolveContextId } from "../context.js";
+import { proposeConsolidations, applyConsolidation } from "../consolidation.js";
+import { formatMemory, formatFact, formatConsolidationProposal, parseDateArg } from "../format.js";
+
+const ACTIONS = ["propose", "apply"];
+
+export async function handleConsolidateMemories(args: any) {
+  const action = (args.action as string) || "propose";
+  const contextId = resolveContextId(args);
+
+  if (!ACTIONS.includes(action)) {
+    throw new Error(`Invalid action: ${action}. Must be one of: ${ACTIONS.join(", ")}`);
+  }
+
+  if (action === "apply") {
+    const memoryIds = args.memory_ids as string[] | undefined;
+    if (!Array.isArray(memoryIds)) {
+      throw new Error("memory_ids is required for action 'apply' (from a proposal)");
+    }
+
+    const result = await applyConsolidation(contextId, memoryIds, {
+      text: args.text as string | undefined,
+      tags: args.context_tags as string[] | undefined,
+      facts: args.facts as string[] | undefined,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: true,
+              memory: formatMemory(result.memory),
+              facts: result.facts.map(formatFact),
+              archived_memory_ids: result.archivedIds,
+              message: `Consolidated ${result.archivedIds.length} memories into ${result.memory.id}. The originals are archived: hidden from search and lists, still readable with get_memory.`,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  const threshold = (args.threshold as number | undefined) ?? config.consolidation.threshold;
+  const limit = (args.limit as number) || 10;
+  if (typeof threshold !== "number" || threshold <= 0 || threshold > 1) {
+    throw new Error("threshold must be a number between 0 and 1");
+  }
+
+  const { memoriesCompared, proposals } = await proposeConsolidations(
+    contextId,
+    {
+      tags: (args.tags as string[]) || undefined,
+      createdAfter: parseDateArg(args.created_after, "created_after"),
+      createdBefore: parseDateArg(args.created_before, "created_before"),
+    },
+    threshold,
+    limit
+  );
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            context_id: contextId,
+            threshold,
+            memories_compared: memoriesCompared,
+            proposal_count: proposals.length,
+            proposals: proposals.map(formatConsolidationProposal),
+            message: proposals.length > 0
+              ? `Proposed ${proposals.length} consolidations; nothing was changed. Review them, then call consolidate_memories with action 'apply', the proposal's memory_ids and its (optionally edited) text, context_tags and facts.`
+              : "No related memories to consolidate. Try a lower threshold.",
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -1,20 +1,22 @@
 /**
  * Handler: delete_memory
  * 
- * Delete a specific memory by ID
+ * Move a specific memory to trash (restorable with restore_memory)
  */
 
 import config from "../config.js";
+import { resolveContextId } from "../context.js";
 import { deleteMemory } from "../operations.js";
 
 export async function handleDeleteMemory(args: any) {
   const { memory_id } = args;
+  const contextId = resolveContextId(args);
 
   if (!memory_id) {
     throw new Error("memory_id is required");
   }
 
-  const deleted = deleteMemory(memory_id, config.contextId);
+  const deleted = deleteMemory(memory_id, contextId);
 
   if (!deleted) {
     return {
@@ -24,7 +26,7 @@ export async function handleDeleteMemory(args: any) {
           text: JSON.stringify(
             {
               success: false,
-              message: `Memory not found or does not belong to user`,
+              message: `Memory not found, already in trash, or does not belong to user`,
             },
             null,
             2
@@ -42,7 +44,11 @@ export async function handleDeleteMemory(args: any) {
           {
             success: true,
             memory_id,
-            message: `Memory deleted successfully`,
+            message:
+              `Memory moved to trash. Use restore_memory to undo` +
+              (config.trashRetentionDays > 0
+                ? ` - it is purged permanently after ${config.trashRetentionDays} days.`
+                : `.`),
           },
           null,
           2
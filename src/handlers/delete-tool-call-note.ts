@@ -5,20 +5,24 @@
  * the knowledge base clean and prevent misinformation.
  */
 
-import config from "../config.js";
-import { deleteToolCallNote } from "../operations.js";
+import { resolveContextId } from "../context.js";
+import { deleteToolCallNote, getToolCallNote } from "../operations.js";
 
 export async function handleDeleteToolCallNote(args: any) {
   const { note_id } = args;
+  const contextId = resolveContextId(args);
   
   if (!note_id) {
     throw new Error("note_id is required");
   }
   
-  const deleted = deleteToolCallNote(config.contextId, note_id);
+  const deleted = deleteToolCallNote(contextId, note_id);
   
   if (!deleted) {
-    throw new Error("Note not found or access denied");
+    const shared = getToolCallNote(contextId, note_id);
+    throw new Error(shared
+      ? `Note is a global note recorded in context '${shared.contextId}'; only that context can change or delete it`
+      : "Note not found or access denied");
   }
   
   return {
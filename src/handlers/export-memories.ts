@@ -0,0 +1,50 @@
+/**
+ * Handler: export_memories
+ * 
+ * Write memories, facts and tool call notes to a portable JSONL file
+ */
+
+import { relative } from "path";
+import config from "../config.js";
+import { resolveContextIds, getAllowedContextIds } from "../context.js";
+import { getTokenContexts } from "../auth.js";
+import { exportMemories, defaultExportPath, resolveExportPath, exportDir } from "../transfer.js";
+
+export async function handleExportMemories(args: any) {
+  const { path, all_contexts, include_vectors } = args;
+
+  // Every context means every context this server (and the calling token) may use
+  const contextIds: string[] | undefined = all_contexts
+    ? (config.allowedContexts.includes("*") && getTokenContexts() === null ? undefined : getAllowedContextIds())
+    : resolveContextIds(args);
+  const outputPath = path ? resolveExportPath(path) : defaultExportPath(contextIds);
+
+  const result = await exportMemories(outputPath, {
+    contextIds,
+    includeVectors: include_vectors === true,
+  });
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            path: relative(exportDir(), result.path),
+            exports_dir: exportDir(),
+            context_ids: contextIds ?? "all",
+            memories: result.memories,
+            facts: result.facts,
+            vectors: result.vectors,
+            links: result.links,
+            tool_call_notes: result.toolCallNotes,
+            message: `Exported ${result.memories} memories and ${result.toolCallNotes} tool call notes to ${result.path}`,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Handler: find_duplicates
+ *
+ * Cluster existing memories that repeat each other, for cleanup
+ */
+
+import config from "../config.js";
+import { resolveContextId } from "../context.js";
+import { embedder } from "../embeddings/factory.js";
+import { getMemoryFactVectors } from "../operations.js";
+import { clusterDuplicates } from "../clustering.js";
+import { formatDuplicateCluster, parseDateArg } from "../format.js";
+
+export async function handleFindDuplicates(args: any) {
+  const threshold = (args.threshold as number | undefined) ?? config.duplicates.threshold;
+  const tags = (args.tags as string[]) || undefined;
+  const createdAfter = parseDateArg(args.created_after, "created_after");
+  const limit = (args.limit as number) || 20;
+  const contextId = resolveContextId(args);
+
+  if (typeof threshold !== "number" || threshold <= 0 || threshold > 1) {
+    throw new Error("threshold must be a number between 0 and 1");
+  }
+
+  const embeddingType = embedder.getType();
+  const entries = getMemoryFactVectors(contextId, embeddingType, { requireTags: tags, createdAfter });
+  const clusters = clusterDuplicates(entries, threshold);
+  const duplicateCount = clusters.reduce((sum, cluster) => sum + cluster.memories.length - 1, 0);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            context_id: contextId,
+            embedding_mode: embeddingType,
+            threshold,
+            memories_compared: entries.length,
+            cluster_count: clusters.length,
+            duplicate_count: duplicateCount, // Memories beyond the first of each cluster
+            clusters: clusters.slice(0, limit).map(formatDuplicateCluster),
+            message: clusters.length > 0
+              ? `Found ${clusters.length} clusters of duplicate memories. Review them, then keep one per cluster with update_memory and delete_memory.`
+              : "No duplicate memories found.",
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Handler: get_entity
+ * 
+ * Look up an entity by name or alias and return every memory mentioning it
+ */
+
+import { resolveContextId } from "../context.js";
+import { findEntity, getEntityMemories, recordMemoryAccess } from "../operations.js";
+import { formatEntity, formatMemory, formatFact } from "../format.js";
+
+export async function handleGetEntity(args: any) {
+  const name = (args.name as string | undefined)?.trim();
+  const limit = (args.limit as number) || 50;
+  const contextId = resolveContextId(args);
+
+  if (!name) {
+    throw new Error("name is required");
+  }
+
+  const entity = findEntity(contextId, name);
+  if (!entity) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: false,
+              message: `No entity named '${name}' in context '${contextId}'. Use list_entities (query) to find its name.`,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  const mentions = getEntityMemories(entity.id, limit);
+  recordMemoryAccess(mentions.map(({ memory }) => memory.id));
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            entity: formatEntity(entity),
+            count: mentions.length,
+            memories: mentions.map(({ memory, facts }) => ({
+              memory: formatMemory(memory),
+              mentioned_in: facts.map(formatFact),
+            })),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Handler: get_memory_history
+ * 
+ * List the current and past versions of a memory
+ */
+
+import { resolveContextId } from "../context.js";
+import { getMemory, getFactsByMemoryId, getMemoryRevisions } from "../operations.js";
+
+export async function handleGetMemoryHistory(args: any) {
+  const { memory_id } = args;
+  const contextId = resolveContextId(args);
+
+  if (!memory_id) {
+    throw new Error("memory_id is required");
+  }
+
+  const memory = getMemory(memory_id);
+
+  if (!memory || memory.contextId !== contextId) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: false,
+              message: "Memory not found or does not belong to context",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  const revisions = getMemoryRevisions(memory_id);
+  const currentFacts = getFactsByMemoryId(memory_id);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            memory_id,
+            current_version: memory.version,
+            versions: [
+              {
+                version: memory.version,
+                current: true,
+                text: memory.text,
+                context_tags: memory.tags,
+                facts: currentFacts.map((f) => f.text),
+                updated_at: new Date(memory.updatedAt).toISOString(),
+              },
+              ...revisions.map((revision) => ({
+                version: revision.version,
+                text: revision.text,
+                context_tags: revision.tags,
+                facts: revision.facts,
+                replaced_by: revision.changeType,
+                replaced_at: new Date(revision.createdAt).toISOString(),
+              })),
+            ],
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
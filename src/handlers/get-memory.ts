@@ -4,18 +4,38 @@
  * Retrieve a specific memory by its ID
  */
 
-import { getMemory, getFactsByMemoryId } from "../operations.js";
+import {
+  getMemory,
+  getFactsByMemoryId,
+  getCurrentReplacement,
+  getSupersededMemoryIds,
+  getConsolidatedMemoryIds,
+  getMemoryLinks,
+  getLinkedMemories,
+  recordMemoryAccess,
+} from "../operations.js";
+import { isContextAllowed } from "../context.js";
+import { formatLink, formatLinkedMemory, parseRelationArg } from "../format.js";
+
+const MAX_LINK_DEPTH = 3;
 
 export async function handleGetMemory(args: any) {
   const { memory_id } = args;
+  const linkDepth = (args.link_depth as number) ?? 0;
 
   if (!memory_id) {
     throw new Error("memory_id parameter is required");
   }
 
+  if (!Number.isInteger(linkDepth) || linkDepth < 0 || linkDepth > MAX_LINK_DEPTH) {
+    throw new Error(`link_depth must be an integer from 0 to ${MAX_LINK_DEPTH}`);
+  }
+  const linkRelations = parseRelationArg(args.link_relations, "link_relations");
+
   const memory = getMemory(memory_id);
 
-  if (!memory) {
+  // Memories in contexts this server may not use are reported as missing
+  if (!memory || !isContextAllowed(memory.contextId)) {
     return {
       content: [
         {
@@ -34,6 +54,12 @@ export async function handleGetMemory(args: any) {
   }
 
   const facts = getFactsByMemoryId(memory_id);
+  const replacement = memory.supersededBy ? getCurrentReplacement(memory_id) : null;
+  const supersedes = getSupersededMemoryIds(memory_id);
+  const consolidatedFrom = getConsolidatedMemoryIds(memory_id);
+  const links = getMemoryLinks(memory_id);
+  const linkedMemories = linkDepth > 0 ? getLinkedMemories([memory_id], linkDepth, linkRelations) : [];
+  recordMemoryAccess([memory_id]);
 
   return {
     content: [
@@ -50,7 +76,34 @@ export async function handleGetMemory(args: any) {
               created_at: new Date(memory.createdAt).toISOString(),
               updated_at: new Date(memory.updatedAt).toISOString(),
               version: memory.version,
+              ...(memory.pinnedAt && { pinned_at: new Date(memory.pinnedAt).toISOString() }),
+              access_count: (memory.accessCount ?? 0) + 1,
+              last_accessed_at: new Date().toISOString(),
+              ...(memory.deletedAt && {
+                deleted_at: new Date(memory.deletedAt).toISOString(),
+              }),
+              ...(memory.supersededBy && {
+                superseded_by: memory.supersededBy,
+                superseded_at: new Date(memory.supersededAt!).toISOString(),
+              }),
+              ...(supersedes.length > 0 && { supersedes }),
+              ...(memory.archivedAt && {
+                archived_at: new Date(memory.archivedAt).toISOString(),
+                consolidated_into: memory.consolidatedInto,
+              }),
+              ...(consolidatedFrom.length > 0 && { consolidated_from: consolidatedFrom }),
+              ...(links.length > 0 && { links: links.map(formatLink) }),
             },
+            ...(linkDepth > 0 && { linked_memories: linkedMemories.map(formatLinkedMemory) }),
+            ...(replacement && {
+              replaced_by: { id: replacement.id, text: replacement.text },
+            }),
+            ...(memory.deletedAt && {
+              message: "This memory is in trash. Use restore_memory to bring it back.",
+            }),
+            ...(memory.archivedAt && !memory.deletedAt && {
+              message: `This memory is archived: it was consolidated into ${memory.consolidatedInto}.`,
+            }),
             facts: facts.map((f) => ({
               id: f.id,
               text: f.text,
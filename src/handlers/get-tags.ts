@@ -5,7 +5,7 @@
  * Returns metadata about each tag (count, first/last memory dates)
  */
 
-import config from "../config.js";
+import { resolveContextId } from "../context.js";
 import { getAllTags } from "../operations.js";
 
 const MAX_TAGS_DISPLAY = 150;
@@ -13,8 +13,9 @@ const TRUNCATE_TO = 100;
 
 export async function handleGetContextTags(args: any) {
   const { regex } = args;
+  const contextId = resolveContextId(args);
   
-  const allTags = getAllTags(config.contextId, regex);
+  const allTags = getAllTags(contextId, regex);
   const totalCount = allTags.length;
   let tags = allTags;
   let truncated = false;
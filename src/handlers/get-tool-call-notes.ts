@@ -5,18 +5,20 @@
  * and leverage previous learnings for better tool call success rates.
  */
 
-import config from "../config.js";
+import { resolveContextId } from "../context.js";
 import { getToolCallNotes } from "../operations.js";
+import { formatToolCallNote } from "../format.js";
 
 export async function handleGetToolCallNotes(args: any) {
   const { tool_name, note_type, limit } = args;
+  const contextId = resolveContextId(args);
   
   if (!tool_name) {
     throw new Error("tool_name is required");
   }
   
   const notes = getToolCallNotes(
-    config.contextId,
+    contextId,
     tool_name,
     note_type,
     limit || 10
@@ -25,15 +27,7 @@ export async function handleGetToolCallNotes(args: any) {
   const response = {
     tool_name,
     count: notes.length,
-    notes: notes.map((note) => ({
-      id: note.id,
-      note_type: note.noteType,
-      content: note.content,
-      ...(note.parameters && { parameters: note.parameters }),
-      ...(note.errorMessage && { error_message: note.errorMessage }),
-      ...(note.successPattern && { success_pattern: note.successPattern }),
-      created_at: new Date(note.createdAt).toISOString(),
-    })),
+    notes: notes.map(formatToolCallNote),
   };
   
   return {
@@ -0,0 +1,55 @@
+/**
+ * Handler: import_memories
+ * 
+ * Load a JSONL export, resolving ID collisions and embedding facts without vectors
+ */
+
+import { resolveContextId, isContextAllowed } from "../context.js";
+import { importMemories, resolveExportPath, CONFLICT_STRATEGIES } from "../transfer.js";
+import type { ConflictStrategy } from "../transfer.js";
+
+export async function handleImportMemories(args: any) {
+  const { path, on_conflict, context_id } = args;
+
+  if (!path) {
+    throw new Error("path is required");
+  }
+
+  const onConflict = (on_conflict as ConflictStrategy) || "skip";
+  if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+    throw new Error(`Invalid on_conflict: ${on_conflict}. Must be one of: ${CONFLICT_STRATEGIES.join(", ")}`);
+  }
+
+  const result = await importMemories(resolveExportPath(path), {
+    onConflict,
+    contextId: context_id ? resolveContextId(args) : undefined,
+    isContextAllowed,
+  });
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            on_conflict: onConflict,
+            memories_imported: result.memoriesImported,
+            memories_skipped: result.memoriesSkipped,
+            memories_overwritten: result.memoriesOverwritten,
+            memories_remapped: result.memoriesRemapped,
+            facts_imported: result.factsImported,
+            vectors_imported: result.vectorsImported,
+            facts_embedded: result.factsEmbedded,
+            links_imported: result.linksImported,
+            links_skipped: result.linksSkipped,
+            tool_call_notes_imported: result.toolCallNotesImported,
+            tool_call_notes_skipped: result.toolCallNotesSkipped,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
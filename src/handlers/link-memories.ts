@@ -0,0 +1,63 @@
+/**
+ * Handler: link_memories
+ * 
+ * Add a typed, directed link from one memory to another
+ * (e.g. a decision depends_on a constraint)
+ */
+
+import { resolveContextId } from "../context.js";
+import { linkMemories } from "../operations.js";
+import { formatLink, parseRelationArg } from "../format.js";
+
+export async function handleLinkMemories(args: any) {
+  const { source_id, target_id } = args;
+  const contextId = resolveContextId(args);
+
+  if (!source_id || !target_id) {
+    throw new Error("source_id and target_id are required");
+  }
+  if (source_id === target_id) {
+    throw new Error("A memory cannot be linked to itself");
+  }
+  if (Array.isArray(args.relation)) {
+    throw new Error("relation must be a single relation");
+  }
+
+  const [relation] = parseRelationArg(args.relation ?? "relates_to", "relation")!;
+  const link = linkMemories(source_id, target_id, relation, contextId);
+
+  if (!link) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: false,
+              message: "Memory not found, in trash, archived, or does not belong to context",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            link: formatLink(link),
+            message: `Linked: ${source_id} ${relation} ${target_id}. get_memory with link_depth shows it.`,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Handler: list_contexts
+ * 
+ * List the contexts this server may use, with counts and last activity
+ */
+
+import config from "../config.js";
+import { getAllowedContextIds } from "../context.js";
+import { getContextStats } from "../operations.js";
+
+export async function handleListContexts(args: any) {
+  const stats = getContextStats(getAllowedContextIds());
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            default_context: config.contextId,
+            any_context_allowed: config.allowedContexts.includes("*"),
+            count: stats.length,
+            contexts: stats.map((context) => ({
+              context_id: context.contextId,
+              memories: context.memoryCount,
+              in_trash: context.trashCount,
+              facts: context.factCount,
+              tool_call_notes: context.toolCallNoteCount,
+              last_activity: context.lastActivity ? new Date(context.lastActivity).toISOString() : null,
+            })),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
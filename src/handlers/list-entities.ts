@@ -0,0 +1,44 @@
+/**
+ * Handler: list_entities
+ * 
+ * List the people, services, repos, ... that memories mention, most mentioned first
+ */
+
+import config from "../config.js";
+import { resolveContextId } from "../context.js";
+import { listEntities } from "../operations.js";
+import { ENTITY_TYPES } from "../entities.js";
+import { formatEntity } from "../format.js";
+import type { EntityType } from "../types.js";
+
+export async function handleListEntities(args: any) {
+  const type = args.type as EntityType | undefined;
+  const query = (args.query as string) || undefined;
+  const limit = (args.limit as number) || 50;
+  const contextId = resolveContextId(args);
+
+  if (type && !ENTITY_TYPES.includes(type)) {
+    throw new Error(`Invalid type: ${type}. Must be one of: ${ENTITY_TYPES.join(", ")}`);
+  }
+
+  const entities = listEntities(contextId, { type, query }, limit);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            count: entities.length,
+            entities: entities.map(formatEntity),
+            ...(config.entities.extraction === "off" && {
+              message: "Entity extraction is off (entities.extraction), so new memories are not indexed",
+            }),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
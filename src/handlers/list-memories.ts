@@ -4,15 +4,16 @@
  * List all memories with optional tag filtering
  */
 
-import config from "../config.js";
+import { resolveContextId } from "../context.js";
 import { listMemories } from "../operations.js";
 import { formatMemory } from "../format.js";
 
 export async function handleListMemories(args: any) {
   const contextTags = (args.context_tags as string[]) || undefined;
+  const contextId = resolveContextId(args);
   const limit = (args.limit as number) || 50;
 
-  const memories = listMemories(config.contextId, contextTags, limit);
+  const memories = listMemories(contextId, contextTags, limit);
 
   return {
     content: [
@@ -0,0 +1,34 @@
+/**
+ * Handler: list_trash
+ * 
+ * List deleted memories that can still be restored
+ */
+
+import config from "../config.js";
+import { resolveContextId } from "../context.js";
+import { listTrash } from "../operations.js";
+import { formatMemory } from "../format.js";
+
+export async function handleListTrash(args: any) {
+  const limit = (args.limit as number) || 50;
+  const contextId = resolveContextId(args);
+
+  const memories = listTrash(contextId, limit);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            count: memories.length,
+            retention_days: config.trashRetentionDays,
+            memories: memories.map(formatMemory),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Handler: pin_memory
+ * 
+ * Pin a memory so it is served in the memory://pinned resource
+ */
+
+import { resolveContextId } from "../context.js";
+import { setMemoryPinned } from "../operations.js";
+import { formatMemory } from "../format.js";
+
+export async function handlePinMemory(args: any) {
+  const { memory_id } = args;
+  const contextId = resolveContextId(args);
+
+  if (!memory_id) {
+    throw new Error("memory_id is required");
+  }
+
+  const memory = setMemoryPinned(memory_id, contextId, true);
+
+  if (!memory) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: false,
+              message: "Memory not found, in trash, archived, or does not belong to context",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            memory: formatMemory(memory),
+            message: "Memory pinned: clients attaching memory://pinned now include it",
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Handler: purge_trash
+ * 
+ * Permanently delete memories from trash (all, one, or older than N days)
+ */
+
+import { resolveContextId } from "../context.js";
+import { purgeTrash } from "../operations.js";
+
+export async function handlePurgeTrash(args: any) {
+  const { memory_id, older_than_days } = args;
+  const contextId = resolveContextId(args);
+
+  if (older_than_days !== undefined && (typeof older_than_days !== "number" || older_than_days < 0)) {
+    throw new Error("older_than_days must be a non-negative number");
+  }
+
+  const deletedBefore = older_than_days !== undefined
+    ? Date.now() - older_than_days * 24 * 60 * 60 * 1000
+    : undefined;
+
+  const purged = purgeTrash(contextId, deletedBefore, memory_id);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            purged_count: purged,
+            message: `Permanently deleted ${purged} ${purged === 1 ? "memory" : "memories"} from trash`,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
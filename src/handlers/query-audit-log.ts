@@ -0,0 +1,79 @@
+/**
+ * Handler: query_audit_log
+ *
+ * List recorded tool calls, or summarize calls, errors and latency per tool
+ */
+
+import config from "../config.js";
+import { resolveContextId } from "../context.js";
+import { getTokenContexts } from "../auth.js";
+import { queryAuditLog, getAuditLogSummary } from "../operations.js";
+import { formatAuditLogEntry, parseDateArg } from "../format.js";
+import type { AuditLogFilters } from "../types.js";
+
+const STATUSES = ["success", "error", "all"];
+
+export async function handleQueryAuditLog(args: any) {
+  const status = (args.status as string) || "all";
+  const limit = (args.limit as number) || 50;
+  const offset = (args.offset as number) || 0;
+
+  if (!STATUSES.includes(status)) {
+    throw new Error(`Invalid status: ${status}. Must be one of: ${STATUSES.join(", ")}`);
+  }
+
+  // Tokens limited to some contexts only see their own (default) context's calls
+  const filters: AuditLogFilters = {
+    toolName: args.tool_name as string | undefined,
+    contextId: args.context_id || getTokenContexts() ? resolveContextId(args) : undefined,
+    clientId: args.client_id as string | undefined,
+    memoryId: args.memory_id as string | undefined,
+    success: status === "all" ? undefined : status === "success",
+    since: parseDateArg(args.since, "since"),
+    until: parseDateArg(args.until, "until"),
+  };
+
+  if (args.summary === true) {
+    const tools = getAuditLogSummary(filters);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              tools: tools.map((tool) => ({
+                tool_name: tool.toolName,
+                calls: tool.calls,
+                errors: tool.errors,
+                error_rate: Math.round((tool.errors / tool.calls) * 1000) / 1000,
+                avg_duration_ms: tool.avgDurationMs,
+                max_duration_ms: tool.maxDurationMs,
+              })),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  const entries = queryAuditLog(filters, limit, offset);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            count: entries.length,
+            retention_days: config.audit.retentionDays,
+            entries: entries.map(formatAuditLogEntry),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Handler: rebuild_entity_index
+ * 
+ * Re-extract the entities of every fact in a context (after enabling entity
+ * extraction, switching it to 'llm', or importing memories)
+ */
+
+import config from "../config.js";
+import { resolveContextId } from "../context.js";
+import { rebuildEntityIndex } from "../entities.js";
+import { listEntities } from "../operations.js";
+
+export async function handleRebuildEntityIndex(args: any) {
+  const contextId = resolveContextId(args);
+
+  const startTime = Date.now();
+  const result = await rebuildEntityIndex(contextId);
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  const entityCount = listEntities(contextId, {}, Number.MAX_SAFE_INTEGER).length;
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            context_id: contextId,
+            extraction: config.entities.extraction,
+            memories: result.memories,
+            facts: result.facts,
+            entities: entityCount,
+            message: `Indexed the entities of ${result.facts} facts in ${elapsed}s: ${entityCount} entities are mentioned by live memories`,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
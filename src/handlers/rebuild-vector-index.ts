@@ -0,0 +1,50 @@
+/**
+ * Handler: rebuild_vector_index
+ * 
+ * (Re)build the approximate nearest-neighbour index for an embedding mode
+ */
+
+import { embedder } from "../embeddings/factory.js";
+import { EMBEDDING_CONFIGS } from "../embeddings/registry.js";
+import type { EmbeddingType } from "../embeddings/types.js";
+import { vectorIndex } from "../vector-index/factory.js";
+
+export async function handleRebuildVectorIndex(args: any) {
+  const embeddingType = (args.mode as EmbeddingType) || embedder.getType();
+
+  if (!EMBEDDING_CONFIGS[embeddingType]) {
+    throw new Error(
+      `Invalid mode: ${embeddingType}. Must be one of: ${Object.keys(EMBEDDING_CONFIGS).join(", ")}`
+    );
+  }
+
+  const previous = vectorIndex.getStats(embeddingType);
+  const startTime = Date.now();
+  const stats = vectorIndex.build(embeddingType);
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            mode: embeddingType,
+            index: {
+              kind: stats.kind,
+              dimension: stats.dimension,
+              lists: stats.listCount,
+              indexed_facts: stats.factCount,
+              built_at: new Date(stats.builtAt).toISOString(),
+            },
+            previous_built_at: previous ? new Date(previous.builtAt).toISOString() : null,
+            message: `Indexed ${stats.factCount} facts into ${stats.listCount} lists in ${elapsed}s`,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -5,11 +5,15 @@
  * and avoid repeating the same mistakes in the future.
  */
 
-import config from "../config.js";
-import { addToolCallNote } from "../operations.js";
+import { resolveContextId } from "../context.js";
+import { embedder } from "../embeddings/factory.js";
+import { addToolCallNote, addEmbeddingToToolCallNote, toolCallNoteText, TOOL_CALL_NOTE_SCOPES } from "../operations.js";
+import type { ToolCallNoteScope } from "../operations.js";
 
 export async function handleRecordToolCallNote(args: any) {
   const { tool_name, note_type, content, parameters, error_message, success_pattern } = args;
+  const scope = (args.scope as ToolCallNoteScope) || "context";
+  const contextId = resolveContextId(args);
   
   if (!tool_name || !note_type || !content) {
     throw new Error("tool_name, note_type, and content are required");
@@ -18,16 +22,34 @@ export async function handleRecordToolCallNote(args: any) {
   if (!["success", "failure", "pattern", "guideline"].includes(note_type)) {
     throw new Error("note_type must be: success, failure, pattern, or guideline");
   }
+
+  if (!TOOL_CALL_NOTE_SCOPES.includes(scope)) {
+    throw new Error("scope must be: context or global");
+  }
   
   const id = addToolCallNote(
-    config.contextId,
+    contextId,
     tool_name,
     note_type,
     content,
     parameters,
     error_message,
-    success_pattern
+    success_pattern,
+    scope
   );
+
+  // Embed for search_tool_call_notes; without it the note is embedded on the next search
+  try {
+    const text = toolCallNoteText({
+      toolName: tool_name,
+      content,
+      errorMessage: error_message,
+      successPattern: success_pattern,
+    });
+    addEmbeddingToToolCallNote(id, await embedder.embedText(text), embedder.getType());
+  } catch (error: any) {
+    console.error(`⚠️  Could not embed tool call note ${id} (${error.message})`);
+  }
   
   return {
     content: [
@@ -39,7 +61,10 @@ export async function handleRecordToolCallNote(args: any) {
             id,
             tool_name,
             note_type,
-            message: "Tool call note recorded - building expertise for future use",
+            scope,
+            message: scope === "global"
+              ? "Global tool call note recorded - shared with every context"
+              : "Tool call note recorded - building expertise for future use",
           },
           null,
           2
@@ -0,0 +1,42 @@
+/**
+ * Handler: refute_tool_call_note
+ * 
+ * Record that a tool call note turned out wrong or outdated. Refuted notes
+ * rank lower and are flagged; update or delete the note if you know the fix.
+ */
+
+import { resolveContextId } from "../context.js";
+import { verifyToolCallNote } from "../operations.js";
+import { formatToolCallNote } from "../format.js";
+
+export async function handleRefuteToolCallNote(args: any) {
+  const { note_id } = args;
+  const contextId = resolveContextId(args);
+  
+  if (!note_id) {
+    throw new Error("note_id is required");
+  }
+  
+  const note = verifyToolCallNote(contextId, note_id, "refute");
+  
+  if (!note) {
+    throw new Error("Note not found or access denied");
+  }
+  
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            note: formatToolCallNote(note),
+            message: "Tool call note refuted - update_tool_call_note or delete_tool_call_note it if you know what is right now",
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Handler: restore_memory
+ * 
+ * Bring a memory back from trash
+ */
+
+import { resolveContextId } from "../context.js";
+import { restoreMemory } from "../operations.js";
+import { formatMemory } from "../format.js";
+
+export async function handleRestoreMemory(args: any) {
+  const { memory_id } = args;
+  const contextId = resolveContextId(args);
+
+  if (!memory_id) {
+    throw new Error("memory_id is required");
+  }
+
+  const memory = restoreMemory(memory_id, contextId);
+
+  if (!memory) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: false,
+              message: "Memory not found in trash or does not belong to context",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            memory: formatMemory(memory),
+            message: "Memory restored from trash",
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Handler: revert_memory
+ * 
+ * Restore a memory's text, tags and facts from a past version.
+ * The version being replaced is itself kept in history, so reverts can be undone.
+ */
+
+import { resolveContextId } from "../context.js";
+import { db } from "../database.js";
+import { embedder } from "../embeddings/factory.js";
+import {
+  getMemory,
+  getMemoryRevision,
+  getRevisionVectors,
+  updateMemory,
+  deleteFactsForMemory,
+  createFact,
+} from "../operations.js";
+import { indexFactEntities } from "../entities.js";
+import { formatMemory } from "../format.js";
+
+export async function handleRevertMemory(args: any) {
+  const { memory_id, version } = args;
+  const contextId = resolveContextId(args);
+
+  if (!memory_id || version === undefined) {
+    throw new Error("memory_id and version are required");
+  }
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error("version must be a positive integer");
+  }
+
+  const memory = getMemory(memory_id);
+  if (!memory || memory.contextId !== contextId || memory.deletedAt) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: false,
+              message: "Memory not found or does not belong to context",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  if (version === memory.version) {
+    throw new Error(`Memory is already at version ${version}`);
+  }
+
+  const revision = getMemoryRevision(memory_id, version);
+  if (!revision) {
+    throw new Error(
+      `Version ${version} not found for memory ${memory_id}. Use get_memory_history to list available versions.`
+    );
+  }
+
+  // Reuse stored vectors for the current embedding mode; embed only what is missing
+  const embeddingType = embedder.getType();
+  const vectors = getRevisionVectors(revision, embeddingType);
+  const missing = revision.facts
+    .map((text, position) => ({ text, position }))
+    .filter(({ position }) => !vectors[position]);
+
+  if (missing.length > 0) {
+    const embedded = await embedder.embedBatch(missing.map((fact) => fact.text));
+    missing.forEach(({ position }, i) => {
+      vectors[position] = embedded[i];
+    });
+  }
+
+  const revert = db.transaction(() => {
+    const reverted = updateMemory(memory_id, contextId, revision.text, revision.tags, "revert");
+    if (!reverted) {
+      // Trashed while the revision was re-embedded
+      throw new Error(`Memory ${memory_id} not found in context '${contextId}' (or it is in trash)`);
+    }
+    deleteFactsForMemory(memory_id);
+    const facts = revision.facts.map((text, position) =>
+      createFact(memory_id, text, vectors[position]!, embeddingType)
+    );
+    return { reverted, facts };
+  });
+
+  const { reverted, facts } = revert();
+  await indexFactEntities(contextId, facts);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            memory: formatMemory(reverted),
+            restored_from_version: version,
+            facts_count: revision.facts.length,
+            re_embedded_facts: missing.length,
+            message: `Restored content of version ${version} as version ${reverted.version}`,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
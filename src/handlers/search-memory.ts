@@ -1,43 +1,91 @@
 /**
  * Handler: search_memory
  * 
- * Semantic search through facts with optional tag filtering
+ * Semantic, keyword or hybrid search through facts with optional hard filters
+ * and tag boosting
  */
 
 import config from "../config.js";
+import { resolveContextIds } from "../context.js";
 import { embedder } from "../embeddings/factory.js";
-import { searchFacts } from "../operations.js";
-import { formatMemory } from "../format.js";
+import { searchFacts, getCurrentReplacement, getLinkedMemories, recordMemoryAccess } from "../operations.js";
+import { getRankingWeights } from "../ranking.js";
+import { formatMemory, formatScoreBreakdown, formatLinkedMemory, parseDateArg } from "../format.js";
+import type { MemoryFilters, SearchMode, SupersededMode } from "../types.js";
+
+const SEARCH_MODES: SearchMode[] = ["semantic", "keyword", "hybrid"];
+const SUPERSEDED_MODES: SupersededMode[] = ["downrank", "hide", "include"];
+const MAX_EXPAND_LINKS = 2;
+
+/**
+ * Collect the hard filter arguments (undefined if none were given)
+ */
+function parseFilters(args: any): MemoryFilters | undefined {
+  const filters: MemoryFilters = {
+    requireTags: args.require_tags as string[] | undefined,
+    excludeTags: args.exclude_tags as string[] | undefined,
+    createdAfter: parseDateArg(args.created_after, "created_after"),
+    createdBefore: parseDateArg(args.created_before, "created_before"),
+    updatedAfter: parseDateArg(args.updated_after, "updated_after"),
+    memoryIds: args.memory_ids as string[] | undefined,
+    entities: args.entities as string[] | undefined,
+  };
+
+  const hasFilter = Object.values(filters).some((value) => value !== undefined);
+  return hasFilter ? filters : undefined;
+}
 
 export async function handleSearchMemory(args: any) {
   const query = args.query as string;
   const contextTags = (args.context_tags as string[]) || undefined;
   const limit = (args.limit as number) || 10;
+  const mode = (args.mode as SearchMode) || "semantic";
+  const superseded = (args.superseded as SupersededMode) || config.superseded.search;
+  const expandLinks = (args.expand_links as number) ?? 0;
+  const filters = parseFilters(args);
+  const contextIds = resolveContextIds(args);
 
   if (!query) {
     throw new Error("Query is required");
   }
 
-  // Embed query
-  const queryVector = await embedder.embedText(query);
+  if (!SEARCH_MODES.includes(mode)) {
+    throw new Error(`Invalid mode: ${mode}. Must be one of: ${SEARCH_MODES.join(", ")}`);
+  }
+
+  if (!SUPERSEDED_MODES.includes(superseded)) {
+    throw new Error(`Invalid superseded: ${superseded}. Must be one of: ${SUPERSEDED_MODES.join(", ")}`);
+  }
+
+  if (!Number.isInteger(expandLinks) || expandLinks < 0 || expandLinks > MAX_EXPAND_LINKS) {
+    throw new Error(`expand_links must be an integer from 0 to ${MAX_EXPAND_LINKS}`);
+  }
+
+  // Embed query (keyword mode only needs the text)
+  const queryVector = mode === "keyword" ? null : await embedder.embedText(query);
   const embeddingType = embedder.getType();
 
-  // Search facts (tags used for soft boosting, not hard filtering)
-  const results = searchFacts(
-    config.contextId,
-    queryVector,
-    embeddingType,
-    limit,
-    contextTags, // Boost tags (case-insensitive partial match)
-    config.lambda
-  );
+  // Search facts (context_tags boost softly; filters restrict hard)
+  const results = searchFacts(contextIds, queryVector, embeddingType, {
+    topK: limit,
+    boostTags: contextTags, // Boost tags (case-insensitive partial match)
+    lambda: config.lambda,
+    mode,
+    queryText: query,
+    keywordWeight: config.keywordWeight,
+    filters: superseded === "hide" ? { ...filters, excludeSuperseded: true } : filters,
+    supersededWeight: superseded === "downrank" ? config.superseded.weight : 1,
+    rankingWeights: getRankingWeights,
+  });
 
   // Group by memory to deduplicate
   const memoriesMap = new Map<string, any>();
   results.forEach((fact) => {
     if (!memoriesMap.has(fact.memoryId)) {
       memoriesMap.set(fact.memoryId, {
+        context_id: fact.memory?.contextId,
         memory: fact.memory ? formatMemory(fact.memory) : null,
+        ...(fact.memory?.supersededBy && { replaced_by: formatReplacement(fact.memoryId) }),
         facts: [],
         maxScore: fact.score,
       });
@@ -46,6 +94,8 @@ export async function handleSearchMemory(args: any) {
       id: fact.id,
       text: fact.text,
       score: fact.score,
+      score_breakdown: fact.scoreBreakdown && formatScoreBreakdown(fact.scoreBreakdown),
+      matched_by: fact.matchedBy,
     });
   });
 
@@ -53,6 +103,12 @@ export async function handleSearchMemory(args: any) {
     .sort((a, b) => b.maxScore - a.maxScore)
     .slice(0, limit);
 
+  const hitIds = memories.flatMap((entry) => (entry.memory ? [entry.memory.id] : []));
+  recordMemoryAccess(hitIds);
+
+  // Linked memories of the hits that are not hits themselves, nearest first
+  const linkedMemories = expandLinks > 0 ? getLinkedMemories(hitIds, expandLinks) : [];
+
   return {
     content: [
       {
@@ -60,8 +116,12 @@ export async function handleSearchMemory(args: any) {
         text: JSON.stringify(
           {
             query,
+            mode,
+            ...(contextIds.length > 1 && { contexts: contextIds }),
+            ...(filters && { filtered: true }),
             results: memories.length,
             memories,
+            ...(expandLinks > 0 && { linked_memories: linkedMemories.map(formatLinkedMemory) }),
           },
           null,
           2
@@ -71,3 +131,10 @@ export async function handleSearchMemory(args: any) {
   };
 }
 
+/**
+ * The memory that currently replaces a superseded one
+ */
+function formatReplacement(memoryId: string) {
+  const replacement = getCurrentReplacement(memoryId);
+  return replacement && { id: replacement.id, text: replacement.text };
+}
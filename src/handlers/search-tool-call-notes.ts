@@ -0,0 +1,52 @@
+/**
+ * Handler: search_tool_call_notes
+ * 
+ * Find tool call notes by meaning across all tools: paste an error message or
+ * describe what you are about to do, without knowing the exact tool name.
+ */
+
+import { resolveContextId } from "../context.js";
+import { embedder, embedMissingToolCallNotes } from "../embeddings/factory.js";
+import { embeddingBatchSize } from "../embeddings/registry.js";
+import { searchToolCallNotes } from "../operations.js";
+import { formatToolCallNote } from "../format.js";
+
+export async function handleSearchToolCallNotes(args: any) {
+  const { query, tool_name, note_type } = args;
+  const limit = (args.limit as number) || 5;
+  const contextId = resolveContextId(args);
+
+  if (!query) {
+    throw new Error("query is required");
+  }
+
+  if (note_type && !["success", "failure", "pattern", "guideline", "all"].includes(note_type)) {
+    throw new Error("note_type must be: success, failure, pattern, guideline, or all");
+  }
+
+  // Catch up on notes recorded or imported without an embedding of the current mode
+  const embeddingType = embedder.getType();
+  await embedMissingToolCallNotes(embedder, embeddingType, embeddingBatchSize(embeddingType));
+
+  const queryVector = await embedder.embedText(query);
+  const notes = searchToolCallNotes(contextId, queryVector, embeddingType, {
+    toolName: tool_name,
+    noteType: note_type,
+    limit,
+  });
+
+  const response = {
+    query,
+    count: notes.length,
+    notes: notes.map((note) => ({ score: note.score, ...formatToolCallNote(note) })),
+  };
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(response, null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Handler: supersede_memory
+ *
+ * Mark a memory as replaced by a newer one (or as current again)
+ */
+
+import { resolveContextId } from "../context.js";
+import { supersedeMemory, clearSupersession } from "../operations.js";
+import { formatMemory } from "../format.js";
+
+export async function handleSupersedeMemory(args: any) {
+  const memoryId = args.memory_id as string;
+  const supersededBy = args.superseded_by as string | undefined;
+  const clear = args.clear === true;
+  const contextId = resolveContextId(args);
+
+  if (!memoryId) {
+    throw new Error("memory_id is required");
+  }
+  if (!supersededBy && !clear) {
+    throw new Error("Provide superseded_by (the memory that replaces this one), or clear: true to mark it current again");
+  }
+  if (supersededBy && clear) {
+    throw new Error("Use either superseded_by or clear, not both");
+  }
+
+  const memory = clear
+    ? clearSupersession(memoryId, contextId)
+    : supersedeMemory(memoryId, supersededBy!, contextId);
+
+  if (!memory) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: false,
+              message: clear
+                ? "Memory not found or does not belong to context"
+                : "Memory or its replacement not found, in trash, or in another context",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            memory: formatMemory(memory),
+            message: clear
+              ? `Memory ${memoryId} is current again`
+              : `Memory ${memoryId} is superseded by ${supersededBy}; search ranks it lower and shows its replacement`,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -1,27 +1,31 @@
 /**
  * Handler: switch_embedding_mode
  * 
- * Switch between embedding modes (OpenAI, local English, local multilingual)
+ * Switch between registered embedding models (OpenAI, local, Ollama, OpenAI-compatible)
  */
 
 import { switchEmbeddingMode, getCurrentMode } from "../embeddings/factory.js";
-import type { EmbeddingType, LanguageMode } from "../embeddings/types.js";
+import { getFactExtractor } from "../extraction/factory.js";
+import { EMBEDDING_CONFIGS } from "../embeddings/registry.js";
+import type { EmbeddingType } from "../embeddings/types.js";
 
 export async function handleSwitchEmbeddingMode(args: any) {
   const targetMode = args.mode as EmbeddingType;
+  const modes = Object.keys(EMBEDDING_CONFIGS);
 
   if (!targetMode) {
-    throw new Error("mode parameter is required (openai, local_english, or local_multilingual)");
+    throw new Error(`mode parameter is required (${modes.join(", ")})`);
   }
 
-  if (!['openai', 'local_english', 'local_multilingual'].includes(targetMode)) {
+  if (!EMBEDDING_CONFIGS[targetMode]) {
     throw new Error(
-      `Invalid mode: ${targetMode}. Must be one of: openai, local_english, local_multilingual`
+      `Invalid mode: ${targetMode}. Must be one of: ${modes.join(", ")}`
     );
   }
 
   try {
     const result = await switchEmbeddingMode(targetMode);
+    const extractor = getFactExtractor();
 
     const response: any = {
       success: true,
@@ -29,9 +33,9 @@ export async function handleSwitchEmbeddingMode(args: any) {
       previous_mode: result.previousMode,
       message: result.message,
       missing_embeddings: result.missingEmbeddings,
-      note: targetMode.startsWith('local') 
-        ? "Manual facts are required in local mode for add_memory and update_memory operations."
-        : "Automatic fact extraction is available in OpenAI mode."
+      note: extractor
+        ? `Facts are extracted automatically (${extractor.getName()}); embedding mode does not affect extraction.`
+        : "Fact extraction is disabled: add_memory and update_memory require manual facts."
     };
 
     // Add embedding details if facts were embedded
@@ -39,6 +43,9 @@ export async function handleSwitchEmbeddingMode(args: any) {
       response.embedded_count = result.embeddedCount;
       response.estimated_time = result.estimatedTime;
     }
+    if (result.notesEmbedded !== undefined) {
+      response.notes_embedded = result.notesEmbedded;
+    }
 
     return {
       content: [
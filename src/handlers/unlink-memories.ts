@@ -0,0 +1,43 @@
+/**
+ * Handler: unlink_memories
+ * 
+ * Remove the links from one memory to another
+ */
+
+import { resolveContextId } from "../context.js";
+import { unlinkMemories } from "../operations.js";
+import { parseRelationArg } from "../format.js";
+
+export async function handleUnlinkMemories(args: any) {
+  const { source_id, target_id } = args;
+  const contextId = resolveContextId(args);
+
+  if (!source_id || !target_id) {
+    throw new Error("source_id and target_id are required");
+  }
+  if (Array.isArray(args.relation)) {
+    throw new Error("relation must be a single relation");
+  }
+
+  const relation = parseRelationArg(args.relation, "relation")?.[0];
+  const removed = unlinkMemories(source_id, target_id, contextId, relation);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: removed > 0,
+            removed,
+            message: removed > 0
+              ? `Removed ${removed} link${removed === 1 ? "" : "s"} from ${source_id} to ${target_id}`
+              : `No ${relation ? `${relation} ` : ""}link from ${source_id} to ${target_id} in this context`,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Handler: unpin_memory
+ * 
+ * Remove a memory from the memory://pinned resource
+ */
+
+import { resolveContextId } from "../context.js";
+import { setMemoryPinned } from "../operations.js";
+import { formatMemory } from "../format.js";
+
+export async function handleUnpinMemory(args: any) {
+  const { memory_id } = args;
+  const contextId = resolveContextId(args);
+
+  if (!memory_id) {
+    throw new Error("memory_id is required");
+  }
+
+  const memory = setMemoryPinned(memory_id, contextId, false);
+
+  if (!memory) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: false,
+              message: "Memory not found, in trash, archived, or does not belong to context",
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            memory: formatMemory(memory),
+            message: "Memory unpinned",
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -3,18 +3,18 @@
  * 
  * Update an existing memory with new text/tags and refresh facts
  * OR selectively add/remove tags without changing text
+ * 
+ * Both modes keep the previous version in memory_revisions (see revert_memory)
  */
 
-import config from "../config.js";
-import { db } from "../database.js";
-import { splitIntoFacts } from "../openai.js";
-import { embedder } from "../embeddings/factory.js";
-import { updateMemory, updateMemoryTags, deleteFactsForMemory, createFact } from "../operations.js";
+import { resolveContextId } from "../context.js";
+import { getMemory, updateMemoryTags } from "../operations.js";
+import { resolveFactTexts, replaceMemoryWithFacts } from "../pipeline.js";
 import { formatMemory, formatFact } from "../format.js";
-import type { Fact } from "../types.js";
 
 export async function handleUpdateMemory(args: any) {
   const { memory_id, text, context_tags, facts, add_tags, remove_tags } = args;
+  const contextId = resolveContextId(args);
 
   if (!memory_id) {
     throw new Error("memory_id is required");
@@ -27,7 +27,7 @@ export async function handleUpdateMemory(args: any) {
     // Tag-only update (efficient, no fact re-processing)
     const updatedMemory = updateMemoryTags(
       memory_id,
-      config.contextId,
+      contextId,
       add_tags as string[] | undefined,
       remove_tags as string[] | undefined
     );
@@ -79,19 +79,9 @@ export async function handleUpdateMemory(args: any) {
   const contextTags = (context_tags as string[]) || [];
   const manualFacts = facts as string[] | undefined;
 
-  // Check if manual facts are required
-  if (embedder.requiresManualFacts() && (!manualFacts || manualFacts.length === 0)) {
-    throw new Error(
-      "Manual facts are required when using local embedding mode. " +
-      "Provide a 'facts' array, or set OPENAI_API_KEY environment variable " +
-      "to enable automatic fact extraction."
-    );
-  }
-
-  // Update memory text and tags
-  const updatedMemory = updateMemory(memory_id, config.contextId, text, contextTags);
-
-  if (!updatedMemory) {
+  // Verify the memory exists before doing any LLM or embedding work
+  const existing = getMemory(memory_id);
+  if (!existing || existing.contextId !== contextId || existing.deletedAt) {
     return {
       content: [
         {
@@ -109,52 +99,29 @@ export async function handleUpdateMemory(args: any) {
     };
   }
 
-  // Delete old facts
-  deleteFactsForMemory(memory_id);
-
-  let newFacts: Fact[] = [];
-  let aiExtracted = false;
-
-  // Determine fact texts
-  let factTexts: string[];
-
-  if (manualFacts && manualFacts.length > 0) {
-    // Use manually provided facts
-    factTexts = manualFacts;
-    aiExtracted = false;
-  } else {
-    // Extract facts using LLM (only available with OpenAI)
-    factTexts = await splitIntoFacts(text);
-    aiExtracted = true;
-  }
-
-  // Embed all facts in batch
-  const embeddings = await embedder.embedBatch(factTexts);
-  const embeddingType = embedder.getType();
-
-  // Create new facts in transaction
-  const insertFacts = db.transaction(() => {
-    const facts: Fact[] = [];
-    for (let i = 0; i < factTexts.length; i++) {
-      const fact = createFact(memory_id, factTexts[i], embeddings[i], embeddingType);
-      facts.push(fact);
-    }
-    return facts;
-  });
+  const { factTexts, aiExtracted, extractor } = await resolveFactTexts(text, manualFacts);
 
-  newFacts = insertFacts();
+  // Snapshot the old version, then replace text, tags and facts in one transaction
+  const { memory: updatedMemory, facts: newFacts } = await replaceMemoryWithFacts(
+    memory_id,
+    contextId,
+    text,
+    contextTags,
+    factTexts
+  );
 
-  // Build response based on whether AI extraction was used
+  // Build response based on whether facts were extracted
   const response: any = {
     success: true,
     memory: formatMemory(updatedMemory),
     message: `Updated memory with ${newFacts.length} facts`,
   };
 
-  // Only include facts if AI extraction was used
+  // Only include facts if they were extracted automatically
   if (aiExtracted) {
     response.facts = newFacts.map(formatFact);
     response.ai_extracted = true;
+    response.fact_extractor = extractor;
   } else {
     response.facts_count = newFacts.length;
     response.ai_extracted = false;
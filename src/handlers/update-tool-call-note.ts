@@ -0,0 +1,93 @@
+/**
+ * Handler: update_tool_call_note
+ * 
+ * Correct a tool call note in place instead of deleting it and recording a
+ * new one, or share it with every context. Changing what it says counts as a
+ * fresh verification of the new text.
+ */
+
+import { resolveContextId } from "../context.js";
+import { embedder } from "../embeddings/factory.js";
+import { updateToolCallNote, getToolCallNote, addEmbeddingToToolCallNote, toolCallNoteText, TOOL_CALL_NOTE_SCOPES } from "../operations.js";
+import { formatToolCallNote } from "../format.js";
+
+export async function handleUpdateToolCallNote(args: any) {
+  const { note_id, scope, tool_name, note_type, content, parameters, error_message, success_pattern } = args;
+  const contextId = resolveContextId(args);
+  
+  if (!note_id) {
+    throw new Error("note_id is required");
+  }
+  
+  const reworded = [tool_name, note_type, content, parameters, error_message, success_pattern].some((value) => value !== undefined);
+  
+  if (!reworded && scope === undefined) {
+    throw new Error("Provide at least one of: scope, tool_name, note_type, content, parameters, error_message, success_pattern");
+  }
+  
+  if (scope !== undefined && !TOOL_CALL_NOTE_SCOPES.includes(scope)) {
+    throw new Error("scope must be: context or global");
+  }
+  
+  if (tool_name !== undefined && (typeof tool_name !== "string" || !tool_name.trim())) {
+    throw new Error("tool_name must be a non-empty string");
+  }
+  
+  if (note_type !== undefined && !["success", "failure", "pattern", "guideline"].includes(note_type)) {
+    throw new Error("note_type must be: success, failure, pattern, or guideline");
+  }
+  
+  if (content !== undefined && (typeof content !== "string" || !content.trim())) {
+    throw new Error("content must be a non-empty string");
+  }
+  
+  if (parameters !== undefined && (!Array.isArray(parameters) || parameters.some((p) => typeof p !== "string"))) {
+    throw new Error("parameters must be an array of strings (an empty array clears them)");
+  }
+  
+  // Empty strings and arrays clear the optional fields
+  const note = updateToolCallNote(contextId, note_id, {
+    scope,
+    toolName: tool_name,
+    noteType: note_type,
+    content,
+    parameters: parameters === undefined ? undefined : parameters.length > 0 ? parameters : null,
+    errorMessage: error_message === undefined ? undefined : error_message || null,
+    successPattern: success_pattern === undefined ? undefined : success_pattern || null,
+  });
+  
+  if (!note) {
+    const shared = getToolCallNote(contextId, note_id);
+    throw new Error(shared
+      ? `Note is a global note recorded in context '${shared.contextId}'; only that context can change or delete it`
+      : "Note not found or access denied");
+  }
+  
+  // Re-embed for search_tool_call_notes; without it the note is embedded on the next search
+  if (reworded) {
+    try {
+      addEmbeddingToToolCallNote(note.id, await embedder.embedText(toolCallNoteText(note)), embedder.getType());
+    } catch (error: any) {
+      console.error(`⚠️  Could not embed tool call note ${note.id} (${error.message})`);
+    }
+  }
+  
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: true,
+            note: formatToolCallNote(note),
+            message: reworded
+              ? "Tool call note updated - counters restart for the new text"
+              : "Tool call note scope updated",
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
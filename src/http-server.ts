@@ -0,0 +1,210 @@
+/**
+ * HTTP Transport
+ *
+ * Serves MCP over Streamable HTTP (POST/GET/DELETE /mcp), plus the legacy
+ * HTTP+SSE transport (GET /sse, POST /messages) for older clients.
+ *
+ * Every session gets its own Server instance from `createServer`; they all
+ * share the process-wide `db` singleton.
+ *
+ * With `auth` enabled every MCP request needs `Authorization: Bearer <token>`;
+ * the verified token is attached as `req.auth` and reaches tool handlers as
+ * `extra.authInfo`. /health stays open.
+ */
+
+import { createServer as createHttpServer } from "http";
+import type { IncomingMessage, ServerResponse } from "http";
+import { randomUUID } from "crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  createServer: () => Server;
+  health: () => object; // Extra fields for GET /health
+  auth?: {
+    enabled: () => boolean; // Checked per request, so minting the first token takes effect live
+    verify: (token: string) => AuthInfo | null;
+  };
+}
+
+export interface RunningHttpServer {
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+function sendJson(res: ServerResponse, status: number, body: object): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+/**
+ * Verify the bearer token and attach it to the request; sends 401 and
+ * returns false when auth is enabled and the token is missing or unknown
+ */
+function authenticate(req: IncomingMessage & { auth?: AuthInfo }, res: ServerResponse, options: HttpServerOptions): boolean {
+  if (!options.auth?.enabled()) {
+    return true;
+  }
+
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+  const auth = match ? options.auth.verify(match[1]) : null;
+  if (!auth) {
+    res.setHeader("WWW-Authenticate", `Bearer realm="mcp-local-memory"${match ? ', error="invalid_token"' : ""}`);
+    sendJsonRpcError(res, 401, match ? "Invalid or revoked token" : "Missing bearer token");
+    return false;
+  }
+
+  req.auth = auth;
+  return true;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Start the HTTP server and resolve once it is listening
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+
+  const openSession = async (transport: Session["transport"]) => {
+    const server = options.createServer();
+    await server.connect(transport);
+    return server;
+  };
+
+  /**
+   * Streamable HTTP: an initialize request without a session header opens a
+   * session; every later request must carry its mcp-session-id
+   */
+  const handleMcp = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    const server = await openSession(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  /**
+   * Legacy HTTP+SSE: GET /sse opens the event stream, POST /messages?sessionId= sends
+   */
+  const handleSse = async (res: ServerResponse) => {
+    const transport = new SSEServerTransport("/messages", res);
+    const server = await openSession(transport);
+    sessions.set(transport.sessionId, { server, transport });
+    res.on("close", () => sessions.delete(transport.sessionId));
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const session = sessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    try {
+      if (["/mcp", "/sse", "/messages"].includes(url.pathname) && !authenticate(req, res, options)) {
+        return;
+      }
+
+      if (url.pathname === "/mcp" && ["GET", "POST", "DELETE"].includes(req.method ?? "")) {
+        await handleMcp(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSse(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else if (url.pathname === "/health" && req.method === "GET") {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size, ...options.health() });
+      } else {
+        sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+      }
+    } catch (error: any) {
+      console.error(`HTTP ${req.method} ${url.pathname} failed:`, error.message);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, error.message);
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return {
+    url: `http://${options.host}:${options.port}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      for (const { server } of Array.from(sessions.values())) {
+        await server.close().catch(() => {});
+      }
+      sessions.clear();
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
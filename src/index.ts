@@ -12,7 +12,15 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { parseArgs } from "util";
 
 // Import handlers
 import { handleAddMemory } from "./handlers/add-memory.js";
@@ -20,19 +28,60 @@ import { handleUpdateMemory } from "./handlers/update-memory.js";
 import { handleSearchMemory } from "./handlers/search-memory.js";
 import { handleListMemories } from "./handlers/list-memories.js";
 import { handleGetContextTags } from "./handlers/get-tags.js";
+import { handleListEntities } from "./handlers/list-entities.js";
+import { handleGetEntity } from "./handlers/get-entity.js";
+import { handleFindDuplicates } from "./handlers/find-duplicates.js";
+import { handleSupersedeMemory } from "./handlers/supersede-memory.js";
+import { handleConsolidateMemories } from "./handlers/consolidate-memories.js";
+import { handlePinMemory } from "./handlers/pin-memory.js";
+import { handleUnpinMemory } from "./handlers/unpin-memory.js";
+import { handleLinkMemories } from "./handlers/link-memories.js";
+import { handleUnlinkMemories } from "./handlers/unlink-memories.js";
+import { handleListContexts } from "./handlers/list-contexts.js";
 import { handleGetMemory } from "./handlers/get-memory.js";
 import { handleDeleteMemory } from "./handlers/delete-memory.js";
+import { handleListTrash } from "./handlers/list-trash.js";
+import { handleRestoreMemory } from "./handlers/restore-memory.js";
+import { handlePurgeTrash } from "./handlers/purge-trash.js";
+import { handleGetMemoryHistory } from "./handlers/get-memory-history.js";
+import { handleRevertMemory } from "./handlers/revert-memory.js";
 import { handleSwitchEmbeddingMode } from "./handlers/switch-embedding-mode.js";
+import { handleRebuildVectorIndex } from "./handlers/rebuild-vector-index.js";
+import { handleRebuildEntityIndex } from "./handlers/rebuild-entity-index.js";
+import { handleExportMemories } from "./handlers/export-memories.js";
+import { handleImportMemories } from "./handlers/import-memories.js";
+import { handleQueryAuditLog } from "./handlers/query-audit-log.js";
 import { handleGetToolCallNotes } from "./handlers/get-tool-call-notes.js";
+import { handleSearchToolCallNotes } from "./handlers/search-tool-call-notes.js";
 import { handleRecordToolCallNote } from "./handlers/record-tool-call-note.js";
 import { handleDeleteToolCallNote } from "./handlers/delete-tool-call-note.js";
+import { handleUpdateToolCallNote } from "./handlers/update-tool-call-note.js";
+import { handleConfirmToolCallNote } from "./handlers/confirm-tool-call-note.js";
+import { handleRefuteToolCallNote } from "./handlers/refute-tool-call-note.js";
 import { getCurrentMode } from "./embeddings/factory.js";
 import { LocalEmbedder } from "./embeddings/local-embedder.js";
-import { getToolCallNoteStats } from "./operations.js";
+import { EMBEDDING_CONFIGS } from "./embeddings/registry.js";
+import { getToolCallNoteStats, purgeTrash } from "./operations.js";
+import { watchVault, formatSyncResult } from "./vault-sync.js";
+import { startHttpServer } from "./http-server.js";
+import { recordToolCall, purgeExpiredAuditLog } from "./audit.js";
+import { listResources, listResourceTemplates, readResource } from "./resources.js";
+import { listPrompts, getPrompt } from "./prompts.js";
+import {
+  isAuthEnabled,
+  verifyToken,
+  withAuth,
+  hasScope,
+  requiredScope,
+  assertToolAllowed,
+  assertReadAllowed,
+  AuthorizationError,
+} from "./auth.js";
+import type { RunningHttpServer } from "./http-server.js";
 import config from "./config.js";
 
 // Initialize database (side effect: creates schema if needed)
-import "./database.js";
+import { closeDatabase } from "./database.js";
 
 // ============================================================================
 // Helper Functions
@@ -45,8 +94,8 @@ import "./database.js";
 function checkDownloadProgress(): { isDownloading: boolean; message?: string } {
   const currentMode = getCurrentMode();
   
-  // Only check for local modes
-  if (!currentMode || !currentMode.startsWith('local')) {
+  // Only check for in-process (transformers.js) models
+  if (!currentMode || EMBEDDING_CONFIGS[currentMode]?.provider !== 'transformers') {
     return { isDownloading: false };
   }
   
@@ -85,28 +134,104 @@ function checkDownloadProgress(): { isDownloading: boolean; message?: string } {
 // MCP Server Setup
 // ============================================================================
 
-const server = new Server(
-  {
-    name: "mcp-local-memory",
-    version: "2.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
+/**
+ * Create an MCP server with all tool handlers registered
+ * stdio uses one; HTTP creates one per session (all share the db singleton)
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "mcp-local-memory",
+      version: "2.0.0",
     },
-  }
-);
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+    callTool(request, extra, server.getClientVersion()?.name)
+  );
+
+  // Resources and prompts are read-only: any token with the read scope, limited to its contexts
+  server.setRequestHandler(ListResourcesRequestSchema, (_request, extra) =>
+    withReadAuth(extra, "resources", listResources)
+  );
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, (_request, extra) =>
+    withReadAuth(extra, "resources", listResourceTemplates)
+  );
+  server.setRequestHandler(ReadResourceRequestSchema, (request, extra) =>
+    withReadAuth(extra, "resources", () => readResource(request.params.uri))
+  );
+  server.setRequestHandler(ListPromptsRequestSchema, (_request, extra) =>
+    withReadAuth(extra, "prompts", listPrompts)
+  );
+  server.setRequestHandler(GetPromptRequestSchema, (request, extra) =>
+    withReadAuth(extra, "prompts", () => getPrompt(request.params.name, request.params.arguments))
+  );
+
+  return server;
+}
+
+function withReadAuth<T>(extra: HandlerExtra | undefined, what: "resources" | "prompts", fn: () => T): T {
+  assertReadAllowed(extra?.authInfo, what);
+  return withAuth(extra?.authInfo, fn);
+}
 
 // ============================================================================
 // Tool Definitions
 // ============================================================================
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+/** Optional context override accepted by every memory and note tool */
+const CONTEXT_ID_PROPERTY = {
+  type: "string",
+  description: "Context to use (see list_contexts). Default: this server's context",
+};
+
+/** Request context the SDK passes to handlers; authInfo is set for authenticated HTTP requests */
+interface HandlerExtra {
+  authInfo?: AuthInfo;
+  sessionId?: string;
+}
+
+/**
+ * Tool names (and patterns) with notes grouped by the server they likely come
+ * from: the part before the first '-', '_', '.' or ':' ('mcp__server__' for
+ * mcp__server__tool names), most notes first
+ */
+function groupNoteStats(stats: Array<{ toolName: string; count: number }>): string[] {
+  const groups = new Map<string, Array<{ toolName: string; count: number }>>();
+  for (const stat of stats) {
+    const prefix = stat.toolName.startsWith("mcp__")
+      ? `${stat.toolName.split("__").slice(0, 2).join("__")}__`
+      : stat.toolName.split(/[-_.:*?[]/)[0] || stat.toolName;
+    groups.set(prefix, [...(groups.get(prefix) ?? []), stat]);
+  }
+
+  const notes = (count: number) => `${count} ${count === 1 ? 'note' : 'notes'}`;
+  return [...groups.entries()]
+    .map(([prefix, tools]) => ({ prefix, tools, total: tools.reduce((sum, tool) => sum + tool.count, 0) }))
+    .sort((a, b) => b.total - a.total || a.prefix.localeCompare(b.prefix))
+    .map(({ prefix, tools, total }) =>
+      tools.length === 1
+        ? `${tools[0].toolName} (${notes(total)})`
+        : `${prefix}* (${notes(total)}): ${tools.map((tool) => `${tool.toolName} ${tool.count}`).join(", ")}`
+    );
+}
+
+async function listTools(_request: unknown, extra?: HandlerExtra) {
+  const embeddingModes = Object.values(EMBEDDING_CONFIGS);
+
   const tools = [
       {
         name: "add_memory",
         description:
-          "Store a new memory. Memories are broken into searchable 'facts' (atomic statements). Context tags organize memories by topic/project - check get_context_tags for existing tags. Provide facts manually for control, or omit to let AI extract them (extracted facts returned for review).",
+          "Store a new memory. Memories are broken into searchable 'facts' (atomic statements). Context tags organize memories by topic/project - check get_context_tags for existing tags. Provide facts manually for control, or omit to have them extracted automatically (extracted facts returned for review). If similar memories already exist they are returned instead of adding a duplicate - see on_duplicate. New facts that likely contradict existing ones are flagged in possible_contradictions - pass supersedes (or call supersede_memory) when the new memory replaces outdated ones.",
         inputSchema: {
           type: "object",
           properties: {
@@ -122,8 +247,23 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             facts: {
               type: "array",
               items: { type: "string" },
-              description: "Optional: Manually specify facts. If omitted, AI extracts them automatically.",
+              description: "Optional: Manually specify facts. If omitted, they are extracted automatically.",
+            },
+            on_duplicate: {
+              type: "string",
+              enum: ["reject", "merge", "force"],
+              description: `What to do when existing memories have facts this similar (>= ${config.duplicates.threshold}): 'reject' returns them and adds nothing, 'merge' adds only the new facts to the closest one, 'force' adds a separate memory. Default: '${config.duplicates.defaultPolicy}'.`,
+            },
+            merge_into: {
+              type: "string",
+              description: "With on_duplicate 'merge': ID of the memory to merge into (e.g. a candidate from a rejected call). Default: the most similar memory.",
+            },
+            supersedes: {
+              type: "array",
+              items: { type: "string" },
+              description: "IDs of outdated memories this one replaces (e.g. from possible_contradictions). They stay stored but rank lower in search and point to this memory.",
             },
+            context_id: CONTEXT_ID_PROPERTY,
           },
           required: ["text"],
         },
@@ -131,7 +271,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: "update_memory",
         description:
-          "Update existing memory. Two modes: (1) Full update - provide 'text' to replace memory content and regenerate facts. (2) Tag-only update - provide 'add_tags' or 'remove_tags' to modify tags without reprocessing facts (efficient, no LLM call). For full updates, provide facts manually or let AI extract them.",
+          "Update existing memory. Two modes: (1) Full update - provide 'text' to replace memory content and regenerate facts. (2) Tag-only update - provide 'add_tags' or 'remove_tags' to modify tags without reprocessing facts (efficient, no LLM call). For full updates, provide facts manually or let them be extracted automatically.",
         inputSchema: {
           type: "object",
           properties: {
@@ -151,7 +291,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             facts: {
               type: "array",
               items: { type: "string" },
-              description: "Optional: Manually specify facts for full update. If omitted, AI extracts automatically.",
+              description: "Optional: Manually specify facts for full update. If omitted, they are extracted automatically.",
             },
             add_tags: {
               type: "array",
@@ -163,6 +303,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               items: { type: "string" },
               description: "Tags to remove from existing tags (tag-only update). Efficient - no fact reprocessing.",
             },
+            context_id: CONTEXT_ID_PROPERTY,
           },
           required: ["memory_id"],
         },
@@ -170,7 +311,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: "search_memory",
         description:
-          "Semantic search through memories. Primary retrieval method - understands meaning, not just keywords. Tags provide soft boost (not filter) - all memories are searched, but tag matches rank higher. Case-insensitive partial matching. Use tags freely to guide relevance.",
+          "Semantic search through memories. Primary retrieval method - understands meaning, not just keywords. Tags provide soft boost (not filter) - all memories are searched, but tag matches rank higher. Case-insensitive partial matching. Use tags freely to guide relevance. " +
+          "For strict scoping (e.g. 'only project-x since March') use require_tags, exclude_tags, created_after/created_before, updated_after or memory_ids. " +
+          "Use mode 'hybrid' or 'keyword' when the query contains exact strings (ticket IDs, error codes, function names). " +
+          "Superseded (outdated) memories rank lower and show the memory that replaced them in replaced_by.",
         inputSchema: {
           type: "object",
           properties: {
@@ -187,6 +331,58 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "number",
               description: "Max results. Default: 10.",
             },
+            mode: {
+              type: "string",
+              enum: ["semantic", "keyword", "hybrid"],
+              description: "'semantic' (meaning, default), 'keyword' (exact words/identifiers, BM25), 'hybrid' (both combined). Each fact reports which signals matched it.",
+            },
+            require_tags: {
+              type: "array",
+              items: { type: "string" },
+              description: "Hard filter: only memories having ALL of these tags (case-insensitive, exact tag). Combines with context_tags boosting.",
+            },
+            exclude_tags: {
+              type: "array",
+              items: { type: "string" },
+              description: "Hard filter: skip memories having ANY of these tags (case-insensitive, exact tag).",
+            },
+            created_after: {
+              type: "string",
+              description: "Hard filter: only memories created at or after this ISO 8601 date (e.g. '2025-03-01').",
+            },
+            created_before: {
+              type: "string",
+              description: "Hard filter: only memories created before this ISO 8601 date.",
+            },
+            updated_after: {
+              type: "string",
+              description: "Hard filter: only memories updated at or after this ISO 8601 date.",
+            },
+            memory_ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Hard filter: search only within these memory IDs.",
+            },
+            entities: {
+              type: "array",
+              items: { type: "string" },
+              description: "Hard filter: only memories mentioning ALL of these entities (name or alias, case-insensitive; see list_entities).",
+            },
+            superseded: {
+              type: "string",
+              enum: ["downrank", "hide", "include"],
+              description: `How to treat memories replaced by newer ones: 'downrank' (score x${config.superseded.weight}), 'hide', or 'include' at full score. Default: '${config.superseded.search}'.`,
+            },
+            expand_links: {
+              type: "number",
+              description: "Also return the memories linked to the results (link_memories) up to this many hops away, as linked_memories. Default: 0. Max: 2.",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+            context_ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Search several contexts at once (['*'] = all allowed contexts). Each result is labelled with its context_id",
+            },
           },
           required: ["query"],
         },
@@ -207,259 +403,824 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "number",
               description: "Max memories. Default: 50. Keep low - search is more efficient for specific needs.",
             },
+            context_id: CONTEXT_ID_PROPERTY,
           },
         },
       },
       {
-        name: "get_context_tags",
-        description: "Discover available topics/projects with metadata. Returns each tag with: memory count, first memory date (earliest), last memory date (most recent). Call this first if unsure which tags to use. Tags narrow vague queries and improve results.",
+        name: "find_duplicates",
+        description:
+          "Find groups of memories that repeat each other (every fact of one has a near-identical fact in another), for cleanup. Returns clusters with pairwise similarities; nothing is changed.",
         inputSchema: {
           type: "object",
           properties: {
-            regex: {
+            threshold: {
+              type: "number",
+              description: `Minimum fact similarity (0-1). Default: ${config.duplicates.threshold}. Lower finds looser paraphrases.`,
+            },
+            tags: {
+              type: "array",
+              items: { type: "string" },
+              description: "Only compare memories having all of these tags",
+            },
+            created_after: {
               type: "string",
-              description: "Use when checking existense of specific tag(s). Use regex to check for partial matches. Examples: '(?i)deploy' (case-insensitive 'deploy'), '(?i)(js|javascript)' (JS-related), '^test' (starts with 'test'). This helps narrow down a large tag list.",
+              description: "Only compare memories created at or after this ISO 8601 date",
             },
+            limit: {
+              type: "number",
+              description: "Max clusters. Default: 20.",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
           },
         },
       },
       {
-        name: "get_memory",
-        description: "Retrieve a specific memory by its ID. Useful for referencing exact memories (e.g., pinned SOPs, user-mentioned IDs, or memories from previous search results). Returns the complete memory with all its facts.",
+        name: "consolidate_memories",
+        description:
+          "Merge many small overlapping memories (e.g. everything tagged 'project-xyz') into fewer ones. Action 'propose' (default) groups related memories by similarity and returns a merged text, combined tags and deduplicated facts per group; nothing changes. Action 'apply' creates the merged memory for one proposal and archives its originals (hidden from search, linked to the merged memory, still readable with get_memory).",
         inputSchema: {
           type: "object",
           properties: {
-            memory_id: {
+            action: {
               type: "string",
-              description: "Memory ID (from search_memory, list_memories, or user-provided)",
+              enum: ["propose", "apply"],
+              description: "'propose' (default) or 'apply'",
+            },
+            tags: {
+              type: "array",
+              items: { type: "string" },
+              description: "propose: only memories having any of these tags",
+            },
+            created_after: {
+              type: "string",
+              description: "propose: only memories created at or after this ISO 8601 date",
+            },
+            created_before: {
+              type: "string",
+              description: "propose: only memories created before this ISO 8601 date",
+            },
+            threshold: {
+              type: "number",
+              description: `propose: minimum topic similarity (0-1) for memories to be grouped. Default: ${config.consolidation.threshold}. Lower makes larger groups.`,
+            },
+            limit: {
+              type: "number",
+              description: "propose: max proposals. Default: 10.",
+            },
+            memory_ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "apply: the memories to merge (a proposal's memory_ids)",
+            },
+            text: {
+              type: "string",
+              description: "apply: text of the merged memory. Default: a new proposal for memory_ids - pass the reviewed proposal's text to keep it.",
+            },
+            context_tags: {
+              type: "array",
+              items: { type: "string" },
+              description: "apply: tags of the merged memory. Default: all tags of the originals.",
+            },
+            facts: {
+              type: "array",
+              items: { type: "string" },
+              description: "apply: facts of the merged memory. Default: the originals' facts without near-duplicates.",
             },
+            context_id: CONTEXT_ID_PROPERTY,
           },
-          required: ["memory_id"],
         },
       },
       {
-        name: "delete_memory",
-        description: "Permanently delete a memory and all its facts. Cannot be recovered.",
+        name: "pin_memory",
+        description:
+          "Pin a memory that must be in every conversation (standing instructions, SOPs). Pinned memories are served as the MCP resource memory://pinned, which clients can attach automatically.",
         inputSchema: {
           type: "object",
           properties: {
             memory_id: {
               type: "string",
-              description: "ID of memory to delete (from list_memories or search_memory)",
+              description: "ID of the memory to pin",
             },
+            context_id: CONTEXT_ID_PROPERTY,
           },
           required: ["memory_id"],
         },
       },
       {
-        name: "switch_embedding_mode",
-        description: 
-          "Switch between embedding modes. ONLY use if: (1) user explicitly requests it, OR (2) OpenAI API fails (quota/auth error). " +
-          "Available modes: 'openai' (requires API key, auto fact extraction), 'local_english' (~120MB download, manual facts only), " +
-          "'local_multilingual' (~130MB download, manual facts only, default for local). " +
-          "\n\n**Smart switching:** Only creates embeddings for facts that don't have them in the target mode. " +
-          "If switching back to a previously used mode (e.g., OpenAI → Local → OpenAI), existing embeddings are reused. " +
-          "Response includes count of missing embeddings and estimated time (typically < 1 minute for a few hundred facts). " +
-          "\n\nFirst use of local modes downloads model (1-3 min). All existing memories remain accessible.",
+        name: "unpin_memory",
+        description: "Remove a memory from the pinned set (memory://pinned). The memory itself is kept.",
         inputSchema: {
           type: "object",
           properties: {
-            mode: {
+            memory_id: {
               type: "string",
-              enum: ["openai", "local_english", "local_multilingual"],
-              description: "Target mode: 'openai' (API-based), 'local_english' (offline, English only), 'local_multilingual' (offline, supports 50+ languages)",
+              description: "ID of the memory to unpin",
             },
+            context_id: CONTEXT_ID_PROPERTY,
           },
-          required: ["mode"],
+          required: ["memory_id"],
         },
       },
-    ];
-
-  // Conditionally add tool call notes tools
-  if (config.enableToolCallNotes) {
-    // Build dynamic description with available tool notes
-    let getNotesDescription = "🔍 ESSENTIAL: Query before making ANY tool call you're uncertain about! This prevents repeating failures and saves time by leveraging previous learnings.";
-    
-    try {
-      const noteStats = getToolCallNoteStats(config.contextId);
-      if (noteStats.length > 0) {
-        getNotesDescription += "\n\n📊 **Notes available for:**";
-        noteStats.forEach(stat => {
-          getNotesDescription += `\n  • ${stat.toolName} (${stat.count} ${stat.count === 1 ? 'note' : 'notes'})`;
-        });
-        getNotesDescription += "\n\nCheck these before calling! This builds your expertise over time.";
-      } else {
-        getNotesDescription += "\n\nUse when: unsure about parameters, tool previously failed, or want to check best practices. This builds your expertise over time!";
-      }
-    } catch (error) {
-      // Fallback to basic description if query fails
-      getNotesDescription += "\n\nUse when: unsure about parameters, tool previously failed, or want to check best practices. This builds your expertise over time!";
-    }
-    
-    tools.push(
       {
-        name: "get_tool_call_notes",
-        description: getNotesDescription,
+        name: "supersede_memory",
+        description:
+          "Mark a memory as outdated and replaced by a newer one (e.g. 'uses Postgres' replaced by 'moved to MySQL'). The old memory is kept, ranks lower in search and points to its replacement. Use clear to mark it current again.",
         inputSchema: {
           type: "object",
           properties: {
-            tool_name: {
+            memory_id: {
               type: "string",
-              description: "Tool name to query notes for (e.g., 'jira-sse-add_comment', 'github-create-issue')",
+              description: "ID of the outdated memory",
             },
-            note_type: {
+            superseded_by: {
               type: "string",
-              enum: ["success", "failure", "pattern", "guideline", "all"],
-              description: "Filter by note type. Use 'failure' to avoid mistakes, 'success' for working patterns, 'all' for complete picture. Default: 'all'",
+              description: "ID of the memory that replaces it",
             },
-            limit: {
-              type: "number",
-              description: "Max results. Default: 10.",
+            clear: {
+              type: "boolean",
+              description: "Remove the replacement instead, marking the memory current again",
             },
+            context_id: CONTEXT_ID_PROPERTY,
           },
-          required: ["tool_name"],
+          required: ["memory_id"],
         },
-      } as any,
+      },
       {
-        name: "record_tool_call_note",
+        name: "link_memories",
         description:
-          "📝 CRITICAL: Record tool-specific learnings after failures/successes or user feedback about HOW to use a specific tool. For general knowledge, use add_memory instead.\n\n" +
-          "**Record here (tool-specific):**\n" +
-          "• 'jira-create-issue: Use project=\"GSO\", issuetype=\"Task\", assignee field is \"assignee.emailAddress\"'\n" +
-          "• 'run-command: Git commands need --no-pager flag for clean output'\n" +
-          "• 'web-search: Always include year in query (e.g., \"typescript best practices 2024\")'\n" +
-          "• 'add-comment: User prefers concise technical style, no pleasantries, use bullet points'\n\n" +
-          "**Use add_memory for:** General preferences, project details, or knowledge not tied to specific tool usage.\n\n" +
-          "Types: 'failure' (errors), 'success' (working patterns), 'pattern' (recurring behaviors), 'guideline' (user feedback on style/format).",
+          "Link one memory to another with a typed, directed relation, e.g. a decision depends_on a constraint, or a bug note relates_to a runbook. get_memory (link_depth) and search_memory (expand_links) follow links in both directions.",
         inputSchema: {
           type: "object",
           properties: {
-            tool_name: {
+            source_id: {
               type: "string",
-              description: "Tool name (e.g., 'jira-sse-add_comment', 'github-create-issue')",
+              description: "ID of the memory the link starts from",
             },
-            note_type: {
+            target_id: {
               type: "string",
-              enum: ["success", "failure", "pattern", "guideline"],
-              description: "Type: 'failure' for errors/what went wrong, 'success' for working patterns, 'pattern' for recurring behaviors, 'guideline' for best practices",
+              description: "ID of the memory the link points to",
             },
-            content: {
+            relation: {
               type: "string",
-              description: "Clear, specific note about what you learned (e.g., 'Use comment parameter, not content', 'Requires authentication header')",
+              enum: ["relates_to", "depends_on", "supersedes", "derived_from"],
+              description: "source <relation> target. Default: 'relates_to'. A 'supersedes' link is informational; use supersede_memory to also rank the old memory lower.",
             },
-            parameters: {
-              type: "array",
-              items: { type: "string" },
-              description: "Parameter names involved (e.g., ['comment', 'issueKey'], ['authorization', 'content'])",
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["source_id", "target_id"],
+        },
+      },
+      {
+        name: "unlink_memories",
+        description: "Remove the links from one memory to another. Both memories are kept.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            source_id: {
+              type: "string",
+              description: "ID of the memory the link starts from",
             },
-            error_message: {
+            target_id: {
               type: "string",
-              description: "For failures: exact error message received",
+              description: "ID of the memory the link points to",
             },
-            success_pattern: {
+            relation: {
               type: "string",
-              description: "For successes: what combination worked (e.g., 'comment + issueKey + auth header')",
+              enum: ["relates_to", "depends_on", "supersedes", "derived_from"],
+              description: "Only remove this relation. Default: every relation from source to target.",
             },
+            context_id: CONTEXT_ID_PROPERTY,
           },
-          required: ["tool_name", "note_type", "content"],
+          required: ["source_id", "target_id"],
         },
-      } as any,
+      },
       {
-        name: "delete_tool_call_note",
-        description:
-          "🗑️ Clean up outdated or incorrect tool notes to maintain accurate knowledge base. Use when: information becomes obsolete, tool API changes, or you want to replace notes with better ones (delete old, add new). Prevents knowledge pollution!",
+        name: "list_contexts",
+        description: "List the contexts (separate memory spaces, e.g. 'work', 'personal') this server may use, with memory counts and last activity. Pass a context_id to other tools to use a context other than the default.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "get_context_tags",
+        description: "Discover available topics/projects with metadata. Returns each tag with: memory count, first memory date (earliest), last memory date (most recent). Call this first if unsure which tags to use. Tags narrow vague queries and improve results.",
         inputSchema: {
           type: "object",
           properties: {
-            note_id: {
+            regex: {
               type: "string",
-              description: "ID of note to delete (from get_tool_call_notes response)",
+              description: "Use when checking existense of specific tag(s). Use regex to check for partial matches. Examples: '(?i)deploy' (case-insensitive 'deploy'), '(?i)(js|javascript)' (JS-related), '^test' (starts with 'test'). This helps narrow down a large tag list.",
             },
+            context_id: CONTEXT_ID_PROPERTY,
           },
-          required: ["note_id"],
         },
-      } as any
-    );
-  }
-
-  return { tools };
-});
-
-// ============================================================================
-// Tool Handlers
-// ============================================================================
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  if (!args) {
-    throw new Error("Arguments are required");
-  }
-
-  // Check if local embedding model is downloading (only for operations that need embeddings)
-  const operationsThatNeedEmbeddings = ['add_memory', 'update_memory', 'search_memory'];
-  if (operationsThatNeedEmbeddings.includes(name)) {
-    const downloadCheck = checkDownloadProgress();
-    if (downloadCheck.isDownloading) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: downloadCheck.message!,
+      },
+      {
+        name: "list_entities",
+        description: "List the named entities (people, services, repos, projects, ...) that memories mention, most mentioned first, with their aliases. Use to find the exact name for get_entity or search_memory's entities filter.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["person", "organization", "project", "service", "repo", "tool", "place", "other"],
+              description: "Only entities of this type",
+            },
+            query: {
+              type: "string",
+              description: "Only entities with a name or alias containing this (case-insensitive)",
+            },
+            limit: {
+              type: "number",
+              description: "Max entities. Default: 50.",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
           },
-        ],
-      };
-    }
-  }
-
-  try {
-    switch (name) {
-      case "add_memory":
-        return await handleAddMemory(args);
-
-      case "update_memory":
-        return await handleUpdateMemory(args);
-
-      case "search_memory":
-        return await handleSearchMemory(args);
-
-      case "list_memories":
-        return await handleListMemories(args);
-
-      case "get_context_tags":
-        return await handleGetContextTags(args);
-
-      case "get_memory":
-        return await handleGetMemory(args);
-
-      case "delete_memory":
-        return await handleDeleteMemory(args);
-
-      case "switch_embedding_mode":
-        return await handleSwitchEmbeddingMode(args);
-
-      case "get_tool_call_notes":
-        if (!config.enableToolCallNotes) {
-          throw new Error("Tool call notes are disabled");
-        }
-        return await handleGetToolCallNotes(args);
-
-      case "record_tool_call_note":
-        if (!config.enableToolCallNotes) {
-          throw new Error("Tool call notes are disabled");
-        }
-        return await handleRecordToolCallNote(args);
+        },
+      },
+      {
+        name: "get_entity",
+        description: "Every memory mentioning a person, service, repo, ... by name or alias, with the facts that mention it. Exact name recall where semantic search is fuzzy.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description: "Entity name or alias (case-insensitive), e.g. 'billing-api' or 'Alice Smith'",
+            },
+            limit: {
+              type: "number",
+              description: "Max memories. Default: 50.",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["name"],
+        },
+      },
+      {
+        name: "get_memory",
+        description: "Retrieve a specific memory by its ID. Useful for referencing exact memories (e.g., pinned SOPs, user-mentioned IDs, or memories from previous search results). Returns the complete memory with all its facts.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            memory_id: {
+              type: "string",
+              description: "Memory ID (from search_memory, list_memories, or user-provided)",
+            },
+            link_depth: {
+              type: "number",
+              description: "Also return memories linked to this one (link_memories) up to this many hops away, in both directions. Default: 0 (direct links are always listed). Max: 3.",
+            },
+            link_relations: {
+              type: "array",
+              items: { type: "string", enum: ["relates_to", "depends_on", "supersedes", "derived_from"] },
+              description: "Only follow these relations. Default: all.",
+            },
+          },
+          required: ["memory_id"],
+        },
+      },
+      {
+        name: "get_memory_history",
+        description: "List all versions of a memory (current first), with text, tags and facts of each. Every update_memory call keeps the previous version. Use before revert_memory.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            memory_id: {
+              type: "string",
+              description: "Memory ID",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["memory_id"],
+        },
+      },
+      {
+        name: "revert_memory",
+        description: "Restore a memory's text, tags and facts from an earlier version (see get_memory_history). Use when an update lost or corrupted information. The replaced version stays in history, so a revert can itself be undone.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            memory_id: {
+              type: "string",
+              description: "Memory ID",
+            },
+            version: {
+              type: "number",
+              description: "Version number to restore (from get_memory_history)",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["memory_id", "version"],
+        },
+      },
+      {
+        name: "delete_memory",
+        description: "Move a memory and its facts to trash. It disappears from search, lists and tags, but can be brought back with restore_memory until the trash is purged.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            memory_id: {
+              type: "string",
+              description: "ID of memory to delete (from list_memories or search_memory)",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["memory_id"],
+        },
+      },
+      {
+        name: "list_trash",
+        description: "List deleted memories still in trash (most recently deleted first). Use to find a memory deleted by mistake.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "number",
+              description: "Max memories. Default: 50.",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+        },
+      },
+      {
+        name: "restore_memory",
+        description: "Restore a deleted memory from trash, with all its facts.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            memory_id: {
+              type: "string",
+              description: "ID of memory to restore (from list_trash)",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["memory_id"],
+        },
+      },
+      {
+        name: "purge_trash",
+        description: "Permanently delete memories in trash. Cannot be undone. ONLY use if the user explicitly asks. Omit both arguments to empty the whole trash.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            memory_id: {
+              type: "string",
+              description: "Purge only this memory",
+            },
+            older_than_days: {
+              type: "number",
+              description: "Purge only memories deleted more than this many days ago",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+        },
+      },
+      {
+        name: "switch_embedding_mode",
+        description: 
+          "Switch between embedding modes. ONLY use if: (1) user explicitly requests it, OR (2) the current provider fails (quota/auth/connection error). " +
+          `Available modes: ${embeddingModes.map((m) => `'${m.id}' (${m.description ?? `${m.provider}: ${m.model}`})`).join(", ")}. ` +
+          "\n\n**Smart switching:** Only creates embeddings for facts that don't have them in the target mode. " +
+          "If switching back to a previously used mode (e.g., OpenAI → Local → OpenAI), existing embeddings are reused. " +
+          "Response includes count of missing embeddings and estimated time (typically < 1 minute for a few hundred facts). " +
+          "\n\nFirst use of local modes downloads model (1-3 min). All existing memories remain accessible.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            mode: {
+              type: "string",
+              enum: embeddingModes.map((m) => m.id),
+              description: "Target mode (an embedding model registered on this server)",
+            },
+          },
+          required: ["mode"],
+        },
+      },
+      {
+        name: "rebuild_vector_index",
+        description:
+          "Rebuild the approximate search index (IVF) for an embedding mode. ONLY use if the user asks, or search has become slow on a large store. " +
+          "Without an index, search scans every fact exactly. New facts are added to an existing index automatically, " +
+          "but rebuilding after large imports or many changes keeps results accurate.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            mode: {
+              type: "string",
+              enum: embeddingModes.map((m) => m.id),
+              description: "Embedding mode to index. Default: current mode.",
+            },
+          },
+        },
+      },
+      {
+        name: "rebuild_entity_index",
+        description:
+          "Re-extract the entities mentioned by every fact in a context. ONLY use if the user asks: after enabling entity extraction, switching it to 'llm' (one LLM call per memory), or importing memories.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+        },
+      },
+      {
+        name: "export_memories",
+        description:
+          "Export memories (including trash), facts, tags and tool call notes to a portable JSONL file for backup or moving to another machine. " +
+          "ONLY use if the user asks. Vectors are left out by default since they are tied to the embedding model.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: "Output file name inside the exports/ folder next to the database (no absolute paths or '..'). Default: memories-<contexts>-<timestamp>.jsonl",
+            },
+            context_ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Contexts to export (['*'] = all allowed contexts). Default: current context",
+            },
+            all_contexts: {
+              type: "boolean",
+              description: "Export every context (overrides context_ids)",
+            },
+            include_vectors: {
+              type: "boolean",
+              description: "Include stored embeddings so the import does not need to re-embed. Default: false",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+        },
+      },
+      {
+        name: "import_memories",
+        description:
+          "Import a JSONL file created by export_memories. ONLY use if the user asks. " +
+          "Facts without a vector for the current embedding mode are embedded before anything is written.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: "JSONL export file to import, as a name inside the exports/ folder next to the database (the 'path' export_memories returned)",
+            },
+            on_conflict: {
+              type: "string",
+              enum: ["skip", "overwrite", "remap"],
+              description: "When an ID already exists: 'skip' keeps the existing record, 'overwrite' replaces it, 'remap' imports under a new ID. Default: 'skip'",
+            },
+            context_id: {
+              type: "string",
+              description: "Import everything into this context instead of the contexts stored in the file",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "query_audit_log",
+        description: "List recorded tool calls (newest first) with redacted arguments, touched memories, outcome and duration. Use to find out who changed or deleted a memory, or with summary=true to see which tools fail most.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tool_name: {
+              type: "string",
+              description: "Only calls to this tool",
+            },
+            memory_id: {
+              type: "string",
+              description: "Only calls that touched this memory",
+            },
+            client_id: {
+              type: "string",
+              description: "Only calls from this client (token name or MCP client name)",
+            },
+            status: {
+              type: "string",
+              enum: ["success", "error", "all"],
+              description: "Filter by outcome. Default: 'all'",
+            },
+            since: {
+              type: "string",
+              description: "Only calls at or after this ISO 8601 date/time",
+            },
+            until: {
+              type: "string",
+              description: "Only calls before this ISO 8601 date/time",
+            },
+            summary: {
+              type: "boolean",
+              description: "Return calls, errors and latency per tool instead of entries. Default: false",
+            },
+            limit: {
+              type: "number",
+              description: "Max entries. Default: 50.",
+            },
+            offset: {
+              type: "number",
+              description: "Entries to skip, for paging. Default: 0.",
+            },
+            context_id: {
+              type: "string",
+              description: "Only calls made in this context. Default: all contexts",
+            },
+          },
+        },
+      },
+    ];
 
-      case "delete_tool_call_note":
-        if (!config.enableToolCallNotes) {
-          throw new Error("Tool call notes are disabled");
-        }
-        return await handleDeleteToolCallNote(args);
+  // Conditionally add tool call notes tools
+  if (config.enableToolCallNotes) {
+    // Build dynamic description with available tool notes
+    let getNotesDescription = "🔍 ESSENTIAL: Query before making ANY tool call you're uncertain about! This prevents repeating failures and saves time by leveraging previous learnings.";
+    
+    try {
+      const noteStats = getToolCallNoteStats(config.contextId);
+      if (noteStats.length > 0) {
+        getNotesDescription += "\n\n📊 **Notes available for:**";
+        groupNoteStats(noteStats).forEach(line => {
+          getNotesDescription += `\n  • ${line}`;
+        });
+        getNotesDescription += "\n\nCheck these before calling! This builds your expertise over time.";
+      } else {
+        getNotesDescription += "\n\nUse when: unsure about parameters, tool previously failed, or want to check best practices. This builds your expertise over time!";
+      }
+    } catch (error) {
+      // Fallback to basic description if query fails
+      getNotesDescription += "\n\nUse when: unsure about parameters, tool previously failed, or want to check best practices. This builds your expertise over time!";
+    }
+    
+    tools.push(
+      {
+        name: "get_tool_call_notes",
+        description: getNotesDescription,
+        inputSchema: {
+          type: "object",
+          properties: {
+            tool_name: {
+              type: "string",
+              description: "Tool name to query notes for (e.g., 'jira-sse-add_comment'). Also returns notes recorded for a matching pattern ('jira-*') and global notes. A pattern here ('jira-*') returns the notes of every matching tool",
+            },
+            note_type: {
+              type: "string",
+              enum: ["success", "failure", "pattern", "guideline", "all"],
+              description: "Filter by note type. Use 'failure' to avoid mistakes, 'success' for working patterns, 'all' for complete picture. Default: 'all'",
+            },
+            limit: {
+              type: "number",
+              description: "Max results, best first (confirmed and recently verified notes rank higher; refuted and stale ones are flagged). Default: 10.",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["tool_name"],
+        },
+      } as any,
+      {
+        name: "search_tool_call_notes",
+        description:
+          "🔎 Search tool call notes by meaning across ALL tools. Paste the error you just got (e.g., 'issuetype is required') or describe what you are about to do (e.g., 'create a Jira ticket') to find relevant learnings without knowing the exact tool name. Use get_tool_call_notes when you know the tool.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: {
+              type: "string",
+              description: "Error message or intent to find notes for",
+            },
+            tool_name: {
+              type: "string",
+              description: "Only notes for this tool or glob pattern (e.g., 'jira-*'). Default: all tools",
+            },
+            note_type: {
+              type: "string",
+              enum: ["success", "failure", "pattern", "guideline", "all"],
+              description: "Filter by note type. Default: 'all'",
+            },
+            limit: {
+              type: "number",
+              description: "Max results. Default: 5.",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["query"],
+        },
+      } as any,
+      {
+        name: "record_tool_call_note",
+        description:
+          "📝 CRITICAL: Record tool-specific learnings after failures/successes or user feedback about HOW to use a specific tool. For general knowledge, use add_memory instead.\n\n" +
+          "**Record here (tool-specific):**\n" +
+          "• 'jira-create-issue: Use project=\"GSO\", issuetype=\"Task\", assignee field is \"assignee.emailAddress\"'\n" +
+          "• 'run-command: Git commands need --no-pager flag for clean output'\n" +
+          "• 'web-search: Always include year in query (e.g., \"typescript best practices 2024\")'\n" +
+          "• 'add-comment: User prefers concise technical style, no pleasantries, use bullet points'\n\n" +
+          "**Use add_memory for:** General preferences, project details, or knowledge not tied to specific tool usage.\n\n" +
+          "Types: 'failure' (errors), 'success' (working patterns), 'pattern' (recurring behaviors), 'guideline' (user feedback on style/format).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tool_name: {
+              type: "string",
+              description: "Tool name (e.g., 'jira-sse-add_comment'), or a glob pattern covering a family of tools from the same server (e.g., 'jira-*')",
+            },
+            note_type: {
+              type: "string",
+              enum: ["success", "failure", "pattern", "guideline"],
+              description: "Type: 'failure' for errors/what went wrong, 'success' for working patterns, 'pattern' for recurring behaviors, 'guideline' for best practices",
+            },
+            content: {
+              type: "string",
+              description: "Clear, specific note about what you learned (e.g., 'Use comment parameter, not content', 'Requires authentication header')",
+            },
+            parameters: {
+              type: "array",
+              items: { type: "string" },
+              description: "Parameter names involved (e.g., ['comment', 'issueKey'], ['authorization', 'content'])",
+            },
+            error_message: {
+              type: "string",
+              description: "For failures: exact error message received",
+            },
+            success_pattern: {
+              type: "string",
+              description: "For successes: what combination worked (e.g., 'comment + issueKey + auth header')",
+            },
+            scope: {
+              type: "string",
+              enum: ["context", "global"],
+              description: "'global' for knowledge about the tool itself that holds in every context (e.g., required fields), 'context' for project- or user-specific notes. Default: 'context'",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["tool_name", "note_type", "content"],
+        },
+      } as any,
+      {
+        name: "update_tool_call_note",
+        description:
+          "✏️ Correct a tool call note in place (e.g., after refuting it, or when the tool's API changed). Only the given fields change; empty strings or arrays clear optional fields. The edited note counts as freshly verified and its confirm/refute counters restart.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            note_id: {
+              type: "string",
+              description: "ID of the note to update (from get_tool_call_notes or search_tool_call_notes)",
+            },
+            tool_name: {
+              type: "string",
+              description: "New tool name or glob pattern (e.g., widen 'jira-create-issue' to 'jira-*')",
+            },
+            scope: {
+              type: "string",
+              enum: ["context", "global"],
+              description: "Share the note with every context ('global'), or keep it to the context that recorded it ('context'). Changing only the scope keeps the counters",
+            },
+            note_type: {
+              type: "string",
+              enum: ["success", "failure", "pattern", "guideline"],
+              description: "New note type",
+            },
+            content: {
+              type: "string",
+              description: "New note text",
+            },
+            parameters: {
+              type: "array",
+              items: { type: "string" },
+              description: "New parameter names involved",
+            },
+            error_message: {
+              type: "string",
+              description: "New exact error message",
+            },
+            success_pattern: {
+              type: "string",
+              description: "New working combination",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["note_id"],
+        },
+      } as any,
+      {
+        name: "confirm_tool_call_note",
+        description:
+          "✅ Call after following a tool call note and it held up. Confirmed notes rank higher in get_tool_call_notes and stop being flagged stale.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            note_id: {
+              type: "string",
+              description: "ID of the note that held up (from get_tool_call_notes or search_tool_call_notes)",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["note_id"],
+        },
+      } as any,
+      {
+        name: "refute_tool_call_note",
+        description:
+          "❌ Call when a tool call note turned out wrong or outdated. Refuted notes rank lower and are flagged 'refuted'; follow up with update_tool_call_note (or delete_tool_call_note) once you know what is right.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            note_id: {
+              type: "string",
+              description: "ID of the note that turned out wrong (from get_tool_call_notes or search_tool_call_notes)",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["note_id"],
+        },
+      } as any,
+      {
+        name: "delete_tool_call_note",
+        description:
+          "🗑️ Clean up outdated or incorrect tool notes to maintain accurate knowledge base. Use when: information becomes obsolete, tool API changes, or you want to replace notes with better ones (delete old, add new). Prevents knowledge pollution!",
+        inputSchema: {
+          type: "object",
+          properties: {
+            note_id: {
+              type: "string",
+              description: "ID of note to delete (from get_tool_call_notes response)",
+            },
+            context_id: CONTEXT_ID_PROPERTY,
+          },
+          required: ["note_id"],
+        },
+      } as any
+    );
+  }
+
+  // Only advertise what the calling token may use
+  return { tools: tools.filter((tool) => hasScope(extra?.authInfo, requiredScope(tool.name))) };
+}
+
+// ============================================================================
+// Tool Handlers
+// ============================================================================
+
+/**
+ * Run a tool call and record it in the audit log
+ */
+async function callTool(request: CallToolRequest, extra?: HandlerExtra, clientName?: string) {
+  const started = performance.now();
+  const audit = {
+    toolName: request.params.name,
+    args: request.params.arguments,
+    clientId: extra?.authInfo?.clientId ?? clientName,
+    sessionId: extra?.sessionId,
+  };
+
+  try {
+    const result = await executeTool(request, extra);
+    recordToolCall({ ...audit, result, durationMs: performance.now() - started });
+    return result;
+  } catch (error: any) {
+    recordToolCall({ ...audit, error, durationMs: performance.now() - started });
+    throw error;
+  }
+}
+
+async function executeTool(request: CallToolRequest, extra?: HandlerExtra) {
+  const { name, arguments: args } = request.params;
+
+  if (!args) {
+    throw new Error("Arguments are required");
+  }
+
+  try {
+    assertToolAllowed(extra?.authInfo, name);
+  } catch (error: any) {
+    return authorizationErrorResult(error);
+  }
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+  // Check if local embedding model is downloading (only for operations that need embeddings)
+  const operationsThatNeedEmbeddings = ['add_memory', 'update_memory', 'search_memory', 'revert_memory', 'import_memories', 'consolidate_memories'];
+  if (operationsThatNeedEmbeddings.includes(name)) {
+    const downloadCheck = checkDownloadProgress();
+    if (downloadCheck.isDownloading) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: downloadCheck.message!,
+          },
+        ],
+      };
     }
+  }
+
+  try {
+    return await withAuth(extra?.authInfo, () => dispatchTool(name, args));
   } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResult(error);
+    }
     return {
       content: [
         {
@@ -477,19 +1238,263 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+/**
+ * Structured error for calls outside the token's scope or contexts
+ */
+function authorizationErrorResult(error: AuthorizationError) {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            error: {
+              code: error.code,
+              message: error.message,
+              ...error.details,
+            },
+          },
+          null,
+          2
+        ),
+      },
+    ],
+    isError: true,
+  };
+}
+
+async function dispatchTool(name: string, args: Record<string, unknown>) {
+  switch (name) {
+    case "add_memory":
+      return await handleAddMemory(args);
+
+    case "update_memory":
+      return await handleUpdateMemory(args);
+
+    case "search_memory":
+      return await handleSearchMemory(args);
+
+    case "list_memories":
+      return await handleListMemories(args);
+
+    case "find_duplicates":
+      return await handleFindDuplicates(args);
+
+    case "consolidate_memories":
+      return await handleConsolidateMemories(args);
+
+    case "pin_memory":
+      return await handlePinMemory(args);
+
+    case "unpin_memory":
+      return await handleUnpinMemory(args);
+
+    case "supersede_memory":
+      return await handleSupersedeMemory(args);
+
+    case "link_memories":
+      return await handleLinkMemories(args);
+
+    case "unlink_memories":
+      return await handleUnlinkMemories(args);
+
+    case "list_contexts":
+      return await handleListContexts(args);
+
+    case "get_context_tags":
+      return await handleGetContextTags(args);
+
+    case "list_entities":
+      return await handleListEntities(args);
+
+    case "get_entity":
+      return await handleGetEntity(args);
+
+    case "get_memory":
+      return await handleGetMemory(args);
+
+    case "get_memory_history":
+      return await handleGetMemoryHistory(args);
+
+    case "revert_memory":
+      return await handleRevertMemory(args);
+
+    case "delete_memory":
+      return await handleDeleteMemory(args);
+
+    case "list_trash":
+      return await handleListTrash(args);
+
+    case "restore_memory":
+      return await handleRestoreMemory(args);
+
+    case "purge_trash":
+      return await handlePurgeTrash(args);
+
+    case "switch_embedding_mode":
+      return await handleSwitchEmbeddingMode(args);
+
+    case "rebuild_vector_index":
+      return await handleRebuildVectorIndex(args);
+
+    case "rebuild_entity_index":
+      return await handleRebuildEntityIndex(args);
+
+    case "export_memories":
+      return await handleExportMemories(args);
+
+    case "import_memories":
+      return await handleImportMemories(args);
+
+    case "query_audit_log":
+      return await handleQueryAuditLog(args);
+
+    case "get_tool_call_notes":
+      if (!config.enableToolCallNotes) {
+        throw new Error("Tool call notes are disabled");
+      }
+      return await handleGetToolCallNotes(args);
+
+    case "search_tool_call_notes":
+      if (!config.enableToolCallNotes) {
+        throw new Error("Tool call notes are disabled");
+      }
+      return await handleSearchToolCallNotes(args);
+
+    case "record_tool_call_note":
+      if (!config.enableToolCallNotes) {
+        throw new Error("Tool call notes are disabled");
+      }
+      return await handleRecordToolCallNote(args);
+
+    case "update_tool_call_note":
+      if (!config.enableToolCallNotes) {
+        throw new Error("Tool call notes are disabled");
+      }
+      return await handleUpdateToolCallNote(args);
+
+    case "confirm_tool_call_note":
+      if (!config.enableToolCallNotes) {
+        throw new Error("Tool call notes are disabled");
+      }
+      return await handleConfirmToolCallNote(args);
+
+    case "refute_tool_call_note":
+      if (!config.enableToolCallNotes) {
+        throw new Error("Tool call notes are disabled");
+      }
+      return await handleRefuteToolCallNote(args);
+
+    case "delete_tool_call_note":
+      if (!config.enableToolCallNotes) {
+        throw new Error("Tool call notes are disabled");
+      }
+      return await handleDeleteToolCallNote(args);
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
 
 // ============================================================================
 // Server Startup
 // ============================================================================
 
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  const { values: flags } = parseArgs({
+    options: {
+      transport: { type: "string", default: "stdio" },
+      port: { type: "string", default: "3133" },
+      host: { type: "string", default: "127.0.0.1" },
+    },
+  });
+
+  if (flags.transport !== "stdio" && flags.transport !== "http") {
+    throw new Error(`Unknown transport: ${flags.transport}. Use 'stdio' or 'http'`);
+  }
+
+  // Purge memories that have been in trash longer than the retention period
+  if (config.trashRetentionDays > 0) {
+    const cutoff = Date.now() - config.trashRetentionDays * 24 * 60 * 60 * 1000;
+    const purged = purgeTrash(null, cutoff);
+    if (purged > 0) {
+      console.error(`🗑️  Purged ${purged} memories from trash (older than ${config.trashRetentionDays} days)`);
+    }
+  }
+
+  const purgedAudit = purgeExpiredAuditLog();
+  if (purgedAudit > 0) {
+    console.error(`🗑️  Purged ${purgedAudit} audit log entries (older than ${config.audit.retentionDays} days)`);
+  }
+
+  let httpServer: RunningHttpServer | null = null;
+  let stopVaultSync: (() => void) | null = null;
+  let shuttingDown = false;
+
+  // Stop accepting work, then checkpoint the WAL so the .db file is complete
+  const shutdown = async (reason: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.error(`Shutting down (${reason})...`);
+
+    stopVaultSync?.();
+    await httpServer?.close();
+    closeDatabase();
+    process.exit(0);
+  };
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+
+  let listening: string;
+  if (flags.transport === "http") {
+    const port = parseInt(flags.port!, 10);
+    if (isNaN(port)) {
+      throw new Error(`Invalid port: ${flags.port}`);
+    }
+
+    httpServer = await startHttpServer({
+      port,
+      host: flags.host!,
+      createServer,
+      // Unauthenticated, so nothing about the stored data (see list_contexts for counts)
+      health: () => ({
+        transport: "http",
+        embedding_mode: getCurrentMode() || "initializing",
+      }),
+      auth: { enabled: isAuthEnabled, verify: verifyToken },
+    });
+    listening = `${httpServer.url}/mcp (health: ${httpServer.url}/health)`;
+
+    if (!isAuthEnabled()) {
+      console.error("⚠️  No API tokens: anyone who can reach this port can use every tool. Create one with 'mcp-local-memory token create'");
+    }
+  } else {
+    const server = createServer();
+    server.onclose = () => shutdown("stdio closed");
+    await server.connect(new StdioServerTransport());
+    listening = "stdio";
+  }
+
+  // Optional two-way sync with a Markdown vault
+  if (config.vaultSync.path && config.vaultSync.watch) {
+    stopVaultSync = await watchVault(
+      { vaultPath: config.vaultSync.path, contextIds: [config.contextId] },
+      config.vaultSync.intervalSeconds,
+      (result) => {
+        if (result.written + result.updated + result.created + result.trashed + result.removed > 0
+          || result.conflicts.length > 0 || result.errors.length > 0) {
+          console.error(`📝 Vault sync: ${formatSyncResult(result)}`);
+        }
+      }
+    );
+  }
   
   const mode = getCurrentMode();
   console.error("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-  console.error("MCP Local Memory Server running on stdio");
+  console.error(`MCP Local Memory Server running on ${listening}`);
   console.error(`Embedding mode: ${mode || 'initializing'}`);
   console.error("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
 }
@@ -5,10 +5,23 @@
  * 
  * Starts the MCP server on stdio for use with AI clients
  * Configuration is handled via Smithery or manual MCP config
+ * 
+ * With a command argument (e.g. `export`, `import`), runs that CLI command instead
  */
 
-import('./index.js').catch((err) => {
-  console.error('Error starting MCP server:', err);
-  process.exit(1);
-});
+const command = process.argv[2];
 
+if (command && !command.startsWith('-')) {
+  import('./cli.js')
+    .then(({ runCli }) => runCli(process.argv.slice(2)))
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    });
+} else {
+  import('./index.js').catch((err) => {
+    console.error('Error starting MCP server:', err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,511 @@
+/**
+ * Schema Migrations
+ *
+ * Ordered, numbered schema changes applied at startup. Each migration runs
+ * in its own transaction and is recorded in the schema_version table.
+ */
+
+import type Database from "better-sqlite3";
+import { existsSync, mkdirSync } from "fs";
+import { dirname, join } from "path";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+/**
+ * All migrations, in order. Never edit or reorder an applied migration -
+ * append a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    // Uses IF NOT EXISTS so databases created before versioning are adopted as-is
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memories (
+          id TEXT PRIMARY KEY,
+          context_id TEXT NOT NULL,
+          text TEXT NOT NULL,
+          tags TEXT NOT NULL, -- JSON array
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          version INTEGER NOT NULL DEFAULT 1
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_memories_context_id ON memories(context_id);
+        CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at);
+
+        CREATE TABLE IF NOT EXISTS facts (
+          id TEXT PRIMARY KEY,
+          memory_id TEXT NOT NULL,
+          text TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          version INTEGER NOT NULL DEFAULT 1,
+          FOREIGN KEY (memory_id) REFERENCES memories(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_facts_memory_id ON facts(memory_id);
+
+        -- OpenAI embeddings (1536D)
+        CREATE TABLE IF NOT EXISTS fact_vectors_openai (
+          fact_id TEXT PRIMARY KEY,
+          dim INTEGER NOT NULL DEFAULT 1536,
+          unit_norm INTEGER NOT NULL DEFAULT 1,
+          embedding BLOB NOT NULL,
+          FOREIGN KEY (fact_id) REFERENCES facts(id) ON DELETE CASCADE
+        );
+
+        -- Local English embeddings (384D)
+        CREATE TABLE IF NOT EXISTS fact_vectors_local_en (
+          fact_id TEXT PRIMARY KEY,
+          dim INTEGER NOT NULL DEFAULT 384,
+          unit_norm INTEGER NOT NULL DEFAULT 1,
+          embedding BLOB NOT NULL,
+          FOREIGN KEY (fact_id) REFERENCES facts(id) ON DELETE CASCADE
+        );
+
+        -- Local Multilingual embeddings (384D)
+        CREATE TABLE IF NOT EXISTS fact_vectors_local_ml (
+          fact_id TEXT PRIMARY KEY,
+          dim INTEGER NOT NULL DEFAULT 384,
+          unit_norm INTEGER NOT NULL DEFAULT 1,
+          embedding BLOB NOT NULL,
+          FOREIGN KEY (fact_id) REFERENCES facts(id) ON DELETE CASCADE
+        );
+
+        -- Tool call notes for learning from successes and failures
+        CREATE TABLE IF NOT EXISTS tool_call_notes (
+          id TEXT PRIMARY KEY,
+          context_id TEXT NOT NULL,
+          tool_name TEXT NOT NULL,
+          note_type TEXT NOT NULL, -- 'success', 'failure', 'pattern', 'guideline'
+          content TEXT NOT NULL,
+          parameters TEXT, -- JSON array of parameter names that worked/failed
+          error_message TEXT, -- For failures: what went wrong
+          success_pattern TEXT, -- For successes: what worked
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_tool_call_notes_context_tool
+          ON tool_call_notes(context_id, tool_name);
+        CREATE INDEX IF NOT EXISTS idx_tool_call_notes_type
+          ON tool_call_notes(note_type);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "vector_index",
+    up: (db) => {
+      db.exec(`
+        -- One row per embedding type that has an approximate index built
+        CREATE TABLE vector_index_meta (
+          embedding_type TEXT PRIMARY KEY,
+          kind TEXT NOT NULL, -- 'ivf'
+          dim INTEGER NOT NULL,
+          list_count INTEGER NOT NULL,
+          built_at INTEGER NOT NULL
+        );
+
+        -- IVF cluster centroids (unit-normalized Float32 blobs)
+        CREATE TABLE vector_index_centroids (
+          embedding_type TEXT NOT NULL,
+          list_id INTEGER NOT NULL,
+          centroid BLOB NOT NULL,
+          PRIMARY KEY (embedding_type, list_id)
+        );
+
+        -- Which IVF list each fact vector belongs to
+        CREATE TABLE vector_index_assignments (
+          embedding_type TEXT NOT NULL,
+          fact_id TEXT NOT NULL,
+          list_id INTEGER NOT NULL,
+          PRIMARY KEY (embedding_type, fact_id),
+          FOREIGN KEY (fact_id) REFERENCES facts(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX idx_vector_index_assignments_list
+          ON vector_index_assignments(embedding_type, list_id);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "full_text_search",
+    // Ids are stored UNINDEXED (rather than using external content) because
+    // VACUUM may renumber the rowids of tables with TEXT primary keys
+    up: (db) => {
+      db.exec(`
+        CREATE VIRTUAL TABLE facts_fts USING fts5(text, fact_id UNINDEXED);
+        CREATE VIRTUAL TABLE memories_fts USING fts5(text, memory_id UNINDEXED);
+
+        CREATE TRIGGER facts_fts_insert AFTER INSERT ON facts BEGIN
+          INSERT INTO facts_fts (text, fact_id) VALUES (new.text, new.id);
+        END;
+        CREATE TRIGGER facts_fts_delete AFTER DELETE ON facts BEGIN
+          DELETE FROM facts_fts WHERE fact_id = old.id;
+        END;
+        CREATE TRIGGER facts_fts_update AFTER UPDATE OF text ON facts BEGIN
+          DELETE FROM facts_fts WHERE fact_id = old.id;
+          INSERT INTO facts_fts (text, fact_id) VALUES (new.text, new.id);
+        END;
+
+        CREATE TRIGGER memories_fts_insert AFTER INSERT ON memories BEGIN
+          INSERT INTO memories_fts (text, memory_id) VALUES (new.text, new.id);
+        END;
+        CREATE TRIGGER memories_fts_delete AFTER DELETE ON memories BEGIN
+          DELETE FROM memories_fts WHERE memory_id = old.id;
+        END;
+        CREATE TRIGGER memories_fts_update AFTER UPDATE OF text ON memories BEGIN
+          DELETE FROM memories_fts WHERE memory_id = old.id;
+          INSERT INTO memories_fts (text, memory_id) VALUES (new.text, new.id);
+        END;
+
+        INSERT INTO facts_fts (text, fact_id) SELECT text, id FROM facts;
+        INSERT INTO memories_fts (text, memory_id) SELECT text, id FROM memories;
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "memory_revisions",
+    up: (db) => {
+      db.exec(`
+        -- Snapshot of a memory version, taken just before it is replaced
+        CREATE TABLE memory_revisions (
+          id TEXT PRIMARY KEY,
+          memory_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          tags TEXT NOT NULL, -- JSON array
+          change_type TEXT NOT NULL, -- Change that replaced this version: 'update', 'tags', 'revert'
+          created_at INTEGER NOT NULL,
+          UNIQUE (memory_id, version),
+          FOREIGN KEY (memory_id) REFERENCES memories(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE memory_revision_facts (
+          revision_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          PRIMARY KEY (revision_id, position),
+          FOREIGN KEY (revision_id) REFERENCES memory_revisions(id) ON DELETE CASCADE
+        );
+
+        -- Fact vectors at snapshot time, so reverts can skip re-embedding
+        CREATE TABLE memory_revision_vectors (
+          revision_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          embedding_type TEXT NOT NULL,
+          embedding BLOB NOT NULL,
+          PRIMARY KEY (revision_id, position, embedding_type),
+          FOREIGN KEY (revision_id) REFERENCES memory_revisions(id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "memory_trash",
+    up: (db) => {
+      db.exec(`
+        -- Soft delete: set when a memory is moved to trash, NULL otherwise
+        ALTER TABLE memories ADD COLUMN deleted_at INTEGER;
+        CREATE INDEX idx_memories_deleted_at ON memories(deleted_at);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "audit_log",
+    up: (db) => {
+      db.exec(`
+        -- One row per tool call, written by the CallTool dispatcher
+        CREATE TABLE audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tool_name TEXT NOT NULL,
+          context_id TEXT, -- Requested context(s), comma-separated
+          client_id TEXT, -- Token name in authenticated HTTP mode, else the MCP client name
+          session_id TEXT,
+          arguments TEXT NOT NULL, -- JSON, secrets redacted and long strings truncated
+          memory_ids TEXT NOT NULL, -- JSON array of memories the call touched
+          success INTEGER NOT NULL,
+          error TEXT,
+          duration_ms INTEGER NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_audit_log_created_at ON audit_log(created_at);
+        CREATE INDEX idx_audit_log_tool_name ON audit_log(tool_name, created_at);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "memory_supersession",
+    up: (db) => {
+      db.exec(`
+        -- Set when a newer memory replaces this one (e.g. "moved from Postgres to MySQL")
+        ALTER TABLE memories ADD COLUMN superseded_by TEXT;
+        ALTER TABLE memories ADD COLUMN superseded_at INTEGER;
+        CREATE INDEX idx_memories_superseded_by ON memories(superseded_by);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: "memory_consolidation",
+    up: (db) => {
+      db.exec(`
+        -- Set on originals merged by consolidate_memories; archived memories stay readable by ID only
+        ALTER TABLE memories ADD COLUMN archived_at INTEGER;
+        ALTER TABLE memories ADD COLUMN consolidated_into TEXT;
+        CREATE INDEX idx_memories_consolidated_into ON memories(consolidated_into);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "memory_access",
+    up: (db) => {
+      db.exec(`
+        -- Bumped whenever search_memory or get_memory returns the memory (usage signal in ranking)
+        ALTER TABLE memories ADD COLUMN access_count INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE memories ADD COLUMN last_accessed_at INTEGER;
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "memory_pins",
+    up: (db) => {
+      db.exec(`
+        -- Pinned memories are served as the memory://pinned resource
+        ALTER TABLE memories ADD COLUMN pinned_at INTEGER;
+        CREATE INDEX idx_memories_pinned ON memories(context_id, pinned_at) WHERE pinned_at IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "memory_links",
+    up: (db) => {
+      db.exec(`
+        -- Typed, directed edges between memories (link_memories)
+        CREATE TABLE memory_links (
+          source_id TEXT NOT NULL,
+          target_id TEXT NOT NULL,
+          relation TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          PRIMARY KEY (source_id, target_id, relation),
+          FOREIGN KEY (source_id) REFERENCES memories(id) ON DELETE CASCADE,
+          FOREIGN KEY (target_id) REFERENCES memories(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_memory_links_target ON memory_links(target_id);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "entities",
+    up: (db) => {
+      db.exec(`
+        -- Named entities per context; every known name (including the first) is an alias
+        CREATE TABLE entities (
+          id TEXT PRIMARY KEY,
+          context_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX idx_entities_context ON entities(context_id);
+
+        CREATE TABLE entity_aliases (
+          entity_id TEXT NOT NULL,
+          context_id TEXT NOT NULL,
+          alias TEXT NOT NULL,
+          PRIMARY KEY (entity_id, alias),
+          FOREIGN KEY (entity_id) REFERENCES entities(id) ON DELETE CASCADE
+        );
+        CREATE UNIQUE INDEX idx_entity_aliases_lookup ON entity_aliases(context_id, alias COLLATE NOCASE);
+
+        -- Which facts mention which entities
+        CREATE TABLE fact_entities (
+          fact_id TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          PRIMARY KEY (fact_id, entity_id),
+          FOREIGN KEY (fact_id) REFERENCES facts(id) ON DELETE CASCADE,
+          FOREIGN KEY (entity_id) REFERENCES entities(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_fact_entities_entity ON fact_entities(entity_id);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: "tool_note_vectors",
+    up: (db) => {
+      db.exec(`
+        -- Tool call note embeddings per built-in model (search_tool_call_notes);
+        -- configured models get theirs from the embedding registry
+        CREATE TABLE tool_note_vectors_openai (
+          note_id TEXT PRIMARY KEY,
+          dim INTEGER NOT NULL DEFAULT 1536,
+          unit_norm INTEGER NOT NULL DEFAULT 1,
+          embedding BLOB NOT NULL,
+          FOREIGN KEY (note_id) REFERENCES tool_call_notes(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE tool_note_vectors_local_en (
+          note_id TEXT PRIMARY KEY,
+          dim INTEGER NOT NULL DEFAULT 384,
+          unit_norm INTEGER NOT NULL DEFAULT 1,
+          embedding BLOB NOT NULL,
+          FOREIGN KEY (note_id) REFERENCES tool_call_notes(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE tool_note_vectors_local_ml (
+          note_id TEXT PRIMARY KEY,
+          dim INTEGER NOT NULL DEFAULT 384,
+          unit_norm INTEGER NOT NULL DEFAULT 1,
+          embedding BLOB NOT NULL,
+          FOREIGN KEY (note_id) REFERENCES tool_call_notes(id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: "tool_note_verification",
+    up: (db) => {
+      db.exec(`
+        -- confirm_tool_call_note / refute_tool_call_note counters
+        ALTER TABLE tool_call_notes ADD COLUMN confirmed_count INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE tool_call_notes ADD COLUMN refuted_count INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE tool_call_notes ADD COLUMN last_verified_at INTEGER;
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: "tool_note_scope",
+    up: (db) => {
+      db.exec(`
+        -- 'global' notes are shared by every context (context_id keeps where they were recorded)
+        ALTER TABLE tool_call_notes ADD COLUMN scope TEXT NOT NULL DEFAULT 'context';
+        CREATE INDEX idx_tool_call_notes_global ON tool_call_notes(tool_name) WHERE scope = 'global';
+      `);
+    },
+  },
+];
+
+/**
+ * Format a migration as "003_add_something" for logs and errors
+ */
+function migrationLabel(migration: Migration): string {
+  return `${String(migration.version).padStart(3, "0")}_${migration.name}`;
+}
+
+/**
+ * Get the highest applied schema version (0 for new or pre-versioning databases)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  const row = db.prepare(`SELECT MAX(version) as version FROM schema_version`).get() as any;
+  return row?.version ?? 0;
+}
+
+/**
+ * Check whether the database holds any user tables besides schema_version
+ */
+function hasExistingData(db: Database.Database): boolean {
+  const row = db.prepare(`
+    SELECT COUNT(*) as count FROM sqlite_master
+    WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_version'
+  `).get() as any;
+  return row.count > 0;
+}
+
+/**
+ * Snapshot the database before migrating it
+ * Returns the backup path
+ */
+function backupDatabase(db: Database.Database, dbPath: string, fromVersion: number): string {
+  const backupDir = join(dirname(dbPath), "backups");
+  if (!existsSync(backupDir)) {
+    mkdirSync(backupDir, { recursive: true });
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = join(backupDir, `memory-v${fromVersion}-${timestamp}.db`);
+
+  // VACUUM INTO writes a consistent copy, including anything still in the WAL
+  db.prepare(`VACUUM INTO ?`).run(backupPath);
+  return backupPath;
+}
+
+/**
+ * Apply all pending migrations in order
+ *
+ * @param db - Open database connection
+ * @param dbPath - Path of the database file (used for the backup location)
+ * @throws Error naming the failing migration; earlier migrations stay applied
+ */
+export function runMigrations(db: Database.Database, dbPath: string): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+
+  const currentVersion = getSchemaVersion(db);
+  const latestVersion = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this server supports (${latestVersion}). ` +
+      `Upgrade mcp-local-memory or point SQLITE_PATH at a different database.`
+    );
+  }
+
+  const pending = MIGRATIONS.filter((m) => m.version > currentVersion);
+  if (pending.length === 0) {
+    return;
+  }
+
+  let backupPath: string | null = null;
+  if (dbPath !== ":memory:" && hasExistingData(db)) {
+    backupPath = backupDatabase(db, dbPath, currentVersion);
+    console.error(`ℹ️  Backed up database to ${backupPath} before migrating`);
+  }
+
+  const recordVersion = db.prepare(`
+    INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)
+  `);
+
+  for (const migration of pending) {
+    const apply = db.transaction(() => {
+      migration.up(db);
+      recordVersion.run(migration.version, migration.name, Date.now());
+    });
+
+    try {
+      apply();
+    } catch (error: any) {
+      throw new Error(
+        `Migration ${migrationLabel(migration)} failed: ${error.message}. ` +
+        `Database left at schema version ${getSchemaVersion(db)}.` +
+        (backupPath ? ` Backup taken before migrating: ${backupPath}` : "")
+      );
+    }
+
+    console.error(`✓ Applied migration ${migrationLabel(migration)}`);
+  }
+}
@@ -7,15 +7,17 @@
 import { randomBytes } from "crypto";
 import { nanoid } from "nanoid";
 import { db } from "./database.js";
-import { Memory, Fact, FactWithScore } from "./types.js";
-import { vectorToBlob, blobToVector, dotProduct } from "./vector.js";
-import { EMBEDDING_CONFIGS } from "./embeddings/types.js";
+import { Memory, Fact, FactWithScore, MemoryFilters, MemoryRevision, SearchMode, AuditLogEntry, AuditLogFilters, DuplicateCandidate, RankingWeights, MemoryLink, MemoryRelation, LinkedMemory, Entity, EntitySummary, EntityType, ExtractedEntity } from "./types.js";
+import { vectorToBlob, blobToVector, blobToFloat32, dotProduct } from "./vector.js";
+import { EMBEDDING_CONFIGS } from "./embeddings/registry.js";
 import type { EmbeddingType } from "./embeddings/types.js";
+import { vectorIndex } from "./vector-index/factory.js";
+import { rankScore, NO_RANKING, toolCallNoteRank } from "./ranking.js";
 
 /**
  * Generate a short, URL-safe ID (8 characters)
  */
-function generateShortId(): string {
+export function generateShortId(): string {
   return randomBytes(6).toString("base64url").slice(0, 8);
 }
 
@@ -93,16 +95,18 @@ export function createFact(
   );
 
   insertVector.run(fact.id, embedding.length, vectorToBlob(embedding));
+  vectorIndex.add(fact.id, embedding, embeddingType);
 
   return fact;
 }
 
 /**
- * Get a memory by ID
+ * Get a memory by ID (including memories in trash - check deletedAt)
  */
 export function getMemory(memoryId: string): Memory | null {
   const stmt = db.prepare(`
-    SELECT id, context_id, text, tags, created_at, updated_at, version
+    SELECT id, context_id, text, tags, created_at, updated_at, version, deleted_at, superseded_by, superseded_at,
+           archived_at, consolidated_into, access_count, last_accessed_at, pinned_at
     FROM memories WHERE id = ?
   `);
 
@@ -117,6 +121,11 @@ export function getMemory(memoryId: string): Memory | null {
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     version: row.version,
+    ...(row.deleted_at && { deletedAt: row.deleted_at }),
+    ...(row.superseded_by && { supersededBy: row.superseded_by, supersededAt: row.superseded_at }),
+    ...(row.archived_at && { archivedAt: row.archived_at, consolidatedInto: row.consolidated_into }),
+    ...(row.last_accessed_at && { accessCount: row.access_count, lastAccessedAt: row.last_accessed_at }),
+    ...(row.pinned_at && { pinnedAt: row.pinned_at }),
   };
 }
 
@@ -152,7 +161,8 @@ export interface TagMetadata {
  */
 export function getAllTags(contextId: string, regexPattern?: string): TagMetadata[] {
   const stmt = db.prepare(`
-    SELECT tags, created_at, updated_at FROM memories WHERE context_id = ?
+    SELECT tags, created_at, updated_at FROM memories
+    WHERE context_id = ? AND deleted_at IS NULL AND archived_at IS NULL
   `);
 
   const rows = stmt.all(contextId) as any[];
@@ -214,64 +224,322 @@ export function getAllTags(contextId: string, regexPattern?: string): TagMetadat
   return allTags;
 }
 
+export interface SearchOptions {
+  topK?: number;
+  boostTags?: string[]; // Soft boost (case-insensitive partial match), not a filter
+  lambda?: number; // Boost per matching tag
+  mode?: SearchMode;
+  queryText?: string; // Required for keyword and hybrid modes
+  keywordWeight?: number; // Share of the keyword score in hybrid mode (0-1)
+  filters?: MemoryFilters; // Hard filters, combined with the soft boostTags
+  supersededWeight?: number; // Score multiplier for superseded memories (1 = unchanged)
+  rankingWeights?: (contextId: string) => RankingWeights; // Recency and usage signals (default: none)
+}
+
+interface SqlCondition {
+  sql: string;
+  params: unknown[];
+}
+
+// A memory (alias m) counts as superseded while its replacement exists and is not in trash
+const IS_SUPERSEDED = `EXISTS (SELECT 1 FROM memories s WHERE s.id = m.superseded_by AND s.deleted_at IS NULL)`;
+
+// A memory (alias m) has a fact mentioning the entity named (or aliased) ?
+const MENTIONS_ENTITY = `EXISTS (
+      SELECT 1 FROM facts ef
+      JOIN fact_entities fe ON fe.fact_id = ef.id
+      JOIN entity_aliases ea ON ea.entity_id = fe.entity_id
+      WHERE ef.memory_id = m.id AND ea.context_id = m.context_id AND ea.alias = ? COLLATE NOCASE
+    )`;
+
 /**
- * Search facts by vector similarity with optional tag boosting (soft, not filter)
+ * Translate hard memory filters into SQL conditions on the `memories m` alias
  */
-export function searchFacts(
-  contextId: string,
-  queryVector: number[],
-  embeddingType: EmbeddingType,
-  topK: number = 20,
-  boostTags?: string[],
-  lambda: number = 0.1
-): FactWithScore[] {
-  const vectorTable = EMBEDDING_CONFIGS[embeddingType].tableName;
-  
-  // Get all facts (no hard tag filtering)
+function memoryFilterConditions(filters?: MemoryFilters): SqlCondition[] {
+  if (!filters) return [];
+
+  const conditions: SqlCondition[] = [];
+  const hasTag = `EXISTS (SELECT 1 FROM json_each(m.tags) t WHERE lower(t.value) = lower(?))`;
+
+  filters.requireTags?.forEach((tag) => {
+    conditions.push({ sql: hasTag, params: [tag] });
+  });
+
+  filters.excludeTags?.forEach((tag) => {
+    conditions.push({ sql: `NOT ${hasTag}`, params: [tag] });
+  });
+
+  if (filters.createdAfter !== undefined) {
+    conditions.push({ sql: `m.created_at >= ?`, params: [filters.createdAfter] });
+  }
+  if (filters.createdBefore !== undefined) {
+    conditions.push({ sql: `m.created_at < ?`, params: [filters.createdBefore] });
+  }
+  if (filters.updatedAfter !== undefined) {
+    conditions.push({ sql: `m.updated_at >= ?`, params: [filters.updatedAfter] });
+  }
+
+  if (filters.excludeSuperseded) {
+    conditions.push({ sql: `NOT ${IS_SUPERSEDED}`, params: [] });
+  }
+
+  filters.entities?.forEach((name) => {
+    conditions.push({ sql: MENTIONS_ENTITY, params: [name] });
+  });
+
+  if (filters.memoryIds) {
+    // An empty list matches nothing, rather than being ignored
+    conditions.push(
+      filters.memoryIds.length > 0
+        ? { sql: `m.id IN (${filters.memoryIds.map(() => "?").join(", ")})`, params: filters.memoryIds }
+        : { sql: `0`, params: [] }
+    );
+  }
+
+  return conditions;
+}
+
+/**
+ * Join conditions into a SQL fragment (prefixed with AND) and its parameters
+ */
+function andConditions(conditions: SqlCondition[]): { sql: string; params: unknown[] } {
+  return {
+    sql: conditions.map((c) => `AND ${c.sql}`).join("\n    "),
+    params: conditions.flatMap((c) => c.params),
+  };
+}
+
+// Facts inherit this share of the keyword score when only their memory's text matches
+const MEMORY_TEXT_MATCH_WEIGHT = 0.5;
+
+/**
+ * Turn free text into an FTS5 query. Each word or identifier (e.g. PROJ-123,
+ * ERR_TIMEOUT, user.email) becomes a quoted phrase; phrases are OR-ed so BM25
+ * ranks facts matching more of them higher.
+ */
+function toFtsQuery(text: string): string | null {
+  const terms = text.match(/[\p{L}\p{N}_]+(?:[-.:/][\p{L}\p{N}_]+)*/gu) || [];
+  if (terms.length === 0) return null;
+  return terms.map((term) => `"${term.replace(/"/g, '""')}"`).join(" OR ");
+}
+
+/**
+ * Normalize BM25 ranks (negative, lower is better) so the best match scores 1
+ */
+function normalizeRanks(rows: Array<{ fact_id: string; rank: number }>): Map<string, number> {
+  const scores = new Map<string, number>();
+  if (rows.length === 0) return scores;
+
+  const best = Math.min(...rows.map((row) => row.rank));
+  for (const row of rows) {
+    const score = best < 0 ? row.rank / best : 1;
+    scores.set(row.fact_id, Math.max(scores.get(row.fact_id) ?? 0, score));
+  }
+  return scores;
+}
+
+/**
+ * Keyword scores (0-1) per fact id from the facts_fts and memories_fts indexes
+ */
+function keywordScores(
+  contextIds: string[],
+  queryText: string,
+  limit: number,
+  conditions: SqlCondition[]
+): Map<string, number> {
+  const ftsQuery = toFtsQuery(queryText);
+  if (!ftsQuery) return new Map();
+
+  const filter = andConditions(conditions);
+  const inContexts = `m.context_id IN (${contextIds.map(() => "?").join(", ")})`;
+
+  const factRows = db.prepare(`
+    SELECT facts_fts.fact_id as fact_id, bm25(facts_fts) as rank
+    FROM facts_fts
+    JOIN facts f ON f.id = facts_fts.fact_id
+    JOIN memories m ON m.id = f.memory_id
+    WHERE facts_fts MATCH ? AND ${inContexts} AND m.deleted_at IS NULL AND m.archived_at IS NULL
+    ${filter.sql}
+    ORDER BY rank
+    LIMIT ?
+  `).all(ftsQuery, ...contextIds, ...filter.params, limit) as any[];
+
+  const memoryRows = db.prepare(`
+    SELECT f.id as fact_id, bm25(memories_fts) as rank
+    FROM memories_fts
+    JOIN memories m ON m.id = memories_fts.memory_id
+    JOIN facts f ON f.memory_id = m.id
+    WHERE memories_fts MATCH ? AND ${inContexts} AND m.deleted_at IS NULL AND m.archived_at IS NULL
+    ${filter.sql}
+    ORDER BY rank
+    LIMIT ?
+  `).all(ftsQuery, ...contextIds, ...filter.params, limit) as any[];
+
+  const scores = normalizeRanks(factRows);
+  normalizeRanks(memoryRows).forEach((score, factId) => {
+    const inherited = score * MEMORY_TEXT_MATCH_WEIGHT;
+    if (inherited > (scores.get(factId) ?? 0)) {
+      scores.set(factId, inherited);
+    }
+  });
+
+  return scores;
+}
+
+/**
+ * Load fact rows (with their memory, and embedding if a vector table is given)
+ */
+function selectFactRows(
+  contextIds: string[],
+  vectorTable: string | null,
+  conditions: SqlCondition[] = []
+): any[] {
+  const filter = andConditions(conditions);
   const sql = `
     SELECT 
       f.id, f.memory_id, f.text, f.created_at, f.updated_at, f.version,
-      fv.embedding,
+      ${vectorTable ? "fv.embedding," : ""}
       m.id as m_id, m.context_id, m.text as m_text, m.tags, m.created_at as m_created_at, 
-      m.updated_at as m_updated_at, m.version as m_version
+      m.updated_at as m_updated_at, m.version as m_version,
+      CASE WHEN ${IS_SUPERSEDED} THEN m.superseded_by END as m_superseded_by, m.superseded_at as m_superseded_at,
+      m.access_count as m_access_count, m.last_accessed_at as m_last_accessed_at, m.pinned_at as m_pinned_at
     FROM facts f
-    JOIN ${vectorTable} fv ON f.id = fv.fact_id
+    ${vectorTable ? `JOIN ${vectorTable} fv ON f.id = fv.fact_id` : ""}
     JOIN memories m ON f.memory_id = m.id
-    WHERE m.context_id = ?
+    WHERE m.context_id IN (${contextIds.map(() => "?").join(", ")}) AND m.deleted_at IS NULL AND m.archived_at IS NULL
+    ${filter.sql}
   `;
 
-  const stmt = db.prepare(sql);
-  const rows = stmt.all(contextId) as any[];
+  return db.prepare(sql).all(...contextIds, ...filter.params) as any[];
+}
+
+/**
+ * Count boost tags matching a memory's tags (case-insensitive partial match)
+ */
+function countTagMatches(memoryTags: string[], normalizedBoostTags: string[]): number {
+  const normalizedMemoryTags = memoryTags.map((tag: string) => tag.toLowerCase());
+
+  let matches = 0;
+  for (const boostTag of normalizedBoostTags) {
+    for (const memoryTag of normalizedMemoryTags) {
+      // Check if either tag contains the other (partial match)
+      if (memoryTag.includes(boostTag) || boostTag.includes(memoryTag)) {
+        matches++;
+        break; // Count each boost tag at most once
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * Search facts by vector similarity, keywords (BM25), or both, with optional
+ * hard filters (SQL, before scoring) and tag boosting (soft, not filter)
+ * 
+ * @param contextIds - Contexts to search (results carry their memory's contextId)
+ */
+export function searchFacts(
+  contextIds: string[],
+  queryVector: number[] | null,
+  embeddingType: EmbeddingType,
+  options: SearchOptions = {}
+): FactWithScore[] {
+  const {
+    topK = 20,
+    boostTags,
+    lambda = 0.1,
+    mode = "semantic",
+    queryText,
+    keywordWeight = 0.3,
+    filters,
+    supersededWeight = 1,
+    rankingWeights = () => NO_RANKING,
+  } = options;
+
+  const useVectors = mode !== "keyword";
+  const useKeywords = mode !== "semantic";
+
+  if (useVectors && !queryVector) {
+    throw new Error(`${mode} search requires a query vector`);
+  }
+  if (useKeywords && !queryText) {
+    throw new Error(`${mode} search requires query text`);
+  }
+
+  const vectorTable = EMBEDDING_CONFIGS[embeddingType].tableName;
+
+  // Hard filters narrow the candidate set in SQL, before anything is scored
+  const filterConditions = memoryFilterConditions(filters);
+
+  const keywordHits = useKeywords
+    ? keywordScores(contextIds, queryText!, Math.max(topK * 5, 50), filterConditions)
+    : new Map<string, number>();
+  const keywordIds = Array.from(keywordHits.keys());
+  const byKeywordIds = (ids: string[]): SqlCondition => ({
+    sql: `f.id IN (${ids.map(() => "?").join(", ")})`,
+    params: ids,
+  });
+
+  let rows: any[] = [];
+  if (useVectors) {
+    // Narrow to likely neighbours when an approximate index is built
+    const candidates = vectorIndex.candidateFilter(queryVector!, embeddingType);
+    if (candidates) {
+      rows = selectFactRows(contextIds, vectorTable, [...filterConditions, candidates]);
+    }
+
+    // Fall back to an exact scan without an index, or when the probed lists are too sparse
+    if (!candidates || rows.length < topK) {
+      rows = selectFactRows(contextIds, vectorTable, filterConditions);
+    }
+
+    // Keyword hits outside the probed lists still need a semantic score
+    const loaded = new Set(rows.map((row) => row.id));
+    const missing = keywordIds.filter((id) => !loaded.has(id));
+    if (missing.length > 0) {
+      rows = rows.concat(selectFactRows(contextIds, vectorTable, [byKeywordIds(missing)]));
+    }
+  } else if (keywordIds.length > 0) {
+    rows = selectFactRows(contextIds, null, [byKeywordIds(keywordIds)]);
+  }
 
   // Normalize boost tags for case-insensitive partial matching
   const normalizedBoostTags = boostTags?.map((tag: string) => tag.toLowerCase()) || [];
 
   // Score each fact
+  const now = Date.now();
+  const semanticScores = new Map<string, number>();
   const scored: FactWithScore[] = rows.map((row) => {
-    const embedding = blobToVector(row.embedding);
-    const vectorScore = dotProduct(queryVector, embedding);
-
-    let tagBoost = 0;
-    if (normalizedBoostTags.length > 0) {
-      const memoryTags = JSON.parse(row.tags) as string[];
-      const normalizedMemoryTags = memoryTags.map((tag: string) => tag.toLowerCase());
-      
-      // Count matches (case-insensitive partial match)
-      let matches = 0;
-      for (const boostTag of normalizedBoostTags) {
-        for (const memoryTag of normalizedMemoryTags) {
-          // Check if either tag contains the other (partial match)
-          if (memoryTag.includes(boostTag) || boostTag.includes(memoryTag)) {
-            matches++;
-            break; // Count each boost tag at most once
-          }
-        }
-      }
-      
-      tagBoost = lambda * matches;
+    const semanticScore = useVectors ? dotProduct(queryVector!, blobToVector(row.embedding)) : 0;
+    const keywordScore = keywordHits.get(row.id) ?? 0;
+    semanticScores.set(row.id, semanticScore);
+
+    let baseScore: number;
+    if (mode === "semantic") {
+      baseScore = semanticScore;
+    } else if (mode === "keyword") {
+      baseScore = keywordScore;
+    } else {
+      baseScore = (1 - keywordWeight) * semanticScore + keywordWeight * keywordScore;
     }
 
-    const totalScore = vectorScore + tagBoost;
+    const memoryTags = JSON.parse(row.tags) as string[];
+    const tagBoost = normalizedBoostTags.length > 0
+      ? lambda * countTagMatches(memoryTags, normalizedBoostTags)
+      : 0;
+
+    // Replaced memories sink below their replacements instead of competing with them
+    const { score, breakdown } = rankScore(
+      {
+        relevance: baseScore,
+        tagBoost,
+        updatedAt: row.m_updated_at,
+        accessCount: row.m_access_count,
+        supersededFactor: row.m_superseded_by ? supersededWeight : 1,
+      },
+      rankingWeights(row.context_id),
+      now
+    );
 
     return {
       id: row.id,
@@ -280,24 +548,55 @@ export function searchFacts(
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       version: row.version,
-      score: totalScore,
+      score,
+      scoreBreakdown: breakdown,
       memory: {
         id: row.m_id,
         contextId: row.context_id,
         text: row.m_text,
-        tags: JSON.parse(row.tags),
+        tags: memoryTags,
         createdAt: row.m_created_at,
         updatedAt: row.m_updated_at,
         version: row.m_version,
+        ...(row.m_superseded_by && { supersededBy: row.m_superseded_by, supersededAt: row.m_superseded_at }),
+        ...(row.m_last_accessed_at && { accessCount: row.m_access_count, lastAccessedAt: row.m_last_accessed_at }),
+        ...(row.m_pinned_at && { pinnedAt: row.m_pinned_at }),
       },
     };
   });
 
+  // A fact "matched semantically" if it ranks in the top K by similarity alone
+  const semanticTop = new Set(
+    Array.from(semanticScores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topK)
+      .map(([id]) => id)
+  );
+  scored.forEach((fact) => {
+    fact.matchedBy = [];
+    if (useVectors && semanticTop.has(fact.id)) fact.matchedBy.push("semantic");
+    if (keywordHits.has(fact.id)) fact.matchedBy.push("keyword");
+  });
+
   // Sort by score descending and return top K
   scored.sort((a, b) => b.score - a.score);
   return scored.slice(0, topK);
 }
 
+/**
+ * Count an access to each memory (returned by search or get_memory)
+ * Does not touch updated_at, so reading a memory never makes it look newer
+ */
+export function recordMemoryAccess(memoryIds: string[]): void {
+  const now = Date.now();
+  const update = db.prepare(`
+    UPDATE memories SET access_count = access_count + 1, last_accessed_at = ? WHERE id = ?
+  `);
+  db.transaction(() => {
+    memoryIds.forEach((id) => update.run(now, id));
+  })();
+}
+
 /**
  * List all memories for a user with optional case-insensitive tag filtering
  */
@@ -308,9 +607,10 @@ export function listMemories(
 ): Memory[] {
   // Get all memories for context, ordered by creation date
   const sql = `
-    SELECT id, context_id, text, tags, created_at, updated_at, version
+    SELECT id, context_id, text, tags, created_at, updated_at, version, superseded_by, superseded_at,
+           access_count, last_accessed_at, pinned_at
     FROM memories
-    WHERE context_id = ?
+    WHERE context_id = ? AND deleted_at IS NULL AND archived_at IS NULL
     ORDER BY created_at DESC
   `;
 
@@ -318,7 +618,7 @@ export function listMemories(
   const rows = stmt.all(contextId) as any[];
 
   // Parse and filter in JavaScript for case-insensitive matching
-  let memories = rows.map((row) => ({
+  let memories: Memory[] = rows.map((row) => ({
     id: row.id,
     contextId: row.context_id,
     text: row.text,
@@ -326,6 +626,9 @@ export function listMemories(
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     version: row.version,
+    ...(row.superseded_by && { supersededBy: row.superseded_by, supersededAt: row.superseded_at }),
+    ...(row.last_accessed_at && { accessCount: row.access_count, lastAccessedAt: row.last_accessed_at }),
+    ...(row.pinned_at && { pinnedAt: row.pinned_at }),
   }));
 
   // Apply case-insensitive tag filtering if provided
@@ -344,18 +647,83 @@ export function listMemories(
   return memories.slice(0, limit);
 }
 
+/**
+ * Get every context ID that has memories (including trash)
+ */
+export function getContextIds(): string[] {
+  const rows = db.prepare(`
+    SELECT DISTINCT context_id FROM memories ORDER BY context_id
+  `).all() as any[];
+
+  return rows.map((row) => row.context_id);
+}
+
+export interface ContextStats {
+  contextId: string;
+  memoryCount: number;
+  trashCount: number;
+  factCount: number;
+  toolCallNoteCount: number;
+  lastActivity: number | null; // Latest memory/note write or deletion
+}
+
+/**
+ * Get memory, fact and note counts plus last activity for each context
+ * Contexts without any data are included with zero counts
+ */
+export function getContextStats(contextIds: string[]): ContextStats[] {
+  const placeholders = contextIds.map(() => "?").join(", ");
+
+  const memoryRows = db.prepare(`
+    SELECT
+      m.context_id,
+      SUM(CASE WHEN m.deleted_at IS NULL AND m.archived_at IS NULL THEN 1 ELSE 0 END) as memory_count,
+      SUM(CASE WHEN m.deleted_at IS NOT NULL THEN 1 ELSE 0 END) as trash_count,
+      SUM(CASE WHEN m.deleted_at IS NULL AND m.archived_at IS NULL
+        THEN (SELECT COUNT(*) FROM facts f WHERE f.memory_id = m.id) ELSE 0 END) as fact_count,
+      MAX(MAX(m.updated_at, COALESCE(m.deleted_at, 0))) as last_activity
+    FROM memories m
+    WHERE m.context_id IN (${placeholders})
+    GROUP BY m.context_id
+  `).all(...contextIds) as any[];
+
+  const noteRows = db.prepare(`
+    SELECT context_id, COUNT(*) as note_count, MAX(updated_at) as last_activity
+    FROM tool_call_notes
+    WHERE context_id IN (${placeholders})
+    GROUP BY context_id
+  `).all(...contextIds) as any[];
+
+  return contextIds.map((contextId) => {
+    const memories = memoryRows.find((row) => row.context_id === contextId);
+    const notes = noteRows.find((row) => row.context_id === contextId);
+    const lastActivity = Math.max(memories?.last_activity ?? 0, notes?.last_activity ?? 0);
+
+    return {
+      contextId,
+      memoryCount: memories?.memory_count ?? 0,
+      trashCount: memories?.trash_count ?? 0,
+      factCount: memories?.fact_count ?? 0,
+      toolCallNoteCount: notes?.note_count ?? 0,
+      lastActivity: lastActivity > 0 ? lastActivity : null,
+    };
+  });
+}
+
 /**
  * Update an existing memory
+ * The previous version is kept in memory_revisions
  */
 export function updateMemory(
   memoryId: string,
   contextId: string,
   text: string,
-  tags: string[]
+  tags: string[],
+  changeType: "update" | "revert" = "update"
 ): Memory | null {
-  // Verify the memory belongs to the user
+  // Verify the memory belongs to the user and is not in trash
   const memory = getMemory(memoryId);
-  if (!memory || memory.contextId !== contextId) {
+  if (!memory || memory.contextId !== contextId || memory.deletedAt) {
     return null;
   }
 
@@ -366,13 +734,17 @@ export function updateMemory(
     WHERE id = ?
   `);
 
-  stmt.run(text, JSON.stringify(tags), now, memoryId);
+  db.transaction(() => {
+    snapshotMemory(memory, changeType);
+    stmt.run(text, JSON.stringify(tags), now, memoryId);
+  })();
 
   return getMemory(memoryId);
 }
 
 /**
  * Update only tags of an existing memory (selective add/remove)
+ * The previous version is kept in memory_revisions
  */
 export function updateMemoryTags(
   memoryId: string,
@@ -380,9 +752,9 @@ export function updateMemoryTags(
   addTags?: string[],
   removeTags?: string[]
 ): Memory | null {
-  // Verify the memory belongs to the user
+  // Verify the memory belongs to the user and is not in trash
   const memory = getMemory(memoryId);
-  if (!memory || memory.contextId !== contextId) {
+  if (!memory || memory.contextId !== contextId || memory.deletedAt) {
     return null;
   }
 
@@ -409,7 +781,10 @@ export function updateMemoryTags(
     WHERE id = ?
   `);
 
-  stmt.run(JSON.stringify(currentTags), now, memoryId);
+  db.transaction(() => {
+    snapshotMemory(memory, "tags");
+    stmt.run(JSON.stringify(currentTags), now, memoryId);
+  })();
 
   return getMemory(memoryId);
 }
@@ -418,26 +793,110 @@ export function updateMemoryTags(
  * Delete all facts for a memory
  */
 export function deleteFactsForMemory(memoryId: string): number {
+  const factIds = (db.prepare(`SELECT id FROM facts WHERE memory_id = ?`).all(memoryId) as any[])
+    .map((row) => row.id);
+  vectorIndex.remove(factIds);
+
   const stmt = db.prepare(`DELETE FROM facts WHERE memory_id = ?`);
   const result = stmt.run(memoryId);
   return result.changes;
 }
 
 /**
- * Delete a specific memory by ID
+ * Move a memory to trash (soft delete)
+ * It is hidden from search, listing and tags until restored or purged
  */
 export function deleteMemory(memoryId: string, contextId: string): boolean {
   // Verify the memory belongs to the user
   const memory = getMemory(memoryId);
-  if (!memory || memory.contextId !== contextId) {
+  if (!memory || memory.contextId !== contextId || memory.deletedAt) {
     return false;
   }
 
-  const stmt = db.prepare(`DELETE FROM memories WHERE id = ?`);
-  const result = stmt.run(memoryId);
+  const stmt = db.prepare(`UPDATE memories SET deleted_at = ? WHERE id = ?`);
+  const result = stmt.run(Date.now(), memoryId);
   return result.changes > 0;
 }
 
+/**
+ * List memories in trash (most recently deleted first)
+ */
+export function listTrash(contextId: string, limit: number = 50): Memory[] {
+  const rows = db.prepare(`
+    SELECT id, context_id, text, tags, created_at, updated_at, version, deleted_at
+    FROM memories
+    WHERE context_id = ? AND deleted_at IS NOT NULL
+    ORDER BY deleted_at DESC
+    LIMIT ?
+  `).all(contextId, limit) as any[];
+
+  return rows.map((row) => ({
+    id: row.id,
+    contextId: row.context_id,
+    text: row.text,
+    tags: JSON.parse(row.tags),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    version: row.version,
+    deletedAt: row.deleted_at,
+  }));
+}
+
+/**
+ * Restore a memory from trash
+ */
+export function restoreMemory(memoryId: string, contextId: string): Memory | null {
+  const memory = getMemory(memoryId);
+  if (!memory || memory.contextId !== contextId || !memory.deletedAt) {
+    return null;
+  }
+
+  db.prepare(`UPDATE memories SET deleted_at = NULL WHERE id = ?`).run(memoryId);
+  return getMemory(memoryId);
+}
+
+/**
+ * Permanently delete trashed memories (facts, vectors and history cascade)
+ *
+ * @param contextId - Limit to one context, or null for all contexts
+ * @param deletedBefore - Only memories trashed before this timestamp
+ * @param memoryId - Only this memory
+ * @returns Number of memories purged
+ */
+export function purgeTrash(
+  contextId: string | null,
+  deletedBefore?: number,
+  memoryId?: string
+): number {
+  let where = `deleted_at IS NOT NULL`;
+  const params: any[] = [];
+
+  if (contextId !== null) {
+    where += ` AND context_id = ?`;
+    params.push(contextId);
+  }
+  if (deletedBefore !== undefined) {
+    where += ` AND deleted_at < ?`;
+    params.push(deletedBefore);
+  }
+  if (memoryId) {
+    where += ` AND id = ?`;
+    params.push(memoryId);
+  }
+
+  const purge = db.transaction(() => {
+    const factIds = (db.prepare(`
+      SELECT f.id FROM facts f
+      WHERE f.memory_id IN (SELECT id FROM memories WHERE ${where})
+    `).all(...params) as any[]).map((row) => row.id);
+    vectorIndex.remove(factIds);
+
+    return db.prepare(`DELETE FROM memories WHERE ${where}`).run(...params).changes;
+  });
+
+  return purge();
+}
+
 /**
  * Delete all memories for a user
  */
@@ -449,117 +908,767 @@ export function deleteAllMemories(contextId: string): number {
 
 
 // ============================================================================
-// Tool Call Notes Operations
+// Supersession Operations
 // ============================================================================
 
-export interface ToolCallNote {
-  id: string;
-  contextId: string;
-  toolName: string;
-  noteType: "success" | "failure" | "pattern" | "guideline";
-  content: string;
-  parameters?: string[];
-  errorMessage?: string;
-  successPattern?: string;
-  createdAt: number;
-  updatedAt: number;
-}
+const MAX_SUPERSESSION_CHAIN = 100;
 
 /**
- * Get tool call notes for a specific tool
+ * Mark a memory as replaced by a newer one (e.g. "moved from Postgres to MySQL")
+ * Both must be in the context and not in trash; chains may not loop.
+ * Returns null if either memory is not found
  */
-export function getToolCallNotes(
-  contextId: string,
-  toolName: string,
-  noteType?: string,
-  limit: number = 10
-): ToolCallNote[] {
-  let sql = `
-    SELECT * FROM tool_call_notes
-    WHERE context_id = ? AND tool_name = ?
-  `;
-  const params: any[] = [contextId, toolName];
-  
-  if (noteType && noteType !== "all") {
-    sql += ` AND note_type = ?`;
-    params.push(noteType);
+export function supersedeMemory(memoryId: string, supersededById: string, contextId: string): Memory | null {
+  if (memoryId === supersededById) {
+    throw new Error("A memory cannot supersede itself");
   }
-  
-  sql += ` ORDER BY created_at DESC LIMIT ?`;
-  params.push(limit);
-  
-  const stmt = db.prepare(sql);
-  const rows = stmt.all(...params) as any[];
-  
-  return rows.map((row) => ({
-    id: row.id,
-    contextId: row.context_id,
-    toolName: row.tool_name,
-    noteType: row.note_type,
-    content: row.content,
-    parameters: row.parameters ? JSON.parse(row.parameters) : undefined,
-    errorMessage: row.error_message,
-    successPattern: row.success_pattern,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  }));
+
+  const memory = getMemory(memoryId);
+  const replacement = getMemory(supersededById);
+  if (!memory || memory.contextId !== contextId || memory.deletedAt) return null;
+  if (!replacement || replacement.contextId !== contextId || replacement.deletedAt) return null;
+
+  // Reaching memoryId along the replacement's own chain would make a loop
+  if (isSupersededBy(supersededById, memoryId)) {
+    throw new Error(`Memory ${supersededById} is already superseded (directly or indirectly) by ${memoryId}`);
+  }
+
+  db.prepare(`UPDATE memories SET superseded_by = ?, superseded_at = ? WHERE id = ?`)
+    .run(supersededById, Date.now(), memoryId);
+
+  return getMemory(memoryId);
 }
 
 /**
- * Add a new tool call note
+ * Whether a memory is superseded (directly or indirectly) by another one
  */
-export function addToolCallNote(
-  contextId: string,
-  toolName: string,
-  noteType: "success" | "failure" | "pattern" | "guideline",
-  content: string,
-  parameters?: string[],
-  errorMessage?: string,
-  successPattern?: string
-): string {
-  const id = nanoid();
-  const now = Date.now();
-  
-  const stmt = db.prepare(`
-    INSERT INTO tool_call_notes 
-    (id, context_id, tool_name, note_type, content, parameters, error_message, success_pattern, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-  `);
-  
-  stmt.run(
-    id,
-    contextId,
-    toolName,
-    noteType,
-    content,
-    parameters ? JSON.stringify(parameters) : null,
-    errorMessage || null,
-    successPattern || null,
-    now,
-    now
-  );
-  
-  return id;
+export function isSupersededBy(memoryId: string, byId: string): boolean {
+  let next = getMemory(memoryId)?.supersededBy;
+  for (let i = 0; next && i < MAX_SUPERSESSION_CHAIN; i++) {
+    if (next === byId) return true;
+    next = getMemory(next)?.supersededBy;
+  }
+  return false;
 }
 
 /**
- * Delete a tool call note by ID
+ * Mark a memory as current again
+ * Returns null if the memory is not found
  */
-export function deleteToolCallNote(
-  contextId: string,
-  noteId: string
-): boolean {
-  const stmt = db.prepare(`
-    DELETE FROM tool_call_notes 
-    WHERE id = ? AND context_id = ?
-  `);
-  
-  const result = stmt.run(noteId, contextId);
-  return result.changes > 0;
+export function clearSupersession(memoryId: string, contextId: string): Memory | null {
+  const memory = getMemory(memoryId);
+  if (!memory || memory.contextId !== contextId || memory.deletedAt) {
+    return null;
+  }
+
+  db.prepare(`UPDATE memories SET superseded_by = NULL, superseded_at = NULL WHERE id = ?`).run(memoryId);
+  return getMemory(memoryId);
 }
 
 /**
- * Get tool call note statistics (tool name and count)
+ * Follow superseded_by to the memory that currently replaces this one
+ * Replacements in trash (or purged) end the chain; null if the memory is current
+ */
+export function getCurrentReplacement(memoryId: string): Memory | null {
+  let current: Memory | null = null;
+  let next = getMemory(memoryId)?.supersededBy;
+
+  for (let i = 0; next && i < MAX_SUPERSESSION_CHAIN; i++) {
+    const replacement = getMemory(next);
+    if (!replacement || replacement.deletedAt) break;
+    current = replacement;
+    next = replacement.supersededBy;
+  }
+
+  return current;
+}
+
+/**
+ * Point superseded_by at another ID without checks (import remapping)
+ */
+export function setSupersededBy(memoryId: string, supersededById: string): void {
+  db.prepare(`UPDATE memories SET superseded_by = ? WHERE id = ?`).run(supersededById, memoryId);
+}
+
+/**
+ * IDs of the memories directly replaced by this one
+ */
+export function getSupersededMemoryIds(memoryId: string): string[] {
+  const rows = db.prepare(`
+    SELECT id FROM memories WHERE superseded_by = ? AND deleted_at IS NULL ORDER BY superseded_at
+  `).all(memoryId) as any[];
+  return rows.map((row) => row.id);
+}
+
+
+// ============================================================================
+// Consolidation Operations
+// ============================================================================
+
+/**
+ * Archive a memory that was merged into a consolidated one
+ * Archived memories drop out of search, lists and tags but stay readable by ID
+ */
+export function archiveMemory(memoryId: string, consolidatedInto: string): void {
+  db.prepare(`UPDATE memories SET archived_at = ?, consolidated_into = ? WHERE id = ?`)
+    .run(Date.now(), consolidatedInto, memoryId);
+}
+
+/**
+ * Point consolidated_into at another ID without checks (import remapping)
+ */
+export function setConsolidatedInto(memoryId: string, consolidatedInto: string): void {
+  db.prepare(`UPDATE memories SET consolidated_into = ? WHERE id = ?`).run(consolidatedInto, memoryId);
+}
+
+/**
+ * IDs of the archived memories consolidated into this one, oldest first
+ */
+export function getConsolidatedMemoryIds(memoryId: string): string[] {
+  const rows = db.prepare(`
+    SELECT id FROM memories WHERE consolidated_into = ? ORDER BY created_at
+  `).all(memoryId) as any[];
+  return rows.map((row) => row.id);
+}
+
+
+// ============================================================================
+// Pin Operations
+// ============================================================================
+
+/**
+ * Pin or unpin a memory (pinning an already pinned memory keeps its pin time)
+ * Returns null if the memory is not found, in trash or archived
+ */
+export function setMemoryPinned(memoryId: string, contextId: string, pinned: boolean): Memory | null {
+  const memory = getMemory(memoryId);
+  if (!memory || memory.contextId !== contextId || memory.deletedAt || memory.archivedAt) {
+    return null;
+  }
+
+  db.prepare(`UPDATE memories SET pinned_at = ? WHERE id = ?`)
+    .run(pinned ? memory.pinnedAt ?? Date.now() : null, memoryId);
+  return getMemory(memoryId);
+}
+
+/**
+ * Get the pinned memories of a context, in pin order
+ */
+export function getPinnedMemories(contextId: string): Memory[] {
+  const ids = db.prepare(`
+    SELECT id FROM memories
+    WHERE context_id = ? AND pinned_at IS NOT NULL AND deleted_at IS NULL AND archived_at IS NULL
+    ORDER BY pinned_at
+  `).all(contextId) as any[];
+
+  return ids.map((row) => getMemory(row.id)!);
+}
+
+
+// ============================================================================
+// Link Operations
+// ============================================================================
+
+export const MEMORY_RELATIONS: MemoryRelation[] = ["relates_to", "depends_on", "supersedes", "derived_from"];
+
+function rowToLink(row: any): MemoryLink {
+  return {
+    sourceId: row.source_id,
+    targetId: row.target_id,
+    relation: row.relation as MemoryRelation,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Whether a memory can take part in links (in the context, not in trash or archived)
+ */
+function isLinkable(memory: Memory | null, contextId: string): memory is Memory {
+  return !!memory && memory.contextId === contextId && !memory.deletedAt && !memory.archivedAt;
+}
+
+/**
+ * Link one memory to another (linking twice keeps the first link)
+ * Returns null if either memory is not found, in trash or archived
+ */
+export function linkMemories(
+  sourceId: string,
+  targetId: string,
+  relation: MemoryRelation,
+  contextId: string
+): MemoryLink | null {
+  if (!isLinkable(getMemory(sourceId), contextId) || !isLinkable(getMemory(targetId), contextId)) {
+    return null;
+  }
+
+  db.prepare(`
+    INSERT OR IGNORE INTO memory_links (source_id, target_id, relation, created_at) VALUES (?, ?, ?, ?)
+  `).run(sourceId, targetId, relation, Date.now());
+
+  const row = db.prepare(`
+    SELECT * FROM memory_links WHERE source_id = ? AND target_id = ? AND relation = ?
+  `).get(sourceId, targetId, relation);
+  return rowToLink(row);
+}
+
+/**
+ * Remove the links from one memory to another (every relation unless one is given)
+ * Returns the number of links removed
+ */
+export function unlinkMemories(
+  sourceId: string,
+  targetId: string,
+  contextId: string,
+  relation?: MemoryRelation
+): number {
+  const source = getMemory(sourceId);
+  if (!source || source.contextId !== contextId) {
+    return 0;
+  }
+
+  const result = relation
+    ? db.prepare(`DELETE FROM memory_links WHERE source_id = ? AND target_id = ? AND relation = ?`)
+        .run(sourceId, targetId, relation)
+    : db.prepare(`DELETE FROM memory_links WHERE source_id = ? AND target_id = ?`).run(sourceId, targetId);
+  return result.changes;
+}
+
+/**
+ * Give a memory the links of other memories (consolidation: the merged memory
+ * keeps its originals' links to memories outside the group)
+ */
+export function copyMemoryLinks(fromIds: string[], toId: string): void {
+  const ids = fromIds.map(() => "?").join(", ");
+  db.prepare(`
+    INSERT OR IGNORE INTO memory_links (source_id, target_id, relation, created_at)
+    SELECT ?, target_id, relation, created_at FROM memory_links
+    WHERE source_id IN (${ids}) AND target_id NOT IN (${ids})
+  `).run(toId, ...fromIds, ...fromIds);
+  db.prepare(`
+    INSERT OR IGNORE INTO memory_links (source_id, target_id, relation, created_at)
+    SELECT source_id, ?, relation, created_at FROM memory_links
+    WHERE target_id IN (${ids}) AND source_id NOT IN (${ids})
+  `).run(toId, ...fromIds, ...fromIds);
+}
+
+/**
+ * Get the links from and to a memory, oldest first
+ */
+export function getMemoryLinks(memoryId: string): MemoryLink[] {
+  const rows = db.prepare(`
+    SELECT * FROM memory_links WHERE source_id = ? OR target_id = ? ORDER BY created_at
+  `).all(memoryId, memoryId) as any[];
+  return rows.map(rowToLink);
+}
+
+/**
+ * Get the memories reachable from the start memories within maxDepth hops,
+ * following links in both directions, nearest first
+ * Memories in trash or archived are neither returned nor followed.
+ *
+ * @param relations - Only follow these relations (default: all)
+ */
+export function getLinkedMemories(
+  memoryIds: string[],
+  maxDepth: number,
+  relations?: MemoryRelation[]
+): LinkedMemory[] {
+  const visited = new Set(memoryIds);
+  const linked: LinkedMemory[] = [];
+  let frontier = memoryIds;
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+
+    for (const memoryId of frontier) {
+      for (const link of getMemoryLinks(memoryId)) {
+        if (relations && !relations.includes(link.relation)) continue;
+
+        const outgoing = link.sourceId === memoryId;
+        const neighborId = outgoing ? link.targetId : link.sourceId;
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const memory = getMemory(neighborId);
+        if (!memory || memory.deletedAt || memory.archivedAt) continue;
+
+        linked.push({
+          memory,
+          relation: link.relation,
+          direction: outgoing ? "outgoing" : "incoming",
+          via: memoryId,
+          depth,
+        });
+        next.push(neighborId);
+      }
+    }
+
+    frontier = next;
+  }
+
+  return linked;
+}
+
+
+// ============================================================================
+// Entity Operations
+// ============================================================================
+
+function rowToEntity(row: any): Entity {
+  const aliases = db.prepare(`SELECT alias FROM entity_aliases WHERE entity_id = ? ORDER BY rowid`)
+    .all(row.id) as any[];
+
+  return {
+    id: row.id,
+    contextId: row.context_id,
+    name: row.name,
+    type: row.type as EntityType,
+    aliases: aliases.map((alias) => alias.alias),
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Find an entity of a context by name or alias (case-insensitive)
+ */
+export function findEntity(contextId: string, name: string): Entity | null {
+  const row = db.prepare(`
+    SELECT e.* FROM entity_aliases a
+    JOIN entities e ON e.id = a.entity_id
+    WHERE a.context_id = ? AND a.alias = ? COLLATE NOCASE
+  `).get(contextId, name.trim());
+
+  return row ? rowToEntity(row) : null;
+}
+
+/**
+ * Link a fact to the entities it mentions, creating entities for unknown names
+ * An extracted entity matches an existing one through its name or any alias;
+ * new aliases are added to it, and a known type replaces 'other'.
+ */
+export function recordFactEntities(contextId: string, factId: string, entities: ExtractedEntity[]): void {
+  for (const extracted of entities) {
+    const names = [extracted.name, ...extracted.aliases].map((name) => name.trim()).filter(Boolean);
+    if (names.length === 0) continue;
+
+    let entity = names.map((name) => findEntity(contextId, name)).find((found) => found !== null) ?? null;
+    if (!entity) {
+      const id = generateShortId();
+      db.prepare(`INSERT INTO entities (id, context_id, name, type, created_at) VALUES (?, ?, ?, ?, ?)`)
+        .run(id, contextId, names[0], extracted.type, Date.now());
+      entity = { id, contextId, name: names[0], type: extracted.type, aliases: [], createdAt: Date.now() };
+    } else if (entity.type === "other" && extracted.type !== "other") {
+      db.prepare(`UPDATE entities SET type = ? WHERE id = ?`).run(extracted.type, entity.id);
+    }
+
+    // An alias already taken by another entity stays with it
+    const addAlias = db.prepare(`INSERT OR IGNORE INTO entity_aliases (entity_id, context_id, alias) VALUES (?, ?, ?)`);
+    names.forEach((name) => addAlias.run(entity!.id, contextId, name));
+
+    db.prepare(`INSERT OR IGNORE INTO fact_entities (fact_id, entity_id) VALUES (?, ?)`).run(factId, entity.id);
+  }
+}
+
+/**
+ * List the entities mentioned by live memories of a context (not in trash or
+ * archived), most mentioned first
+ *
+ * @param query - Only entities with a name or alias containing this (case-insensitive)
+ */
+export function listEntities(
+  contextId: string,
+  filters: { type?: EntityType; query?: string } = {},
+  limit: number = 50
+): EntitySummary[] {
+  const conditions: SqlCondition[] = [];
+  if (filters.type) {
+    conditions.push({ sql: `e.type = ?`, params: [filters.type] });
+  }
+  if (filters.query) {
+    conditions.push({
+      sql: `EXISTS (SELECT 1 FROM entity_aliases a WHERE a.entity_id = e.id AND instr(lower(a.alias), lower(?)) > 0)`,
+      params: [filters.query],
+    });
+  }
+  const where = andConditions(conditions);
+
+  const rows = db.prepare(`
+    SELECT e.*, COUNT(DISTINCT m.id) AS memory_count, COUNT(DISTINCT f.id) AS fact_count,
+           MAX(f.created_at) AS last_mentioned_at
+    FROM entities e
+    JOIN fact_entities fe ON fe.entity_id = e.id
+    JOIN facts f ON f.id = fe.fact_id
+    JOIN memories m ON m.id = f.memory_id
+    WHERE e.context_id = ? AND m.deleted_at IS NULL AND m.archived_at IS NULL
+    ${where.sql}
+    GROUP BY e.id
+    ORDER BY memory_count DESC, last_mentioned_at DESC
+    LIMIT ?
+  `).all(contextId, ...where.params, limit) as any[];
+
+  return rows.map((row) => ({
+    ...rowToEntity(row),
+    memoryCount: row.memory_count,
+    factCount: row.fact_count,
+    lastMentionedAt: row.last_mentioned_at,
+  }));
+}
+
+/**
+ * Get the live memories mentioning an entity with the facts that mention it,
+ * most recently updated first
+ */
+export function getEntityMemories(entityId: string, limit: number = 50): Array<{ memory: Memory; facts: Fact[] }> {
+  const rows = db.prepare(`
+    SELECT f.memory_id, f.id AS fact_id
+    FROM fact_entities fe
+    JOIN facts f ON f.id = fe.fact_id
+    JOIN memories m ON m.id = f.memory_id
+    WHERE fe.entity_id = ? AND m.deleted_at IS NULL AND m.archived_at IS NULL
+    ORDER BY m.updated_at DESC
+  `).all(entityId) as any[];
+
+  const factIds = new Map<string, Set<string>>();
+  for (const row of rows) {
+    if (!factIds.has(row.memory_id)) factIds.set(row.memory_id, new Set());
+    factIds.get(row.memory_id)!.add(row.fact_id);
+  }
+
+  return Array.from(factIds.entries()).slice(0, limit).map(([memoryId, ids]) => ({
+    memory: getMemory(memoryId)!,
+    facts: getFactsByMemoryId(memoryId).filter((fact) => ids.has(fact.id)),
+  }));
+}
+
+/**
+ * Remove every entity of a context (and with them their aliases and mentions)
+ * Returns the number of entities removed
+ */
+export function clearEntities(contextId: string): number {
+  return db.prepare(`DELETE FROM entities WHERE context_id = ?`).run(contextId).changes;
+}
+
+
+// ============================================================================
+// Memory Revision Operations
+// ============================================================================
+
+/**
+ * Snapshot a memory's current text, tags, facts and fact vectors
+ * Called just before the memory is changed
+ */
+function snapshotMemory(memory: Memory, changeType: MemoryRevision["changeType"]): void {
+  const revisionId = nanoid();
+
+  db.prepare(`
+    INSERT INTO memory_revisions (id, memory_id, version, text, tags, change_type, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    revisionId,
+    memory.id,
+    memory.version,
+    memory.text,
+    JSON.stringify(memory.tags),
+    changeType,
+    Date.now()
+  );
+
+  const facts = db.prepare(`
+    SELECT id, text FROM facts WHERE memory_id = ? ORDER BY rowid
+  `).all(memory.id) as any[];
+
+  const insertFact = db.prepare(`
+    INSERT INTO memory_revision_facts (revision_id, position, text) VALUES (?, ?, ?)
+  `);
+
+  facts.forEach((fact, position) => {
+    insertFact.run(revisionId, position, fact.text);
+
+    // Keep whatever vectors the fact has, in every embedding table
+    for (const embeddingConfig of Object.values(EMBEDDING_CONFIGS)) {
+      db.prepare(`
+        INSERT INTO memory_revision_vectors (revision_id, position, embedding_type, embedding)
+        SELECT ?, ?, ?, embedding FROM ${embeddingConfig.tableName} WHERE fact_id = ?
+      `).run(revisionId, position, embeddingConfig.type, fact.id);
+    }
+  });
+}
+
+function rowToRevision(row: any): MemoryRevision {
+  const facts = db.prepare(`
+    SELECT text FROM memory_revision_facts WHERE revision_id = ? ORDER BY position
+  `).all(row.id) as any[];
+
+  return {
+    id: row.id,
+    memoryId: row.memory_id,
+    version: row.version,
+    text: row.text,
+    tags: JSON.parse(row.tags),
+    changeType: row.change_type,
+    createdAt: row.created_at,
+    facts: facts.map((fact) => fact.text),
+  };
+}
+
+/**
+ * Get all stored past versions of a memory (newest first)
+ */
+export function getMemoryRevisions(memoryId: string): MemoryRevision[] {
+  const rows = db.prepare(`
+    SELECT * FROM memory_revisions WHERE memory_id = ? ORDER BY version DESC
+  `).all(memoryId) as any[];
+
+  return rows.map(rowToRevision);
+}
+
+/**
+ * Get one past version of a memory
+ */
+export function getMemoryRevision(memoryId: string, version: number): MemoryRevision | null {
+  const row = db.prepare(`
+    SELECT * FROM memory_revisions WHERE memory_id = ? AND version = ?
+  `).get(memoryId, version) as any;
+
+  return row ? rowToRevision(row) : null;
+}
+
+/**
+ * Get the stored fact vectors of a revision for one embedding type
+ * Returns one entry per fact position; null where no vector was stored
+ */
+export function getRevisionVectors(
+  revision: MemoryRevision,
+  embeddingType: EmbeddingType
+): Array<number[] | null> {
+  const rows = db.prepare(`
+    SELECT position, embedding FROM memory_revision_vectors
+    WHERE revision_id = ? AND embedding_type = ?
+  `).all(revision.id, embeddingType) as any[];
+
+  const vectors: Array<number[] | null> = revision.facts.map(() => null);
+  rows.forEach((row) => {
+    vectors[row.position] = blobToVector(row.embedding);
+  });
+  return vectors;
+}
+
+// ============================================================================
+// Tool Call Notes Operations
+// ============================================================================
+
+export type ToolCallNoteScope = "context" | "global";
+
+export const TOOL_CALL_NOTE_SCOPES: ToolCallNoteScope[] = ["context", "global"];
+
+export interface ToolCallNote {
+  id: string;
+  contextId: string; // Where it was recorded; global notes are visible in every context
+  scope: ToolCallNoteScope;
+  toolName: string; // Tool name or glob pattern (jira-*) covering a family of tools
+  noteType: "success" | "failure" | "pattern" | "guideline";
+  content: string;
+  parameters?: string[];
+  errorMessage?: string;
+  successPattern?: string;
+  confirmedCount: number;
+  refutedCount: number;
+  lastVerifiedAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A tool call note visible in context ?: recorded there, or global
+const NOTE_VISIBLE = `(context_id = ? OR scope = 'global')`;
+
+// A tool call note applies to tool name ? (passed three times): same name, its
+// glob pattern covers the name, or the name is itself a pattern covering it
+const NOTE_FOR_TOOL = `(tool_name = ? OR ? GLOB tool_name OR tool_name GLOB ?)`;
+
+/**
+ * Get tool call notes for a tool (or glob pattern), from the context and
+ * global ones, best first (confidence and recency, see toolCallNoteRank)
+ */
+export function getToolCallNotes(
+  contextId: string,
+  toolName: string,
+  noteType?: string,
+  limit: number = 10
+): ToolCallNote[] {
+  let sql = `
+    SELECT * FROM tool_call_notes
+    WHERE ${NOTE_VISIBLE} AND ${NOTE_FOR_TOOL}
+  `;
+  const params: any[] = [contextId, toolName, toolName, toolName];
+  
+  if (noteType && noteType !== "all") {
+    sql += ` AND note_type = ?`;
+    params.push(noteType);
+  }
+  
+  const rows = db.prepare(sql).all(...params) as any[];
+  const now = Date.now();
+  
+  return rows
+    .map(rowToToolCallNote)
+    .map((note) => ({ note, rank: toolCallNoteRank(note, now) }))
+    .sort((a, b) => b.rank - a.rank || b.note.createdAt - a.note.createdAt)
+    .slice(0, limit)
+    .map(({ note }) => note);
+}
+
+/**
+ * Add a new tool call note
+ */
+export function addToolCallNote(
+  contextId: string,
+  toolName: string,
+  noteType: "success" | "failure" | "pattern" | "guideline",
+  content: string,
+  parameters?: string[],
+  errorMessage?: string,
+  successPattern?: string,
+  scope: ToolCallNoteScope = "context"
+): string {
+  const id = nanoid();
+  const now = Date.now();
+  
+  const stmt = db.prepare(`
+    INSERT INTO tool_call_notes 
+    (id, context_id, scope, tool_name, note_type, content, parameters, error_message, success_pattern, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  
+  stmt.run(
+    id,
+    contextId,
+    scope,
+    toolName,
+    noteType,
+    content,
+    parameters ? JSON.stringify(parameters) : null,
+    errorMessage || null,
+    successPattern || null,
+    now,
+    now
+  );
+  
+  return id;
+}
+
+/**
+ * Delete a tool call note by ID (only from the context that recorded it,
+ * global or not)
+ */
+export function deleteToolCallNote(
+  contextId: string,
+  noteId: string
+): boolean {
+  const stmt = db.prepare(`
+    DELETE FROM tool_call_notes 
+    WHERE id = ? AND context_id = ?
+  `);
+  
+  const result = stmt.run(noteId, contextId);
+  return result.changes > 0;
+}
+
+/**
+ * Get a tool call note by ID, if visible in the context (recorded there, or global)
+ */
+export function getToolCallNote(contextId: string, noteId: string): ToolCallNote | null {
+  const row = db.prepare(`SELECT * FROM tool_call_notes WHERE id = ? AND ${NOTE_VISIBLE}`).get(noteId, contextId);
+  return row ? rowToToolCallNote(row) : null;
+}
+
+/**
+ * Edit a tool call note (fields left undefined are kept; null clears
+ * parameters, error message or success pattern)
+ * Changing what the note says counts as a verification of the new text: the
+ * counters restart and the note's vectors are dropped so they are embedded
+ * from the new text. Changing only the scope keeps both, and updated_at, so
+ * sharing an old note does not make it look freshly checked.
+ * Only the context that recorded a note may edit it, global or not.
+ */
+export function updateToolCallNote(
+  contextId: string,
+  noteId: string,
+  changes: {
+    scope?: ToolCallNoteScope;
+    toolName?: string;
+    noteType?: ToolCallNote["noteType"];
+    content?: string;
+    parameters?: string[] | null;
+    errorMessage?: string | null;
+    successPattern?: string | null;
+  }
+): ToolCallNote | null {
+  const note = getToolCallNote(contextId, noteId);
+  if (!note || note.contextId !== contextId) {
+    return null;
+  }
+
+  const now = Date.now();
+  const parameters = changes.parameters === undefined ? note.parameters : changes.parameters ?? undefined;
+  const reverify = Object.entries(changes).some(([key, value]) => key !== "scope" && value !== undefined);
+
+  const update = db.transaction(() => {
+    db.prepare(`
+      UPDATE tool_call_notes
+      SET scope = ?, tool_name = ?, note_type = ?, content = ?, parameters = ?, error_message = ?, success_pattern = ?,
+          updated_at = ?
+      WHERE id = ?
+    `).run(
+      changes.scope ?? note.scope,
+      changes.toolName ?? note.toolName,
+      changes.noteType ?? note.noteType,
+      changes.content ?? note.content,
+      parameters ? JSON.stringify(parameters) : null,
+      (changes.errorMessage === undefined ? note.errorMessage : changes.errorMessage) || null,
+      (changes.successPattern === undefined ? note.successPattern : changes.successPattern) || null,
+      reverify ? now : note.updatedAt,
+      noteId
+    );
+
+    if (reverify) {
+      db.prepare(`
+        UPDATE tool_call_notes
+        SET confirmed_count = 0, refuted_count = 0, last_verified_at = ?
+        WHERE id = ?
+      `).run(now, noteId);
+
+      for (const model of Object.values(EMBEDDING_CONFIGS)) {
+        db.prepare(`DELETE FROM ${model.noteTableName} WHERE note_id = ?`).run(noteId);
+      }
+    }
+  });
+
+  update();
+  return getToolCallNote(contextId, noteId);
+}
+
+/**
+ * Record that a tool call note held up ('confirm') or turned out wrong
+ * ('refute') just now
+ */
+export function verifyToolCallNote(
+  contextId: string,
+  noteId: string,
+  outcome: "confirm" | "refute"
+): ToolCallNote | null {
+  const counter = outcome === "confirm" ? "confirmed_count" : "refuted_count";
+  const result = db.prepare(`
+    UPDATE tool_call_notes
+    SET ${counter} = ${counter} + 1, last_verified_at = ?
+    WHERE id = ? AND ${NOTE_VISIBLE}
+  `).run(Date.now(), noteId, contextId);
+
+  return result.changes > 0 ? getToolCallNote(contextId, noteId) : null;
+}
+
+/**
+ * Get tool call note statistics (tool name or pattern and count, including
+ * global notes)
  * Used for dynamic tool descriptions
  */
 export function getToolCallNoteStats(
@@ -568,7 +1677,7 @@ export function getToolCallNoteStats(
   const stmt = db.prepare(`
     SELECT tool_name, COUNT(*) as count
     FROM tool_call_notes
-    WHERE context_id = ?
+    WHERE ${NOTE_VISIBLE}
     GROUP BY tool_name
     ORDER BY count DESC, tool_name ASC
   `);
@@ -580,6 +1689,107 @@ export function getToolCallNoteStats(
   }));
 }
 
+export interface ScoredToolCallNote extends ToolCallNote {
+  score: number; // Cosine similarity to the query
+}
+
+/**
+ * The text a tool call note is embedded as: tool, content, error and pattern,
+ * so an error message or an intent finds it
+ */
+export function toolCallNoteText(
+  note: Pick<ToolCallNote, "toolName" | "content" | "errorMessage" | "successPattern">
+): string {
+  return [
+    `${note.toolName}: ${note.content}`,
+    note.errorMessage && `Error: ${note.errorMessage}`,
+    note.successPattern && `Worked: ${note.successPattern}`,
+  ].filter(Boolean).join("\n");
+}
+
+/**
+ * Store the embedding of a tool call note (replacing any older one of that type)
+ */
+export function addEmbeddingToToolCallNote(
+  noteId: string,
+  embedding: number[],
+  embeddingType: EmbeddingType
+): void {
+  const vectorTable = EMBEDDING_CONFIGS[embeddingType].noteTableName;
+
+  db.prepare(`
+    INSERT OR REPLACE INTO ${vectorTable} (note_id, dim, unit_norm, embedding)
+    VALUES (?, ?, 1, ?)
+  `).run(noteId, embedding.length, vectorToBlob(embedding));
+}
+
+/**
+ * Get tool call notes without an embedding of the given type, as the text to embed
+ */
+export function getToolCallNotesMissingEmbeddings(embeddingType: EmbeddingType): Array<{ id: string; text: string }> {
+  const vectorTable = EMBEDDING_CONFIGS[embeddingType].noteTableName;
+
+  const rows = db.prepare(`
+    SELECT n.*
+    FROM tool_call_notes n
+    LEFT JOIN ${vectorTable} v ON n.id = v.note_id
+    WHERE v.note_id IS NULL
+  `).all() as any[];
+
+  return rows.map((row) => ({ id: row.id, text: toolCallNoteText(rowToToolCallNote(row)) }));
+}
+
+/**
+ * Get count of tool call notes missing embeddings for a specific embedding type
+ */
+export function countToolCallNotesMissingEmbeddings(embeddingType: EmbeddingType): number {
+  const vectorTable = EMBEDDING_CONFIGS[embeddingType].noteTableName;
+
+  const row = db.prepare(`
+    SELECT COUNT(*) as count
+    FROM tool_call_notes n
+    LEFT JOIN ${vectorTable} v ON n.id = v.note_id
+    WHERE v.note_id IS NULL
+  `).get() as any;
+  return row.count;
+}
+
+/**
+ * Tool call notes of a context (and global ones) most similar to the query
+ * vector, across all tools unless toolName is given (matched like
+ * getToolCallNotes; notes without an embedding of this type are skipped)
+ */
+export function searchToolCallNotes(
+  contextId: string,
+  queryVector: number[],
+  embeddingType: EmbeddingType,
+  options: { toolName?: string; noteType?: string; limit: number }
+): ScoredToolCallNote[] {
+  const vectorTable = EMBEDDING_CONFIGS[embeddingType].noteTableName;
+  const conditions: SqlCondition[] = [];
+
+  if (options.toolName) {
+    conditions.push({ sql: NOTE_FOR_TOOL, params: [options.toolName, options.toolName, options.toolName] });
+  }
+  if (options.noteType && options.noteType !== "all") {
+    conditions.push({ sql: "note_type = ?", params: [options.noteType] });
+  }
+
+  const where = andConditions(conditions);
+  const rows = db.prepare(`
+    SELECT n.*, v.embedding
+    FROM tool_call_notes n
+    JOIN ${vectorTable} v ON n.id = v.note_id
+    WHERE ${NOTE_VISIBLE}
+    ${where.sql}
+  `).all(contextId, ...where.params) as any[];
+
+  return rows
+    .map((row) => ({ ...rowToToolCallNote(row), score: dotProduct(queryVector, blobToVector(row.embedding)) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit);
+}
+
 /**
  * Get facts that are missing embeddings for a specific embedding type
  * Returns facts that don't have entries in the target embedding table
@@ -635,5 +1845,487 @@ export function addEmbeddingToFact(
   `);
   
   stmt.run(factId, embedding.length, vectorToBlob(embedding));
+  vectorIndex.add(factId, embedding, embeddingType);
+}
+
+
+// ============================================================================
+// Import / Export Operations
+// ============================================================================
+
+function rowToMemory(row: any): Memory {
+  return {
+    id: row.id,
+    contextId: row.context_id,
+    text: row.text,
+    tags: JSON.parse(row.tags),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    version: row.version,
+    ...(row.deleted_at && { deletedAt: row.deleted_at }),
+    ...(row.superseded_by && { supersededBy: row.superseded_by, supersededAt: row.superseded_at }),
+    ...(row.archived_at && { archivedAt: row.archived_at, consolidatedInto: row.consolidated_into }),
+    ...(row.last_accessed_at && { accessCount: row.access_count, lastAccessedAt: row.last_accessed_at }),
+    ...(row.pinned_at && { pinnedAt: row.pinned_at }),
+  };
+}
+
+function rowToToolCallNote(row: any): ToolCallNote {
+  return {
+    id: row.id,
+    contextId: row.context_id,
+    scope: row.scope,
+    toolName: row.tool_name,
+    noteType: row.note_type,
+    content: row.content,
+    parameters: row.parameters ? JSON.parse(row.parameters) : undefined,
+    errorMessage: row.error_message ?? undefined,
+    successPattern: row.success_pattern ?? undefined,
+    confirmedCount: row.confirmed_count,
+    refutedCount: row.refuted_count,
+    ...(row.last_verified_at && { lastVerifiedAt: row.last_verified_at }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Build "context_id IN (...)" for an optional list of contexts
+ */
+function contextCondition(contextIds?: string[]): { sql: string; params: string[] } {
+  if (!contextIds) return { sql: "1", params: [] };
+  return {
+    sql: `context_id IN (${contextIds.map(() => "?").join(", ")})`,
+    params: contextIds,
+  };
+}
+
+/**
+ * Get every memory (including trash) in the given contexts, oldest first
+ * 
+ * @param contextIds - Contexts to include, or undefined for all
+ */
+export function getMemoriesForExport(contextIds?: string[]): Memory[] {
+  const where = contextCondition(contextIds);
+  const rows = db.prepare(`
+    SELECT id, context_id, text, tags, created_at, updated_at, version, deleted_at, superseded_by, superseded_at,
+           archived_at, consolidated_into, access_count, last_accessed_at, pinned_at
+    FROM memories
+    WHERE ${where.sql}
+    ORDER BY created_at
+  `).all(...where.params) as any[];
+
+  return rows.map(rowToMemory);
+}
+
+/**
+ * Get the links whose source memory is in the given contexts, oldest first
+ *
+ * @param contextIds - Contexts to include, or undefined for all
+ */
+export function getLinksForExport(contextIds?: string[]): MemoryLink[] {
+  const where = contextCondition(contextIds);
+  const rows = db.prepare(`
+    SELECT * FROM memory_links
+    WHERE source_id IN (SELECT id FROM memories WHERE ${where.sql})
+    ORDER BY created_at
+  `).all(...where.params) as any[];
+
+  return rows.map(rowToLink);
+}
+
+/**
+ * Get every tool call note in the given contexts plus the global ones, oldest first
+ * 
+ * @param contextIds - Contexts to include, or undefined for all
+ */
+export function getToolCallNotesForExport(contextIds?: string[]): ToolCallNote[] {
+  const where = contextCondition(contextIds);
+  const rows = db.prepare(`
+    SELECT * FROM tool_call_notes
+    WHERE ${where.sql} OR scope = 'global'
+    ORDER BY created_at
+  `).all(...where.params) as any[];
+
+  return rows.map(rowToToolCallNote);
+}
+
+/**
+ * Get all stored vectors of a fact, keyed by embedding type
+ */
+export function getFactVectors(factId: string): Partial<Record<EmbeddingType, number[]>> {
+  const vectors: Partial<Record<EmbeddingType, number[]>> = {};
+
+  for (const embeddingConfig of Object.values(EMBEDDING_CONFIGS)) {
+    const row = db.prepare(`
+      SELECT embedding FROM ${embeddingConfig.tableName} WHERE fact_id = ?
+    `).get(factId) as any;
+
+    if (row) {
+      vectors[embeddingConfig.type] = blobToVector(row.embedding);
+    }
+  }
+
+  return vectors;
+}
+
+export function memoryExists(memoryId: string): boolean {
+  return !!db.prepare(`SELECT 1 FROM memories WHERE id = ?`).get(memoryId);
+}
+
+export function factExists(factId: string): boolean {
+  return !!db.prepare(`SELECT 1 FROM facts WHERE id = ?`).get(factId);
+}
+
+/** Context a tool call note was recorded in, or null if there is no such note */
+export function getToolCallNoteContextId(noteId: string): string | null {
+  const row = db.prepare(`SELECT context_id FROM tool_call_notes WHERE id = ?`).get(noteId) as any;
+  return row ? row.context_id : null;
+}
+
+/**
+ * Insert a memory exactly as given (ID, timestamps, version, trash state)
+ * Used by import - normal writes go through createMemory
+ */
+export function insertMemoryRecord(memory: Memory): void {
+  db.prepare(`
+    INSERT INTO memories (id, context_id, text, tags, created_at, updated_at, version, deleted_at,
+                          superseded_by, superseded_at, archived_at, consolidated_into, access_count, last_accessed_at,
+                          pinned_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    memory.id,
+    memory.contextId,
+    memory.text,
+    JSON.stringify(memory.tags),
+    memory.createdAt,
+    memory.updatedAt,
+    memory.version,
+    memory.deletedAt ?? null,
+    memory.supersededBy ?? null,
+    memory.supersededAt ?? null,
+    memory.archivedAt ?? null,
+    memory.consolidatedInto ?? null,
+    memory.accessCount ?? 0,
+    memory.lastAccessedAt ?? null,
+    memory.pinnedAt ?? null
+  );
+}
+
+/**
+ * Insert a fact exactly as given, without a vector
+ * Used by import - normal writes go through createFact
+ */
+export function insertFactRecord(fact: Fact): void {
+  db.prepare(`
+    INSERT INTO facts (id, memory_id, text, created_at, updated_at, version)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(fact.id, fact.memoryId, fact.text, fact.createdAt, fact.updatedAt, fact.version);
+}
+
+/**
+ * Insert a link exactly as given (an existing identical link is kept)
+ * Used by import - normal writes go through linkMemories
+ * Returns false if the link already existed
+ */
+export function insertLinkRecord(link: MemoryLink): boolean {
+  const result = db.prepare(`
+    INSERT OR IGNORE INTO memory_links (source_id, target_id, relation, created_at) VALUES (?, ?, ?, ?)
+  `).run(link.sourceId, link.targetId, link.relation, link.createdAt);
+  return result.changes > 0;
+}
+
+/**
+ * Insert or replace a tool call note exactly as given
+ * Used by import - normal writes go through addToolCallNote
+ */
+export function upsertToolCallNoteRecord(note: ToolCallNote): void {
+  db.prepare(`
+    INSERT OR REPLACE INTO tool_call_notes 
+    (id, context_id, scope, tool_name, note_type, content, parameters, error_message, success_pattern,
+     confirmed_count, refuted_count, last_verified_at, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    note.id,
+    note.contextId,
+    note.scope,
+    note.toolName,
+    note.noteType,
+    note.content,
+    note.parameters ? JSON.stringify(note.parameters) : null,
+    note.errorMessage || null,
+    note.successPattern || null,
+    note.confirmedCount,
+    note.refutedCount,
+    note.lastVerifiedAt ?? null,
+    note.createdAt,
+    note.updatedAt
+  );
+}
+
+/**
+ * Permanently delete a memory regardless of trash state (facts, vectors and history cascade)
+ */
+export function deleteMemoryPermanently(memoryId: string): boolean {
+  const factIds = (db.prepare(`SELECT id FROM facts WHERE memory_id = ?`).all(memoryId) as any[])
+    .map((row) => row.id);
+  vectorIndex.remove(factIds);
+
+  return db.prepare(`DELETE FROM memories WHERE id = ?`).run(memoryId).changes > 0;
+}
+
+// ============================================================================
+// Duplicate Detection Operations
+// ============================================================================
+
+function rowToFact(row: any): Fact {
+  return {
+    id: row.id,
+    memoryId: row.memory_id,
+    text: row.text,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    version: row.version,
+  };
+}
+
+function rowToFactMemory(row: any): Memory {
+  return {
+    id: row.m_id,
+    contextId: row.context_id,
+    text: row.m_text,
+    tags: JSON.parse(row.tags),
+    createdAt: row.m_created_at,
+    updatedAt: row.m_updated_at,
+    version: row.m_version,
+    ...(row.m_superseded_by && { supersededBy: row.m_superseded_by, supersededAt: row.m_superseded_at }),
+    ...(row.m_last_accessed_at && { accessCount: row.m_access_count, lastAccessedAt: row.m_last_accessed_at }),
+    ...(row.m_pinned_at && { pinnedAt: row.m_pinned_at }),
+  };
+}
+
+/**
+ * Find existing memories with facts at least `threshold` similar to any of the
+ * new fact vectors (exact scan of the context, most similar memory first)
+ * Superseded memories are skipped: they are already known to be outdated
+ * 
+ * @param factTexts - New facts, in the same order as `vectors`
+ */
+export function findSimilarFacts(
+  contextId: string,
+  factTexts: string[],
+  vectors: number[][],
+  embeddingType: EmbeddingType,
+  threshold: number
+): DuplicateCandidate[] {
+  const rows = selectFactRows(
+    [contextId],
+    EMBEDDING_CONFIGS[embeddingType].tableName,
+    memoryFilterConditions({ excludeSuperseded: true })
+  );
+  const candidates = new Map<string, DuplicateCandidate>();
+
+  for (const row of rows) {
+    const existing = blobToVector(row.embedding);
+
+    vectors.forEach((vector, i) => {
+      const similarity = dotProduct(vector, existing);
+      if (similarity < threshold) return;
+
+      let candidate = candidates.get(row.memory_id);
+      if (!candidate) {
+        candidate = { memory: rowToFactMemory(row), similarity, matches: [] };
+        candidates.set(row.memory_id, candidate);
+      }
+      candidate.similarity = Math.max(candidate.similarity, similarity);
+      candidate.matches.push({ factText: factTexts[i], existingFact: rowToFact(row), similarity });
+    });
+  }
+
+  return Array.from(candidates.values())
+    .map((candidate) => ({
+      ...candidate,
+      matches: candidate.matches.sort((a, b) => b.similarity - a.similarity),
+    }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Load every memory in a context with its fact vectors (memories without
+ * vectors in this embedding type are left out), oldest first
+ */
+export function getMemoryFactVectors(
+  contextId: string,
+  embeddingType: EmbeddingType,
+  filters?: MemoryFilters
+): Array<{ memory: Memory; vectors: Float32Array[] }> {
+  const rows = selectFactRows(
+    [contextId],
+    EMBEDDING_CONFIGS[embeddingType].tableName,
+    memoryFilterConditions(filters)
+  );
+
+  const byMemory = new Map<string, { memory: Memory; vectors: Float32Array[] }>();
+  for (const row of rows) {
+    let entry = byMemory.get(row.memory_id);
+    if (!entry) {
+      entry = { memory: rowToFactMemory(row), vectors: [] };
+      byMemory.set(row.memory_id, entry);
+    }
+    entry.vectors.push(blobToFloat32(row.embedding));
+  }
+
+  return Array.from(byMemory.values()).sort((a, b) => a.memory.createdAt - b.memory.createdAt);
+}
+
+// ============================================================================
+// Audit Log Operations
+// ============================================================================
+
+/**
+ * Record one tool call
+ */
+export function insertAuditLogEntry(entry: Omit<AuditLogEntry, "id">): void {
+  db.prepare(`
+    INSERT INTO audit_log
+    (tool_name, context_id, client_id, session_id, arguments, memory_ids, success, error, duration_ms, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    entry.toolName,
+    entry.contextId,
+    entry.clientId,
+    entry.sessionId,
+    JSON.stringify(entry.arguments),
+    JSON.stringify(entry.memoryIds),
+    entry.success ? 1 : 0,
+    entry.error,
+    entry.durationMs,
+    entry.createdAt
+  );
+}
+
+function auditLogWhere(filters: AuditLogFilters): { where: string; params: any[] } {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.toolName) {
+    conditions.push(`tool_name = ?`);
+    params.push(filters.toolName);
+  }
+  if (filters.contextId) {
+    conditions.push(`context_id = ?`);
+    params.push(filters.contextId);
+  }
+  if (filters.clientId) {
+    conditions.push(`client_id = ?`);
+    params.push(filters.clientId);
+  }
+  if (filters.memoryId) {
+    conditions.push(`EXISTS (SELECT 1 FROM json_each(audit_log.memory_ids) WHERE value = ?)`);
+    params.push(filters.memoryId);
+  }
+  if (filters.success !== undefined) {
+    conditions.push(`success = ?`);
+    params.push(filters.success ? 1 : 0);
+  }
+  if (filters.since !== undefined) {
+    conditions.push(`created_at >= ?`);
+    params.push(filters.since);
+  }
+  if (filters.until !== undefined) {
+    conditions.push(`created_at < ?`);
+    params.push(filters.until);
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+function rowToAuditLogEntry(row: any): AuditLogEntry {
+  return {
+    id: row.id,
+    toolName: row.tool_name,
+    contextId: row.context_id,
+    clientId: row.client_id,
+    sessionId: row.session_id,
+    arguments: JSON.parse(row.arguments),
+    memoryIds: JSON.parse(row.memory_ids),
+    success: row.success === 1,
+    error: row.error,
+    durationMs: row.duration_ms,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Recorded tool calls matching the filters, newest first
+ */
+export function queryAuditLog(filters: AuditLogFilters, limit: number = 50, offset: number = 0): AuditLogEntry[] {
+  const { where, params } = auditLogWhere(filters);
+  const rows = db.prepare(`
+    SELECT * FROM audit_log ${where}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, limit, offset) as any[];
+
+  return rows.map(rowToAuditLogEntry);
+}
+
+/**
+ * Iterate matching tool calls oldest first, a page at a time (for export)
+ */
+export function* iterateAuditLog(filters: AuditLogFilters, pageSize: number = 1000): Generator<AuditLogEntry> {
+  const { where, params } = auditLogWhere(filters);
+  const stmt = db.prepare(`
+    SELECT * FROM audit_log ${where} ${where ? "AND" : "WHERE"} id > ?
+    ORDER BY id
+    LIMIT ?
+  `);
+
+  let lastId = 0;
+  while (true) {
+    const rows = stmt.all(...params, lastId, pageSize) as any[];
+    for (const row of rows) {
+      yield rowToAuditLogEntry(row);
+    }
+    if (rows.length < pageSize) {
+      return;
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+}
+
+/**
+ * Calls, errors and latency per tool for the matching entries, most errors first
+ */
+export function getAuditLogSummary(filters: AuditLogFilters): Array<{
+  toolName: string;
+  calls: number;
+  errors: number;
+  avgDurationMs: number;
+  maxDurationMs: number;
+}> {
+  const { where, params } = auditLogWhere(filters);
+  const rows = db.prepare(`
+    SELECT tool_name, COUNT(*) as calls, SUM(1 - success) as errors,
+           AVG(duration_ms) as avg_duration, MAX(duration_ms) as max_duration
+    FROM audit_log ${where}
+    GROUP BY tool_name
+    ORDER BY errors DESC, calls DESC
+  `).all(...params) as any[];
+
+  return rows.map((row) => ({
+    toolName: row.tool_name,
+    calls: row.calls,
+    errors: row.errors,
+    avgDurationMs: Math.round(row.avg_duration),
+    maxDurationMs: row.max_duration,
+  }));
 }
 
+/**
+ * Delete audit entries older than the cutoff
+ * Returns the number of entries removed
+ */
+export function purgeAuditLog(before: number): number {
+  return db.prepare(`DELETE FROM audit_log WHERE created_at < ?`).run(before).changes;
+}
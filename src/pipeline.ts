@@ -0,0 +1,246 @@
+/**
+ * Memory Write Pipeline
+ *
+ * Fact extraction → embedding → transactional write, shared by add_memory,
+ * update_memory and vault sync so every entry point splits and embeds the same way
+ */
+
+import { db } from "./database.js";
+import { getFactExtractor } from "./extraction/factory.js";
+import { embedder } from "./embeddings/factory.js";
+import config from "./config.js";
+import { dotProduct } from "./vector.js";
+import {
+  createMemory,
+  createFact,
+  updateMemory,
+  deleteFactsForMemory,
+  getMemory,
+  getFactsByMemoryId,
+  getFactVectors,
+  findSimilarFacts,
+  archiveMemory,
+  copyMemoryLinks,
+  supersedeMemory,
+} from "./operations.js";
+import { indexFactEntities } from "./entities.js";
+import type { Memory, Fact, DuplicateCandidate, PossibleContradiction } from "./types.js";
+import type { FactExtractionProvider } from "./extraction/types.js";
+
+export interface FactTexts {
+  factTexts: string[];
+  aiExtracted: boolean;
+  extractor: FactExtractionProvider | null; // null for manual facts
+}
+
+/**
+ * Use the manual facts if given, otherwise split the text with the fact extractor
+ * Throws when extraction is disabled (factExtraction.provider 'none') and no facts were given
+ */
+export async function resolveFactTexts(text: string, manualFacts?: string[]): Promise<FactTexts> {
+  if (manualFacts && manualFacts.length > 0) {
+    return { factTexts: manualFacts, aiExtracted: false, extractor: null };
+  }
+
+  const extractor = getFactExtractor();
+  if (!extractor) {
+    throw new Error(
+      "Manual facts are required because fact extraction is disabled. " +
+      "Provide a 'facts' array, or set factExtraction.provider (FACT_EXTRACTION) " +
+      "to 'auto', 'rule-based', 'openai' or 'openai-compatible'."
+    );
+  }
+
+  const factTexts = await extractor.extractFacts(text);
+  if (factTexts.length === 0) {
+    throw new Error(`Fact extraction (${extractor.getName()}) returned no facts. Provide a 'facts' array.`);
+  }
+  return { factTexts, aiExtracted: true, extractor: extractor.getName() };
+}
+
+/**
+ * Existing memories in the context with facts at least duplicates.threshold
+ * similar to the new facts (most similar first)
+ * Pairs flagged as contradictions are not duplicates, however similar.
+ * 
+ * @param embeddings - Vectors of the new facts from the current embedder
+ */
+export function findDuplicateCandidates(
+  contextId: string,
+  factTexts: string[],
+  embeddings: number[][],
+  contradictions: PossibleContradiction[] = []
+): DuplicateCandidate[] {
+  const contradicts = (factText: string, existingFactId: string) =>
+    contradictions.some((c) => c.factText === factText && c.existingFact.id === existingFactId);
+
+  return findSimilarFacts(contextId, factTexts, embeddings, embedder.getType(), config.duplicates.threshold)
+    .map((candidate) => ({
+      ...candidate,
+      matches: candidate.matches.filter((match) => !contradicts(match.factText, match.existingFact.id)),
+    }))
+    .filter((candidate) => candidate.matches.length > 0)
+    .map((candidate) => ({ ...candidate, similarity: candidate.matches[0].similarity }));
+}
+
+/**
+ * Mark the memories in `supersedes` as replaced by memoryId (inside the
+ * caller's transaction, so a loop error rolls the write back)
+ * Returns the IDs actually superseded: ones trashed meanwhile are left out
+ */
+function supersedeAll(supersedes: string[], memoryId: string, contextId: string): string[] {
+  return supersedes
+    .filter((id) => id !== memoryId)
+    .filter((id) => supersedeMemory(id, memoryId, contextId) !== null);
+}
+
+/**
+ * Embed the facts (unless the caller already did), then create the memory and
+ * its facts (superseding the memories in `supersedes`) in one transaction,
+ * and index the entities they mention
+ */
+export async function insertMemoryWithFacts(
+  contextId: string,
+  text: string,
+  tags: string[],
+  factTexts: string[],
+  embeddings?: number[][],
+  supersedes: string[] = []
+): Promise<{ memory: Memory; facts: Fact[]; superseded: string[] }> {
+  // Embed all facts in batch
+  embeddings ??= await embedder.embedBatch(factTexts);
+  const embeddingType = embedder.getType();
+
+  const insert = db.transaction(() => {
+    const memory = createMemory(contextId, text, tags);
+    const facts = factTexts.map((factText, i) =>
+      createFact(memory.id, factText, embeddings[i], embeddingType)
+    );
+    return { memory, facts, superseded: supersedeAll(supersedes, memory.id, contextId) };
+  });
+
+  const inserted = insert();
+  await indexFactEntities(contextId, inserted.facts);
+  return inserted;
+}
+
+/**
+ * Embed the facts, then snapshot the old version and replace text, tags and
+ * facts in one transaction (the memory must exist and not be in trash), and
+ * index the entities they mention
+ */
+export async function replaceMemoryWithFacts(
+  memoryId: string,
+  contextId: string,
+  text: string,
+  tags: string[],
+  factTexts: string[]
+): Promise<{ memory: Memory; facts: Fact[] }> {
+  // Embed all facts in batch
+  const embeddings = await embedder.embedBatch(factTexts);
+  const embeddingType = embedder.getType();
+
+  const replace = db.transaction(() => {
+    const memory = updateMemory(memoryId, contextId, text, tags);
+    if (!memory) {
+      // Trashed or moved while the facts were being embedded; throwing rolls back
+      throw new Error(`Memory ${memoryId} not found in context '${contextId}' (or it is in trash)`);
+    }
+    deleteFactsForMemory(memoryId);
+
+    const facts = factTexts.map((factText, i) =>
+      createFact(memoryId, factText, embeddings[i], embeddingType)
+    );
+    return { memory, facts };
+  });
+
+  const replaced = replace();
+  await indexFactEntities(contextId, replaced.facts);
+  return replaced;
+}
+
+/**
+ * Merge a new memory into an existing one: new facts without a duplicate
+ * among its facts are added and the text appended, tags are combined.
+ * The old version is snapshotted first; nothing changes if every fact and tag
+ * is already there. The memories in `supersedes` are marked as replaced by it
+ * in the same transaction.
+ * 
+ * @param embeddings - Vectors of the new facts from the current embedder
+ */
+export function mergeIntoMemory(
+  memoryId: string,
+  contextId: string,
+  text: string,
+  tags: string[],
+  factTexts: string[],
+  embeddings: number[][],
+  supersedes: string[] = []
+): { memory: Memory; addedFacts: Fact[]; skippedFacts: string[]; superseded: string[] } | null {
+  const target = getMemory(memoryId);
+  if (!target || target.contextId !== contextId || target.deletedAt || target.archivedAt) {
+    return null;
+  }
+
+  const embeddingType = embedder.getType();
+  const existingVectors = getFactsByMemoryId(memoryId)
+    .map((fact) => getFactVectors(fact.id)[embeddingType])
+    .filter((vector): vector is number[] => vector !== undefined);
+
+  const isDuplicate = (i: number) =>
+    existingVectors.some((vector) => dotProduct(vector, embeddings[i]) >= config.duplicates.threshold);
+  const newIndexes = factTexts.map((_, i) => i).filter((i) => !isDuplicate(i));
+  const skippedFacts = factTexts.filter((_, i) => isDuplicate(i));
+
+  const mergedTags = [...target.tags, ...tags.filter((tag) => !target.tags.includes(tag))];
+  if (newIndexes.length === 0 && mergedTags.length === target.tags.length) {
+    const supersedeOnly = db.transaction(() => supersedeAll(supersedes, memoryId, contextId));
+    return { memory: target, addedFacts: [], skippedFacts, superseded: supersedeOnly() };
+  }
+
+  const mergedText = newIndexes.length > 0 && !target.text.includes(text.trim())
+    ? `${target.text}\n\n${text.trim()}`
+    : target.text;
+
+  const merge = db.transaction(() => {
+    const memory = updateMemory(memoryId, contextId, mergedText, mergedTags);
+    if (!memory) {
+      throw new Error(`Memory ${memoryId} not found in context '${contextId}' (or it is in trash)`);
+    }
+    const addedFacts = newIndexes.map((i) =>
+      createFact(memoryId, factTexts[i], embeddings[i], embeddingType)
+    );
+    return { memory, addedFacts, skippedFacts, superseded: supersedeAll(supersedes, memoryId, contextId) };
+  });
+
+  return merge();
+}
+
+/**
+ * Create the consolidated memory and its facts, and archive the originals
+ * (linked to it through consolidated_into), in one transaction
+ * 
+ * @param embeddings - Vectors of the facts from the current embedder
+ */
+export function insertConsolidatedMemory(
+  contextId: string,
+  originalIds: string[],
+  text: string,
+  tags: string[],
+  factTexts: string[],
+  embeddings: number[][]
+): { memory: Memory; facts: Fact[] } {
+  const embeddingType = embedder.getType();
+
+  const consolidate = db.transaction(() => {
+    const memory = createMemory(contextId, text, tags);
+    const facts = factTexts.map((factText, i) =>
+      createFact(memory.id, factText, embeddings[i], embeddingType)
+    );
+    originalIds.forEach((id) => archiveMemory(id, memory.id));
+    copyMemoryLinks(originalIds, memory.id);
+    return { memory, facts };
+  });
+
+  return consolidate();
+}
@@ -0,0 +1,102 @@
+/**
+ * Search Ranking
+ *
+ * searchFacts adds recency and usage signals to a fact's relevance:
+ *
+ *   score = (relevance + tagBoost + recencyWeight * recency + usageWeight * usage) * supersededFactor
+ *
+ *   recency = 0.5 ^ (days since the memory's updated_at / halfLifeDays)   (1 = just now)
+ *   usage   = accesses / (accesses + usageSaturation)                      (0 = never returned)
+ *
+ * Weights come from config.ranking, with per-context overrides in
+ * config.ranking.contexts (e.g. a slower decay for a reference context).
+ *
+ * get_tool_call_notes ranks notes by how well they held up and how recently
+ * they were checked:
+ *
+ *   rank       = confidence * (0.5 + 0.5 * recency)
+ *   confidence = (confirmations + 1) / (confirmations + refutations + 2)   (0.5 = unverified)
+ *   recency    = 0.5 ^ (days since last verified or edited / toolCallNotes.staleDays)
+ */
+
+import config from "./config.js";
+import type { RankingWeights, ScoreBreakdown } from "./types.js";
+import type { ToolCallNote } from "./operations.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Relevance and tag boost only, as before ranking signals existed */
+export const NO_RANKING: RankingWeights = {
+  recencyWeight: 0,
+  halfLifeDays: 1,
+  usageWeight: 0,
+  usageSaturation: 1,
+};
+
+/**
+ * Ranking weights for a context (global weights plus its overrides)
+ */
+export function getRankingWeights(contextId: string): RankingWeights {
+  const { contexts, ...weights } = config.ranking;
+  return { ...weights, ...contexts[contextId] };
+}
+
+/**
+ * Combine a fact's signals into its score
+ */
+export function rankScore(
+  signals: { relevance: number; tagBoost: number; updatedAt: number; accessCount: number; supersededFactor: number },
+  weights: RankingWeights,
+  now: number = Date.now()
+): { score: number; breakdown: ScoreBreakdown } {
+  const ageDays = Math.max(0, now - signals.updatedAt) / DAY_MS;
+  const recency = weights.recencyWeight > 0 ? weights.recencyWeight * Math.pow(0.5, ageDays / weights.halfLifeDays) : 0;
+  const usage = weights.usageWeight > 0
+    ? weights.usageWeight * (signals.accessCount / (signals.accessCount + weights.usageSaturation))
+    : 0;
+
+  const breakdown: ScoreBreakdown = {
+    relevance: signals.relevance,
+    tagBoost: signals.tagBoost,
+    recency,
+    usage,
+    supersededFactor: signals.supersededFactor,
+  };
+
+  return {
+    score: (signals.relevance + signals.tagBoost + recency + usage) * signals.supersededFactor,
+    breakdown,
+  };
+}
+
+/**
+ * When a tool call note was last known to be right: verified, else edited
+ */
+function noteCheckedAt(note: ToolCallNote): number {
+  return Math.max(note.lastVerifiedAt ?? 0, note.updatedAt);
+}
+
+/**
+ * Rank of a tool call note (see above; 0-1, higher first)
+ */
+export function toolCallNoteRank(note: ToolCallNote, now: number = Date.now()): number {
+  const confidence = (note.confirmedCount + 1) / (note.confirmedCount + note.refutedCount + 2);
+  const ageDays = Math.max(0, now - noteCheckedAt(note)) / DAY_MS;
+  const recency = Math.pow(0.5, ageDays / config.toolCallNotes.staleDays);
+  return confidence * (0.5 + 0.5 * recency);
+}
+
+/**
+ * Warnings for a tool call note: 'refuted' once anyone refuted it, 'stale' when
+ * it was not verified or edited within toolCallNotes.staleDays
+ */
+export function toolCallNoteFlags(note: ToolCallNote, now: number = Date.now()): Array<"refuted" | "stale"> {
+  const flags: Array<"refuted" | "stale"> = [];
+  if (note.refutedCount > 0) {
+    flags.push("refuted");
+  }
+  if (now - noteCheckedAt(note) > config.toolCallNotes.staleDays * DAY_MS) {
+    flags.push("stale");
+  }
+  return flags;
+}
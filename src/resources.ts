@@ -0,0 +1,129 @@
+/**
+ * MCP Resources
+ *
+ * Read-only Markdown views clients can attach to a conversation, so SOP-style
+ * memories are present without the agent having to look them up:
+ *
+ *   memory://pinned      Pinned memories (pin_memory), in pin order
+ *   memory://tag/{tag}   Digest of the memories with a tag, newest first
+ *
+ * Both use the server's context; append ?context_id=<id> for another allowed one.
+ */
+
+import { resolveContextId } from "./context.js";
+import { getAllTags, getPinnedMemories, listMemories } from "./operations.js";
+import type { Memory } from "./types.js";
+
+const MAX_TAG_RESOURCES = 100; // Tags listed as concrete resources (the template covers the rest)
+const MAX_DIGEST_MEMORIES = 50;
+
+const PINNED_URI = "memory://pinned";
+const TAG_URI_TEMPLATE = "memory://tag/{tag}";
+
+function tagUri(tag: string): string {
+  return `memory://tag/${encodeURIComponent(tag)}`;
+}
+
+function renderMemories(title: string, contextId: string, memories: Memory[], empty: string): string {
+  const lines = [`# ${title}`, "", `Context: ${contextId}`, ""];
+  if (memories.length === 0) {
+    lines.push(empty);
+  }
+
+  for (const memory of memories) {
+    const tags = memory.tags.length > 0 ? ` · tags: ${memory.tags.join(", ")}` : "";
+    lines.push(`## ${memory.id}${tags}`, "", memory.text.trim(), "");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Resources for resources/list: the pinned memories and the most used tags
+ */
+export function listResources() {
+  const contextId = resolveContextId({});
+  const tags = getAllTags(contextId)
+    .sort((a, b) => b.memory_count - a.memory_count)
+    .slice(0, MAX_TAG_RESOURCES);
+
+  return {
+    resources: [
+      {
+        uri: PINNED_URI,
+        name: "Pinned memories",
+        description: "Memories pinned with pin_memory (standing instructions, SOPs). Attach to every conversation.",
+        mimeType: "text/markdown",
+      },
+      ...tags.map((tag) => ({
+        uri: tagUri(tag.tag),
+        name: `Memories tagged '${tag.tag}'`,
+        description: `Digest of the ${tag.memory_count} memories tagged '${tag.tag}'`,
+        mimeType: "text/markdown",
+      })),
+    ],
+  };
+}
+
+/**
+ * Templates for resources/templates/list
+ */
+export function listResourceTemplates() {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: TAG_URI_TEMPLATE,
+        name: "Memories by tag",
+        description: `Digest of the memories with a tag (newest ${MAX_DIGEST_MEMORIES})`,
+        mimeType: "text/markdown",
+      },
+    ],
+  };
+}
+
+/**
+ * Render a resource for resources/read
+ */
+export function readResource(uri: string) {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`Invalid resource URI: ${uri}`);
+  }
+  if (url.protocol !== "memory:") {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  const contextId = resolveContextId({ context_id: url.searchParams.get("context_id") ?? undefined });
+  let text: string;
+
+  if (url.host === "pinned" && (url.pathname === "" || url.pathname === "/")) {
+    text = renderMemories(
+      "Pinned memories",
+      contextId,
+      getPinnedMemories(contextId),
+      "No pinned memories. Use pin_memory to add one."
+    );
+  } else if (url.host === "tag" && url.pathname.length > 1) {
+    const tag = decodeURIComponent(url.pathname.slice(1));
+    text = renderMemories(
+      `Memories tagged '${tag}'`,
+      contextId,
+      listMemories(contextId, [tag], MAX_DIGEST_MEMORIES),
+      `No memories tagged '${tag}'.`
+    );
+  } else {
+    throw new Error(`Unknown resource: ${uri}. Available: ${PINNED_URI}, ${TAG_URI_TEMPLATE}`);
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "text/markdown",
+        text,
+      },
+    ],
+  };
+}
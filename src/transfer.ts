@@ -0,0 +1,612 @@
+/**
+ * Memory Export / Import
+ *
+ * Portable JSONL dump of memories, facts, links between memories and tool call notes.
+ *
+ * Line 1 is a header, every following line is one record:
+ *   {"type":"header","format":"mcp-local-memory","version":1,...}
+ *   {"type":"memory","id":"...","facts":[{"id":"...","text":"...","vectors":{"openai":"<base64>"}}],...}
+ *   {"type":"link","source_id":"...","target_id":"...","relation":"depends_on",...}
+ *   {"type":"tool_call_note","id":"...","tool_name":"...",...}
+ *
+ * Vectors are optional (float32 little-endian, base64). Facts imported without
+ * a vector for the current embedding mode are embedded during the import.
+ */
+
+import { createReadStream, createWriteStream, mkdirSync } from "fs";
+import { dirname, join, isAbsolute, normalize } from "path";
+import { createInterface } from "readline";
+import { once } from "events";
+import { nanoid } from "nanoid";
+import { db } from "./database.js";
+import config from "./config.js";
+import {
+  generateShortId,
+  getMemory,
+  getMemoriesForExport,
+  getFactsByMemoryId,
+  getFactVectors,
+  getToolCallNotesForExport,
+  getLinksForExport,
+  memoryExists,
+  factExists,
+  getToolCallNoteContextId,
+  insertMemoryRecord,
+  insertFactRecord,
+  insertLinkRecord,
+  upsertToolCallNoteRecord,
+  deleteMemoryPermanently,
+  addEmbeddingToFact,
+  setSupersededBy,
+  setConsolidatedInto,
+  MEMORY_RELATIONS,
+  TOOL_CALL_NOTE_SCOPES,
+} from "./operations.js";
+import type { ToolCallNote } from "./operations.js";
+import { getEmbedder } from "./embeddings/factory.js";
+import { indexFactEntities } from "./entities.js";
+import { EMBEDDING_CONFIGS, embeddingBatchSize } from "./embeddings/registry.js";
+import type { EmbeddingType } from "./embeddings/types.js";
+import { vectorToBlob, blobToVector } from "./vector.js";
+import type { Memory, Fact, MemoryLink } from "./types.js";
+
+export const EXPORT_FORMAT = "mcp-local-memory";
+export const EXPORT_VERSION = 1;
+
+/** What to do when an imported ID already exists in the database */
+export type ConflictStrategy = "skip" | "overwrite" | "remap";
+
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = ["skip", "overwrite", "remap"];
+
+export interface ExportOptions {
+  contextIds?: string[]; // undefined = every context
+  includeVectors?: boolean;
+}
+
+export interface ExportResult {
+  path: string;
+  memories: number;
+  facts: number;
+  vectors: number;
+  links: number;
+  toolCallNotes: number;
+}
+
+export interface ImportOptions {
+  onConflict?: ConflictStrategy;
+  contextId?: string; // Put every imported record into this context instead of its original one
+  embed?: boolean; // Embed facts that arrive without a vector for the current mode (default true)
+  isContextAllowed?: (contextId: string) => boolean; // Reject records for other contexts
+}
+
+export interface ImportResult {
+  memoriesImported: number;
+  memoriesSkipped: number;
+  memoriesOverwritten: number;
+  memoriesRemapped: number;
+  factsImported: number;
+  vectorsImported: number;
+  factsEmbedded: number;
+  linksImported: number;
+  linksSkipped: number; // Already present, or an end is missing or in another context
+  toolCallNotesImported: number;
+  toolCallNotesSkipped: number;
+}
+
+function toIso(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function fromIso(value: unknown, field: string, lineNumber: number): number {
+  const timestamp = typeof value === "string" ? Date.parse(value) : NaN;
+  if (isNaN(timestamp)) {
+    throw new Error(`Line ${lineNumber}: invalid ${field} "${value}"`);
+  }
+  return timestamp;
+}
+
+/** The exports/ folder next to the database */
+export function exportDir(): string {
+  return join(dirname(config.sqlitePath), "exports");
+}
+
+/**
+ * Default export location: <database dir>/exports/memories-<scope>-<timestamp>.jsonl
+ */
+export function defaultExportPath(contextIds?: string[]): string {
+  const scope = contextIds ? contextIds.join("+") : "all";
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return join(exportDir(), `memories-${scope}-${stamp}.jsonl`);
+}
+
+/**
+ * Resolve a file name given to the export/import tools inside exports/
+ * Tool calls may come over HTTP, so absolute paths and .. are rejected;
+ * only the CLI reads and writes arbitrary paths.
+ */
+export function resolveExportPath(path: string): string {
+  const relative = normalize(path);
+  if (isAbsolute(path) || relative.split(/[\\/]/).includes("..")) {
+    throw new Error(`path must be a file name inside the exports folder (${exportDir()}), without absolute paths or ".."`);
+  }
+  return join(exportDir(), relative);
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Write memories (including trash), facts, links and tool call notes to a JSONL file
+ */
+export async function exportMemories(path: string, options: ExportOptions = {}): Promise<ExportResult> {
+  const includeVectors = options.includeVectors ?? false;
+  const result: ExportResult = { path, memories: 0, facts: 0, vectors: 0, links: 0, toolCallNotes: 0 };
+
+  mkdirSync(dirname(path), { recursive: true });
+  const out = createWriteStream(path, { encoding: "utf-8" });
+
+  const writeLine = async (record: object) => {
+    if (!out.write(JSON.stringify(record) + "\n")) {
+      await once(out, "drain");
+    }
+  };
+
+  try {
+    await writeLine({
+      type: "header",
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      context_ids: options.contextIds ?? null,
+      include_vectors: includeVectors,
+    });
+
+    for (const memory of getMemoriesForExport(options.contextIds)) {
+      const facts = getFactsByMemoryId(memory.id).map((fact) => {
+        const record: any = {
+          id: fact.id,
+          text: fact.text,
+          created_at: toIso(fact.createdAt),
+          updated_at: toIso(fact.updatedAt),
+          version: fact.version,
+        };
+
+        if (includeVectors) {
+          const vectors = getFactVectors(fact.id);
+          record.vectors = Object.fromEntries(
+            Object.entries(vectors).map(([type, vector]) => [type, vectorToBlob(vector!).toString("base64")])
+          );
+          result.vectors += Object.keys(vectors).length;
+        }
+
+        return record;
+      });
+
+      await writeLine({
+        type: "memory",
+        id: memory.id,
+        context_id: memory.contextId,
+        text: memory.text,
+        tags: memory.tags,
+        created_at: toIso(memory.createdAt),
+        updated_at: toIso(memory.updatedAt),
+        version: memory.version,
+        deleted_at: memory.deletedAt ? toIso(memory.deletedAt) : null,
+        superseded_by: memory.supersededBy ?? null,
+        superseded_at: memory.supersededAt ? toIso(memory.supersededAt) : null,
+        archived_at: memory.archivedAt ? toIso(memory.archivedAt) : null,
+        consolidated_into: memory.consolidatedInto ?? null,
+        access_count: memory.accessCount ?? 0,
+        last_accessed_at: memory.lastAccessedAt ? toIso(memory.lastAccessedAt) : null,
+        pinned_at: memory.pinnedAt ? toIso(memory.pinnedAt) : null,
+        facts,
+      });
+
+      result.memories++;
+      result.facts += facts.length;
+    }
+
+    for (const link of getLinksForExport(options.contextIds)) {
+      await writeLine({
+        type: "link",
+        source_id: link.sourceId,
+        target_id: link.targetId,
+        relation: link.relation,
+        created_at: toIso(link.createdAt),
+      });
+      result.links++;
+    }
+
+    for (const note of getToolCallNotesForExport(options.contextIds)) {
+      await writeLine({
+        type: "tool_call_note",
+        id: note.id,
+        context_id: note.contextId,
+        scope: note.scope,
+        tool_name: note.toolName,
+        note_type: note.noteType,
+        content: note.content,
+        parameters: note.parameters ?? null,
+        error_message: note.errorMessage ?? null,
+        success_pattern: note.successPattern ?? null,
+        confirmed_count: note.confirmedCount,
+        refuted_count: note.refutedCount,
+        last_verified_at: note.lastVerifiedAt ? toIso(note.lastVerifiedAt) : null,
+        created_at: toIso(note.createdAt),
+        updated_at: toIso(note.updatedAt),
+      });
+      result.toolCallNotes++;
+    }
+  } finally {
+    out.end();
+    await once(out, "close");
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/** A fact of a memory record, with the vectors that will be stored for it */
+interface ParsedFact {
+  id?: string;
+  text: string;
+  createdAt: number;
+  updatedAt: number;
+  version: number;
+  vectors: Array<[EmbeddingType, number[]]>;
+}
+
+/** A memory record (under its ID in the file) with its facts */
+interface ParsedMemory {
+  memory: Memory;
+  facts: ParsedFact[];
+  lineNumber: number;
+}
+
+/** A tool call note record (under its ID in the file) */
+interface ParsedNote {
+  note: ToolCallNote;
+  lineNumber: number;
+}
+
+/**
+ * Read a JSONL export into the database
+ *
+ * The whole file is read and validated, and facts without a vector for the
+ * current mode are embedded, before anything is written. Everything is then
+ * written in one transaction, so a malformed line or a failing embedder
+ * leaves the database unchanged and the import can simply be re-run.
+ * Entities of the imported facts are indexed afterwards, like for new facts.
+ */
+export async function importMemories(path: string, options: ImportOptions = {}): Promise<ImportResult> {
+  const onConflict = options.onConflict ?? "skip";
+  if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+    throw new Error(`Invalid conflict strategy: ${onConflict}. Must be one of: ${CONFLICT_STRATEGIES.join(", ")}`);
+  }
+
+  const embedder = getEmbedder();
+  const currentType = embedder.getType();
+
+  const result: ImportResult = {
+    memoriesImported: 0,
+    memoriesSkipped: 0,
+    memoriesOverwritten: 0,
+    memoriesRemapped: 0,
+    factsImported: 0,
+    vectorsImported: 0,
+    factsEmbedded: 0,
+    linksImported: 0,
+    linksSkipped: 0,
+    toolCallNotesImported: 0,
+    toolCallNotesSkipped: 0,
+  };
+
+  /**
+   * Only keep vectors we can store: known embedding types with the right
+   * dimension (the current mode's model decides its dimension)
+   */
+  const decodeVectors = (vectors: any): Array<[EmbeddingType, number[]]> => {
+    if (!vectors || typeof vectors !== "object") return [];
+
+    const decoded: Array<[EmbeddingType, number[]]> = [];
+    for (const [type, encoded] of Object.entries(vectors)) {
+      if (!(type in EMBEDDING_CONFIGS) || typeof encoded !== "string") continue;
+
+      const embeddingType = type as EmbeddingType;
+      const vector = blobToVector(Buffer.from(encoded, "base64"));
+      const expected = embeddingType === currentType
+        ? embedder.getDimension()
+        : EMBEDDING_CONFIGS[embeddingType].dimension;
+
+      if (vector.length === expected) {
+        decoded.push([embeddingType, vector]);
+      }
+    }
+    return decoded;
+  };
+
+  const targetContext = (record: any, lineNumber: number): string => {
+    const contextId = options.contextId ?? record.context_id ?? config.contextId;
+    if (options.isContextAllowed && !options.isContextAllowed(contextId)) {
+      throw new Error(`Line ${lineNumber}: context '${contextId}' is not allowed on this server (pass a context to import into)`);
+    }
+    return contextId;
+  };
+
+  const memories: ParsedMemory[] = [];
+  const links: MemoryLink[] = [];
+  const notes: ParsedNote[] = [];
+
+  const readMemory = (record: any, lineNumber: number) => {
+    if (typeof record.id !== "string" || typeof record.text !== "string") {
+      throw new Error(`Line ${lineNumber}: memory record needs string "id" and "text"`);
+    }
+
+    const memory: Memory = {
+      id: record.id,
+      contextId: targetContext(record, lineNumber),
+      text: record.text,
+      tags: Array.isArray(record.tags) ? record.tags : [],
+      createdAt: fromIso(record.created_at, "created_at", lineNumber),
+      updatedAt: fromIso(record.updated_at, "updated_at", lineNumber),
+      version: typeof record.version === "number" ? record.version : 1,
+      ...(record.deleted_at && { deletedAt: fromIso(record.deleted_at, "deleted_at", lineNumber) }),
+      ...(typeof record.superseded_by === "string" && {
+        supersededBy: record.superseded_by,
+        supersededAt: record.superseded_at ? fromIso(record.superseded_at, "superseded_at", lineNumber) : Date.now(),
+      }),
+      ...(record.archived_at && {
+        archivedAt: fromIso(record.archived_at, "archived_at", lineNumber),
+        consolidatedInto: typeof record.consolidated_into === "string" ? record.consolidated_into : undefined,
+      }),
+      ...(record.last_accessed_at && {
+        accessCount: typeof record.access_count === "number" ? record.access_count : 0,
+        lastAccessedAt: fromIso(record.last_accessed_at, "last_accessed_at", lineNumber),
+      }),
+      ...(record.pinned_at && { pinnedAt: fromIso(record.pinned_at, "pinned_at", lineNumber) }),
+    };
+
+    const facts = (Array.isArray(record.facts) ? record.facts : []).map((fact: any): ParsedFact => {
+      if (typeof fact.text !== "string") {
+        throw new Error(`Line ${lineNumber}: fact without "text" in memory ${record.id}`);
+      }
+      return {
+        id: typeof fact.id === "string" ? fact.id : undefined,
+        text: fact.text,
+        createdAt: fact.created_at ? fromIso(fact.created_at, "created_at", lineNumber) : memory.createdAt,
+        updatedAt: fact.updated_at ? fromIso(fact.updated_at, "updated_at", lineNumber) : memory.updatedAt,
+        version: typeof fact.version === "number" ? fact.version : 1,
+        vectors: decodeVectors(fact.vectors),
+      };
+    });
+
+    memories.push({ memory, facts, lineNumber });
+  };
+
+  const readLink = (record: any, lineNumber: number) => {
+    if (typeof record.source_id !== "string" || typeof record.target_id !== "string" ||
+        !MEMORY_RELATIONS.includes(record.relation)) {
+      throw new Error(`Line ${lineNumber}: link record needs "source_id", "target_id" and a known "relation"`);
+    }
+
+    links.push({
+      sourceId: record.source_id,
+      targetId: record.target_id,
+      relation: record.relation,
+      createdAt: record.created_at ? fromIso(record.created_at, "created_at", lineNumber) : Date.now(),
+    });
+  };
+
+  const readNote = (record: any, lineNumber: number) => {
+    if (typeof record.tool_name !== "string" || typeof record.content !== "string") {
+      throw new Error(`Line ${lineNumber}: tool_call_note record needs "tool_name" and "content"`);
+    }
+    if (!["success", "failure", "pattern", "guideline"].includes(record.note_type)) {
+      throw new Error(`Line ${lineNumber}: tool_call_note "note_type" must be: success, failure, pattern, or guideline`);
+    }
+    if (record.scope !== undefined && !TOOL_CALL_NOTE_SCOPES.includes(record.scope)) {
+      throw new Error(`Line ${lineNumber}: tool_call_note "scope" must be one of: ${TOOL_CALL_NOTE_SCOPES.join(", ")}`);
+    }
+
+    const note: ToolCallNote = {
+      id: typeof record.id === "string" ? record.id : nanoid(),
+      contextId: targetContext(record, lineNumber),
+      scope: record.scope ?? "context",
+      toolName: record.tool_name,
+      noteType: record.note_type,
+      content: record.content,
+      parameters: Array.isArray(record.parameters) ? record.parameters : undefined,
+      errorMessage: record.error_message ?? undefined,
+      successPattern: record.success_pattern ?? undefined,
+      confirmedCount: Number.isInteger(record.confirmed_count) ? record.confirmed_count : 0,
+      refutedCount: Number.isInteger(record.refuted_count) ? record.refuted_count : 0,
+      lastVerifiedAt: record.last_verified_at ? fromIso(record.last_verified_at, "last_verified_at", lineNumber) : undefined,
+      createdAt: fromIso(record.created_at, "created_at", lineNumber),
+      updatedAt: fromIso(record.updated_at, "updated_at", lineNumber),
+    };
+    notes.push({ note, lineNumber });
+  };
+
+  // 1. Read and validate every line
+  const lines = createInterface({
+    input: createReadStream(path, { encoding: "utf-8" }),
+    crlfDelay: Infinity,
+  });
+
+  let lineNumber = 0;
+  let headerSeen = false;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${lineNumber}: not valid JSON`);
+    }
+
+    if (!headerSeen) {
+      if (record.type !== "header" || record.format !== EXPORT_FORMAT) {
+        throw new Error(`${path} is not a ${EXPORT_FORMAT} export (missing header line)`);
+      }
+      if (record.version > EXPORT_VERSION) {
+        throw new Error(`Export format version ${record.version} is newer than supported (${EXPORT_VERSION})`);
+      }
+      headerSeen = true;
+      continue;
+    }
+
+    switch (record.type) {
+      case "memory":
+        readMemory(record, lineNumber);
+        break;
+      case "link":
+        readLink(record, lineNumber);
+        break;
+      case "tool_call_note":
+        readNote(record, lineNumber);
+        break;
+      default:
+        throw new Error(`Line ${lineNumber}: unknown record type "${record.type}"`);
+    }
+  }
+
+  if (!headerSeen) {
+    throw new Error(`${path} is empty`);
+  }
+
+  // 2. Embed facts that arrive without a vector for the current mode (same
+  // batching as switchEmbeddingMode), leaving out memories that will be skipped
+  if (options.embed ?? true) {
+    const missing = memories
+      .filter(({ memory }) => !(onConflict === "skip" && memoryExists(memory.id)))
+      .flatMap(({ facts }) => facts)
+      .filter((fact) => !fact.vectors.some(([type]) => type === currentType));
+
+    const batchSize = embeddingBatchSize(currentType);
+    for (let i = 0; i < missing.length; i += batchSize) {
+      const batch = missing.slice(i, i + batchSize);
+      const embeddings = await embedder.embedBatch(batch.map((fact) => fact.text));
+      batch.forEach((fact, j) => fact.vectors.push([currentType, embeddings[j]]));
+      result.factsEmbedded += batch.length;
+    }
+  }
+
+  // 3. Write everything, or nothing
+  // superseded_by, consolidated_into and links may name a memory further down
+  // the file, so remapped IDs are applied (and links inserted) at the end
+  const importedFacts: Array<{ contextId: string; facts: Fact[] }> = [];
+  const writeAll = db.transaction(() => {
+    const remappedIds = new Map<string, string>();
+    const linkedMemoryIds: string[] = [];
+
+    for (const { memory: parsed, facts, lineNumber } of memories) {
+      const memory = { ...parsed };
+      if (memoryExists(memory.id)) {
+        if (onConflict === "skip") {
+          result.memoriesSkipped++;
+          continue;
+        }
+        if (onConflict === "overwrite") {
+          const existing = getMemory(memory.id)!;
+          if (options.isContextAllowed && !options.isContextAllowed(existing.contextId)) {
+            throw new Error(`Line ${lineNumber}: memory ${memory.id} exists in context '${existing.contextId}', which is not allowed on this server`);
+          }
+          deleteMemoryPermanently(memory.id);
+          result.memoriesOverwritten++;
+        } else {
+          memory.id = generateShortId();
+          remappedIds.set(parsed.id, memory.id);
+          result.memoriesRemapped++;
+        }
+      }
+
+      insertMemoryRecord(memory);
+      if (memory.supersededBy || memory.consolidatedInto) {
+        linkedMemoryIds.push(memory.id);
+      }
+
+      const inserted: Fact[] = [];
+      for (const fact of facts) {
+        // Fact IDs are never referenced from outside their memory, so a clash just gets a fresh ID
+        const factId = fact.id && !factExists(fact.id) ? fact.id : generateShortId();
+
+        const record: Fact = {
+          id: factId,
+          memoryId: memory.id,
+          text: fact.text,
+          createdAt: fact.createdAt,
+          updatedAt: fact.updatedAt,
+          version: fact.version,
+        };
+        insertFactRecord(record);
+        inserted.push(record);
+        result.factsImported++;
+
+        for (const [embeddingType, vector] of fact.vectors) {
+          addEmbeddingToFact(factId, vector, embeddingType);
+          result.vectorsImported++;
+        }
+      }
+
+      importedFacts.push({ contextId: memory.contextId, facts: inserted });
+      result.memoriesImported++;
+    }
+
+    for (const memoryId of linkedMemoryIds) {
+      const { supersededBy, consolidatedInto } = getMemory(memoryId)!;
+      if (supersededBy && remappedIds.has(supersededBy)) {
+        setSupersededBy(memoryId, remappedIds.get(supersededBy)!);
+      }
+      if (consolidatedInto && remappedIds.has(consolidatedInto)) {
+        setConsolidatedInto(memoryId, remappedIds.get(consolidatedInto)!);
+      }
+    }
+
+    for (const link of links) {
+      const source = getMemory(remappedIds.get(link.sourceId) ?? link.sourceId);
+      const target = getMemory(remappedIds.get(link.targetId) ?? link.targetId);
+      const imported = !!source && !!target && source.contextId === target.contextId &&
+        insertLinkRecord({ ...link, sourceId: source.id, targetId: target.id });
+      if (imported) {
+        result.linksImported++;
+      } else {
+        result.linksSkipped++;
+      }
+    }
+
+    for (const { note: parsed, lineNumber } of notes) {
+      const note = { ...parsed };
+      const existingContextId = getToolCallNoteContextId(note.id);
+      if (existingContextId !== null) {
+        if (onConflict === "skip") {
+          result.toolCallNotesSkipped++;
+          continue;
+        }
+        if (onConflict === "overwrite") {
+          if (options.isContextAllowed && !options.isContextAllowed(existingContextId)) {
+            throw new Error(`Line ${lineNumber}: tool call note ${note.id} exists in context '${existingContextId}', which is not allowed on this server`);
+          }
+        } else {
+          note.id = nanoid();
+        }
+      }
+      upsertToolCallNoteRecord(note);
+      result.toolCallNotesImported++;
+    }
+  });
+
+  writeAll();
+
+  // 4. Index the entities the imported facts mention (the index is not exported)
+  for (const { contextId, facts } of importedFacts) {
+    await indexFactEntities(contextId, facts);
+  }
+
+  return result;
+}
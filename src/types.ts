@@ -10,6 +10,14 @@ export interface Memory {
   createdAt: number;
   updatedAt: number;
   version: number;
+  deletedAt?: number; // Set while the memory is in trash
+  supersededBy?: string; // Newer memory that replaces this one
+  supersededAt?: number;
+  archivedAt?: number; // Set once consolidate_memories merged this memory into another
+  consolidatedInto?: string;
+  accessCount?: number; // Times returned by search_memory or get_memory
+  lastAccessedAt?: number;
+  pinnedAt?: number; // Set while the memory is pinned (served as the memory://pinned resource)
 }
 
 export interface Fact {
@@ -21,8 +29,210 @@ export interface Fact {
   version: number;
 }
 
+/**
+ * Hard filters on which memories a search may return (applied in SQL before scoring)
+ */
+export interface MemoryFilters {
+  requireTags?: string[]; // Memory must have every one of these tags (case-insensitive)
+  excludeTags?: string[]; // Memory must have none of these tags (case-insensitive)
+  createdAfter?: number;
+  createdBefore?: number;
+  updatedAfter?: number;
+  memoryIds?: string[];
+  excludeSuperseded?: boolean; // Leave out memories replaced by a memory that is not in trash
+  entities?: string[]; // Memory must mention every one of these entities (name or alias, case-insensitive)
+}
+
+export type SearchMode = "semantic" | "keyword" | "hybrid";
+
+/** How search treats superseded memories */
+export type SupersededMode = "downrank" | "hide" | "include";
+
+/** How add_memory looks for contradictions with similar existing facts */
+export type ContradictionCheck = "off" | "heuristic" | "llm";
+
+/** How entities (people, services, repos, ...) are found in new facts */
+export type EntityExtraction = "off" | "rule-based" | "llm";
+
+/** Kinds of named entities */
+export type EntityType = "person" | "organization" | "project" | "service" | "repo" | "tool" | "place" | "other";
+
+/** Weights of the recency and usage signals in search ranking */
+export interface RankingWeights {
+  recencyWeight: number; // Added score for a memory updated just now
+  halfLifeDays: number; // Days after which the recency signal has halved
+  usageWeight: number; // Added score for a memory accessed very often
+  usageSaturation: number; // Accesses at which the usage signal reaches half
+}
+
+/** How a search result's score was put together */
+export interface ScoreBreakdown {
+  relevance: number; // Semantic, keyword or hybrid score
+  tagBoost: number;
+  recency: number; // Weighted contribution
+  usage: number; // Weighted contribution
+  supersededFactor: number; // Multiplies the sum (1 = not superseded)
+}
+
+/** Which retrieval signals found a fact */
+export type MatchSignal = "semantic" | "keyword";
+
+/**
+ * A past version of a memory, captured before an update replaced it
+ */
+export interface MemoryRevision {
+  id: string;
+  memoryId: string;
+  version: number;
+  text: string;
+  tags: string[];
+  changeType: "update" | "tags" | "revert";
+  createdAt: number;
+  facts: string[];
+}
+
+/**
+ * A recorded tool call
+ */
+export interface AuditLogEntry {
+  id: number;
+  toolName: string;
+  contextId: string | null;
+  clientId: string | null;
+  sessionId: string | null;
+  arguments: Record<string, unknown>;
+  memoryIds: string[];
+  success: boolean;
+  error: string | null;
+  durationMs: number;
+  createdAt: number;
+}
+
+export interface AuditLogFilters {
+  toolName?: string;
+  contextId?: string;
+  clientId?: string;
+  memoryId?: string;
+  success?: boolean;
+  since?: number;
+  until?: number;
+}
+
+/**
+ * A likely contradiction between a new fact and a similar existing fact
+ */
+export interface PossibleContradiction {
+  factText: string; // New fact
+  existingFact: Fact;
+  memory: Memory; // Memory of the existing fact
+  similarity: number;
+  reason: string;
+}
+
 export interface FactWithScore extends Fact {
   score: number;
+  scoreBreakdown?: ScoreBreakdown;
+  matchedBy?: MatchSignal[];
   memory?: Memory;
 }
 
+
+/**
+ * What add_memory does when similar memories already exist:
+ * 'reject' reports them, 'merge' adds the new facts to the closest one, 'force' adds anyway
+ */
+export type DuplicatePolicy = "reject" | "merge" | "force";
+
+/**
+ * An existing fact at least as similar as the duplicate threshold to a new fact
+ */
+export interface DuplicateMatch {
+  factText: string; // New fact
+  existingFact: Fact;
+  similarity: number;
+}
+
+/**
+ * An existing memory holding facts similar to a new memory's facts
+ */
+export interface DuplicateCandidate {
+  memory: Memory;
+  similarity: number; // Best fact-to-fact similarity
+  matches: DuplicateMatch[];
+}
+
+/**
+ * A group of existing memories that duplicate each other (find_duplicates),
+ * or that are related enough to consolidate (consolidate_memories)
+ */
+export interface DuplicateCluster {
+  memories: Memory[]; // Oldest first
+  pairs: Array<{ memoryIds: [string, string]; similarity: number }>;
+}
+
+/**
+ * A merged memory proposed by consolidate_memories for a group of related memories
+ */
+export interface ConsolidationProposal {
+  memories: Memory[]; // Originals, oldest first
+  pairs: DuplicateCluster["pairs"];
+  text: string;
+  tags: string[];
+  facts: string[]; // Deduplicated facts of all originals
+  droppedFacts: string[]; // Facts that repeat one in `facts`
+  summarized: boolean; // Text written by the LLM rather than joined
+}
+
+/** Kinds of directed links between memories (source → target) */
+export type MemoryRelation = "relates_to" | "depends_on" | "supersedes" | "derived_from";
+
+/**
+ * A typed, directed link between two memories of the same context
+ */
+export interface MemoryLink {
+  sourceId: string;
+  targetId: string;
+  relation: MemoryRelation;
+  createdAt: number;
+}
+
+/**
+ * A memory reached by following links from a start memory
+ */
+export interface LinkedMemory {
+  memory: Memory;
+  relation: MemoryRelation;
+  direction: "outgoing" | "incoming"; // outgoing: `via` → memory, incoming: memory → `via`
+  via: string; // Memory the link was followed from
+  depth: number; // Hops from the start memory
+}
+
+/**
+ * An entity mentioned in a fact, as found by entity extraction
+ */
+export interface ExtractedEntity {
+  name: string; // As written in the fact
+  type: EntityType;
+  aliases: string[]; // Other names the fact gives for it
+}
+
+/**
+ * A named entity of a context; facts mentioning it by name or alias link to it
+ */
+export interface Entity {
+  id: string;
+  contextId: string;
+  name: string; // Name it was first seen under
+  type: EntityType;
+  aliases: string[]; // Every known name, including `name`
+  createdAt: number;
+}
+
+/**
+ * An entity with how often live memories mention it (list_entities)
+ */
+export interface EntitySummary extends Entity {
+  memoryCount: number;
+  factCount: number;
+  lastMentionedAt: number; // Newest mentioning fact
+}
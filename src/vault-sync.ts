@@ -0,0 +1,541 @@
+/**
+ * Markdown Vault Sync
+ *
+ * Mirrors memories into a Markdown (e.g. Obsidian) vault and reads edits back.
+ * Each memory is a file at <vault>/<context_id>/<memory_id>.md:
+ *
+ *   ---
+ *   id: abc123
+ *   context_id: default
+ *   tags: [preferences, coffee]
+ *   created_at: 2026-01-05T10:00:00.000Z
+ *   version: 3
+ *   ---
+ *
+ *   Memory text
+ *
+ *   ## Facts
+ *
+ *   - First fact
+ *   - Second fact
+ *
+ * The `version` in the front matter is the version the file was written from.
+ * If the file was edited and the database has moved on since that version,
+ * both sides changed and the memory is reported as a conflict.
+ */
+
+import {
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  unlinkSync,
+  watch,
+  writeFileSync,
+} from "fs";
+import { dirname, join, relative, sep } from "path";
+import config from "./config.js";
+import { requiresManualFacts } from "./extraction/factory.js";
+import {
+  getMemory,
+  getContextIds,
+  getMemoriesForExport,
+  getFactsByMemoryId,
+  getMemoryRevision,
+  updateMemoryTags,
+  deleteMemory,
+} from "./operations.js";
+import { resolveFactTexts, insertMemoryWithFacts, replaceMemoryWithFacts } from "./pipeline.js";
+import type { Memory } from "./types.js";
+
+const STATE_FILE = ".memory-sync.json";
+
+/** Which side wins when both the file and the database changed */
+export type VaultConflictStrategy = "skip" | "file" | "db";
+
+export const VAULT_CONFLICT_STRATEGIES: VaultConflictStrategy[] = ["skip", "file", "db"];
+
+export interface VaultSyncOptions {
+  vaultPath: string;
+  contextIds?: string[]; // undefined = every context in the database or vault
+  onConflict?: VaultConflictStrategy;
+}
+
+export interface VaultConflict {
+  memoryId: string;
+  path: string;
+  fileVersion: number | null;
+  dbVersion: number;
+  reason: string;
+}
+
+export interface VaultSyncResult {
+  written: number; // Database → file
+  updated: number; // File → database
+  created: number; // New files → new memories
+  trashed: number; // Deleted files → memories moved to trash
+  removed: number; // Trashed memories → files removed
+  conflicts: VaultConflict[];
+  errors: Array<{ path: string; message: string }>;
+}
+
+/** Parsed content of a memory file */
+interface MemoryFile {
+  path: string;
+  id?: string;
+  contextId?: string;
+  version?: number;
+  text: string;
+  tags: string[];
+  facts: string[];
+}
+
+/** Memory ID → version last synced, so a missing file can be told apart from a deleted one */
+interface SyncState {
+  memories: Record<string, number>;
+}
+
+// ============================================================================
+// Markdown Format
+// ============================================================================
+
+function yamlScalar(value: string): string {
+  return /^[A-Za-z0-9_][A-Za-z0-9_.:+\-]*$/.test(value) ? value : JSON.stringify(value);
+}
+
+function parseYamlScalar(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+/**
+ * Parse a YAML flow list: [a, "b c", 'd']
+ */
+function parseFlowList(raw: string): string[] {
+  const inner = raw.trim().replace(/^\[/, "").replace(/\]$/, "");
+  const items: string[] = [];
+  const pattern = /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^,]+))\s*(?:,|$)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(inner)) !== null) {
+    const item = match[1] !== undefined
+      ? parseYamlScalar(`"${match[1]}"`)
+      : match[2] !== undefined
+        ? match[2].replace(/''/g, "'")
+        : match[3].trim();
+    if (item) items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Parse the subset of YAML front matter written by renderMemoryFile:
+ * scalars, flow lists, and block lists ("- item") which Obsidian writes for tags
+ */
+function parseFrontMatter(lines: string[]): Record<string, string | string[]> {
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+
+  for (const line of lines) {
+    const listItem = line.match(/^\s+-\s+(.*)$/) ?? line.match(/^-\s+(.*)$/);
+    if (listItem && listKey) {
+      (fields[listKey] as string[]).push(parseYamlScalar(listItem[1]));
+      continue;
+    }
+
+    const field = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/);
+    if (!field) continue;
+
+    const [, key, value] = field;
+    if (value === "") {
+      fields[key] = [];
+      listKey = key;
+    } else {
+      fields[key] = value.trim().startsWith("[") ? parseFlowList(value) : parseYamlScalar(value);
+      listKey = null;
+    }
+  }
+
+  return fields;
+}
+
+function parseMemoryFile(path: string, content: string): MemoryFile {
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  let fields: Record<string, string | string[]> = {};
+  let bodyStart = 0;
+
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+    if (end > 0) {
+      fields = parseFrontMatter(lines.slice(1, end));
+      bodyStart = end + 1;
+    }
+  }
+
+  const body = lines.slice(bodyStart);
+  let factsHeading = -1;
+  body.forEach((line, i) => {
+    if (/^##\s+Facts\s*$/i.test(line)) factsHeading = i;
+  });
+
+  const textLines = factsHeading >= 0 ? body.slice(0, factsHeading) : body;
+  const facts = factsHeading >= 0
+    ? body.slice(factsHeading + 1)
+        .map((line) => line.match(/^\s*[-*+]\s+(.*)$/)?.[1]?.trim())
+        .filter((fact): fact is string => !!fact)
+    : [];
+
+  const tags = fields.tags;
+  const version = typeof fields.version === "string" ? parseInt(fields.version, 10) : NaN;
+
+  return {
+    path,
+    id: typeof fields.id === "string" && fields.id ? fields.id : undefined,
+    contextId: typeof fields.context_id === "string" ? fields.context_id : undefined,
+    version: isNaN(version) ? undefined : version,
+    text: textLines.join("\n").trim(),
+    tags: (Array.isArray(tags) ? tags : typeof tags === "string" && tags ? [tags] : [])
+      .map((tag) => tag.replace(/^#/, "")),
+    facts,
+  };
+}
+
+function renderMemoryFile(memory: Memory, facts: string[]): string {
+  const lines = [
+    "---",
+    `id: ${yamlScalar(memory.id)}`,
+    `context_id: ${yamlScalar(memory.contextId)}`,
+    `tags: [${memory.tags.map(yamlScalar).join(", ")}]`,
+    `created_at: ${new Date(memory.createdAt).toISOString()}`,
+    `version: ${memory.version}`,
+    "---",
+    "",
+    memory.text.trim(),
+    "",
+    "## Facts",
+    "",
+    ...facts.map((fact) => `- ${fact.replace(/\s*\n\s*/g, " ")}`),
+    "",
+  ];
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item, i) => item === b[i]);
+}
+
+function sameTags(a: string[], b: string[]): boolean {
+  return sameList([...a].sort(), [...b].sort());
+}
+
+function sameContent(file: MemoryFile, text: string, tags: string[], facts: string[]): boolean {
+  return file.text === text.trim() && sameTags(file.tags, tags) && sameList(file.facts, facts);
+}
+
+function loadState(vaultPath: string): SyncState {
+  try {
+    const state = JSON.parse(readFileSync(join(vaultPath, STATE_FILE), "utf-8"));
+    return { memories: state.memories ?? {} };
+  } catch {
+    return { memories: {} };
+  }
+}
+
+function saveState(vaultPath: string, state: SyncState): void {
+  writeFileSync(join(vaultPath, STATE_FILE), JSON.stringify(state, null, 2));
+}
+
+function listMarkdownFiles(vaultPath: string): string[] {
+  return (readdirSync(vaultPath, { recursive: true }) as string[])
+    .filter((path) => path.endsWith(".md") && !path.split(sep).some((part) => part.startsWith(".")))
+    .map((path) => join(vaultPath, path));
+}
+
+function writeMemoryFile(path: string, memory: Memory): void {
+  const facts = getFactsByMemoryId(memory.id).map((fact) => fact.text);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, renderMemoryFile(memory, facts));
+}
+
+/**
+ * Apply a file's edits to the database through the same path as update_memory
+ */
+async function applyFile(file: MemoryFile, memory: Memory, dbFacts: string[]): Promise<Memory> {
+  const textChanged = file.text !== memory.text.trim();
+  const factsChanged = !sameList(file.facts, dbFacts);
+
+  if (!textChanged && !factsChanged) {
+    // Tag-only edit: no re-splitting or re-embedding
+    return updateMemoryTags(
+      memory.id,
+      memory.contextId,
+      file.tags.filter((tag) => !memory.tags.includes(tag)),
+      memory.tags.filter((tag) => !file.tags.includes(tag))
+    )!;
+  }
+
+  if (!file.text) {
+    throw new Error("Memory text is empty");
+  }
+
+  // Edited facts are used as-is; edited text with untouched facts is re-split
+  // (with fact extraction disabled it keeps the listed facts)
+  const manualFacts = factsChanged || requiresManualFacts() ? file.facts : undefined;
+  const { factTexts } = await resolveFactTexts(file.text, manualFacts);
+
+  const { memory: updated } = await replaceMemoryWithFacts(
+    memory.id,
+    memory.contextId,
+    file.text,
+    file.tags,
+    factTexts
+  );
+  return updated;
+}
+
+/**
+ * Two-way sync between the database and a Markdown vault
+ *
+ * - Memories without a file are written; files of trashed memories are removed
+ * - Edited files are applied to the database (re-split and re-embedded)
+ * - Files changed on the database side are rewritten
+ * - New files without an `id` become new memories
+ * - A file deleted after it was synced moves its memory to trash
+ */
+export async function syncVault(options: VaultSyncOptions): Promise<VaultSyncResult> {
+  const { vaultPath } = options;
+  const onConflict = options.onConflict ?? "skip";
+
+  const result: VaultSyncResult = {
+    written: 0,
+    updated: 0,
+    created: 0,
+    trashed: 0,
+    removed: 0,
+    conflicts: [],
+    errors: [],
+  };
+
+  mkdirSync(vaultPath, { recursive: true });
+  const state = loadState(vaultPath);
+
+  // Index the vault by memory ID (files are found by their front matter, not their name)
+  const filesById = new Map<string, MemoryFile>();
+  const newFiles: MemoryFile[] = [];
+
+  for (const path of listMarkdownFiles(vaultPath)) {
+    try {
+      const file = parseMemoryFile(path, readFileSync(path, "utf-8"));
+      if (!file.id) {
+        newFiles.push(file);
+      } else if (filesById.has(file.id)) {
+        result.errors.push({ path, message: `Duplicate memory id ${file.id} (also in ${filesById.get(file.id)!.path})` });
+      } else {
+        filesById.set(file.id, file);
+      }
+    } catch (error: any) {
+      result.errors.push({ path, message: error.message });
+    }
+  }
+
+  const folderContext = (path: string) => {
+    const parts = relative(vaultPath, path).split(sep);
+    return parts.length > 1 ? parts[0] : undefined;
+  };
+
+  const contextIds = options.contextIds ?? [
+    ...new Set([
+      ...getContextIds(),
+      ...newFiles.map((file) => file.contextId ?? folderContext(file.path)).filter((id): id is string => !!id),
+    ]),
+  ];
+
+  for (const memory of getMemoriesForExport(contextIds)) {
+    const file = filesById.get(memory.id);
+    const path = file?.path ?? join(vaultPath, memory.contextId, `${memory.id}.md`);
+    const dbFacts = getFactsByMemoryId(memory.id).map((fact) => fact.text);
+
+    try {
+      // Archived memories live on in their consolidated memory's file
+      if (memory.deletedAt || memory.archivedAt) {
+        if (file) {
+          if (sameContent(file, memory.text, memory.tags, dbFacts)) {
+            unlinkSync(file.path);
+            result.removed++;
+          } else {
+            result.conflicts.push({
+              memoryId: memory.id,
+              path,
+              fileVersion: file.version ?? null,
+              dbVersion: memory.version,
+              reason: memory.deletedAt
+                ? "File was edited but the memory is in trash (restore_memory to keep the edits)"
+                : `File was edited but the memory was consolidated into ${memory.consolidatedInto}`,
+            });
+          }
+        }
+        delete state.memories[memory.id];
+        continue;
+      }
+
+      if (!file) {
+        if (state.memories[memory.id] !== undefined) {
+          // The file was synced before and has been deleted since
+          deleteMemory(memory.id, memory.contextId);
+          delete state.memories[memory.id];
+          result.trashed++;
+        } else {
+          writeMemoryFile(path, memory);
+          state.memories[memory.id] = memory.version;
+          result.written++;
+        }
+        continue;
+      }
+
+      if (sameContent(file, memory.text, memory.tags, dbFacts)) {
+        if (file.version !== memory.version) {
+          writeMemoryFile(path, memory);
+          result.written++;
+        }
+        state.memories[memory.id] = memory.version;
+        continue;
+      }
+
+      // File and database differ: work out which side changed since the file was written
+      let side: "file" | "db" | "both";
+      if (file.version === memory.version) {
+        side = "file";
+      } else {
+        const base = file.version !== undefined && file.version < memory.version
+          ? getMemoryRevision(memory.id, file.version)
+          : null;
+        side = base && sameContent(file, base.text, base.tags, base.facts) ? "db" : "both";
+      }
+
+      if (side === "both") {
+        if (onConflict === "skip") {
+          result.conflicts.push({
+            memoryId: memory.id,
+            path,
+            fileVersion: file.version ?? null,
+            dbVersion: memory.version,
+            reason: "Both the file and the database changed since the last sync",
+          });
+          continue;
+        }
+        side = onConflict;
+      }
+
+      if (side === "file") {
+        const updated = await applyFile(file, memory, dbFacts);
+        writeMemoryFile(path, updated);
+        state.memories[memory.id] = updated.version;
+        result.updated++;
+      } else {
+        writeMemoryFile(path, memory);
+        state.memories[memory.id] = memory.version;
+        result.written++;
+      }
+    } catch (error: any) {
+      result.errors.push({ path, message: error.message });
+    }
+  }
+
+  // New notes dropped into the vault
+  for (const file of newFiles) {
+    const contextId = file.contextId ?? folderContext(file.path) ?? config.contextId;
+    if (!contextIds.includes(contextId) || !file.text) continue;
+
+    try {
+      const { factTexts } = await resolveFactTexts(file.text, file.facts);
+      const { memory } = await insertMemoryWithFacts(contextId, file.text, file.tags, factTexts);
+      writeMemoryFile(file.path, memory);
+      state.memories[memory.id] = memory.version;
+      result.created++;
+    } catch (error: any) {
+      result.errors.push({ path: file.path, message: error.message });
+    }
+  }
+
+  // Files whose memory no longer exists at all (purged from trash)
+  for (const [id, file] of filesById) {
+    if (!getMemory(id) && contextIds.includes(file.contextId ?? "")) {
+      result.errors.push({ path: file.path, message: `Memory ${id} no longer exists (remove the id line to re-add it)` });
+    }
+  }
+
+  saveState(vaultPath, state);
+  return result;
+}
+
+/**
+ * Sync once, then keep syncing on vault file changes and on an interval
+ * (for database-side changes). Returns a function that stops the watcher.
+ */
+export async function watchVault(
+  options: VaultSyncOptions,
+  intervalSeconds: number,
+  onSync: (result: VaultSyncResult) => void
+): Promise<() => void> {
+  let running = false;
+  let pending = false;
+  let debounce: NodeJS.Timeout | null = null;
+
+  const run = async () => {
+    if (running) {
+      pending = true;
+      return;
+    }
+    running = true;
+    try {
+      onSync(await syncVault(options));
+    } catch (error: any) {
+      console.error(`Vault sync failed: ${error.message}`);
+    } finally {
+      running = false;
+      if (pending) {
+        pending = false;
+        void run();
+      }
+    }
+  };
+
+  await run();
+
+  const watcher = watch(options.vaultPath, { recursive: true }, (_event, filename) => {
+    if (!filename || !filename.toString().endsWith(".md")) return;
+    if (debounce) clearTimeout(debounce);
+    debounce = setTimeout(run, 1000);
+  });
+  const interval = setInterval(run, intervalSeconds * 1000);
+
+  return () => {
+    watcher.close();
+    clearInterval(interval);
+    if (debounce) clearTimeout(debounce);
+  };
+}
+
+/**
+ * One-line summary of a sync for logs
+ */
+export function formatSyncResult(result: VaultSyncResult): string {
+  return (
+    `${result.written} written, ${result.updated} updated from files, ${result.created} created, ` +
+    `${result.trashed} trashed, ${result.removed} removed, ` +
+    `${result.conflicts.length} conflicts, ${result.errors.length} errors`
+  );
+}
@@ -0,0 +1,12 @@
+/**
+ * Vector Index Factory
+ *
+ * Provides the approximate nearest-neighbour index used by searchFacts.
+ * Implementations are swappable behind the VectorIndex interface.
+ */
+
+import type { VectorIndex } from "./types.js";
+import { IVFIndex } from "./ivf.js";
+
+// Export singleton instance
+export const vectorIndex: VectorIndex = new IVFIndex();
@@ -0,0 +1,264 @@
+/**
+ * IVF Vector Index
+ *
+ * Inverted-file index: fact vectors are clustered with spherical k-means and
+ * each fact is assigned to its nearest centroid ("list"). A query only scans
+ * the facts in the `nprobe` lists whose centroids are closest to it.
+ *
+ * Centroids and assignments live in SQLite next to the fact_vectors_* tables.
+ */
+
+import { db } from "../database.js";
+import config from "../config.js";
+import { blobToFloat32 } from "../vector.js";
+import { EMBEDDING_CONFIGS } from "../embeddings/registry.js";
+import type { EmbeddingType } from "../embeddings/types.js";
+import type { VectorIndex, VectorIndexStats, CandidateFilter } from "./types.js";
+
+const MAX_LISTS = 1024;
+const TRAINING_POINTS_PER_LIST = 32; // k-means is trained on a sample, then every vector is assigned
+const KMEANS_ITERATIONS = 10;
+
+interface LoadedCentroids {
+  builtAt: number;
+  centroids: Float32Array[];
+}
+
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function normalizeInPlace(vector: Float32Array): void {
+  let magnitude = 0;
+  for (let i = 0; i < vector.length; i++) {
+    magnitude += vector[i] * vector[i];
+  }
+  magnitude = Math.sqrt(magnitude);
+  if (magnitude === 0) return;
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] /= magnitude;
+  }
+}
+
+function nearestList(vector: ArrayLike<number>, centroids: Float32Array[]): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let i = 0; i < centroids.length; i++) {
+    const score = dot(vector, centroids[i]);
+    if (score > bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Pick `count` distinct items at random (partial Fisher-Yates)
+ */
+function sample<T>(items: T[], count: number): T[] {
+  const pool = [...items];
+  const n = Math.min(count, pool.length);
+  for (let i = 0; i < n; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, n);
+}
+
+/**
+ * Spherical k-means on unit vectors (similarity = dot product)
+ */
+function trainCentroids(points: Float32Array[], listCount: number): Float32Array[] {
+  const dim = points[0].length;
+  const centroids = sample(points, listCount).map((p) => Float32Array.from(p));
+
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const sums = centroids.map(() => new Float32Array(dim));
+    const sizes = new Array(centroids.length).fill(0);
+
+    for (const point of points) {
+      const list = nearestList(point, centroids);
+      const sum = sums[list];
+      for (let d = 0; d < dim; d++) {
+        sum[d] += point[d];
+      }
+      sizes[list]++;
+    }
+
+    for (let c = 0; c < centroids.length; c++) {
+      if (sizes[c] === 0) {
+        // Re-seed empty lists from a random point
+        centroids[c] = Float32Array.from(points[Math.floor(Math.random() * points.length)]);
+        continue;
+      }
+      normalizeInPlace(sums[c]);
+      centroids[c] = sums[c];
+    }
+  }
+
+  return centroids;
+}
+
+export class IVFIndex implements VectorIndex {
+  readonly kind = "ivf";
+  private cache = new Map<EmbeddingType, LoadedCentroids>();
+
+  /**
+   * Load centroids for an embedding type, reusing the cached copy unless
+   * the index was rebuilt (possibly by another process) since it was read
+   */
+  private loadCentroids(embeddingType: EmbeddingType): Float32Array[] | null {
+    const meta = db.prepare(`
+      SELECT built_at FROM vector_index_meta WHERE embedding_type = ?
+    `).get(embeddingType) as any;
+
+    if (!meta) {
+      this.cache.delete(embeddingType);
+      return null;
+    }
+
+    const cached = this.cache.get(embeddingType);
+    if (cached && cached.builtAt === meta.built_at) {
+      return cached.centroids;
+    }
+
+    const rows = db.prepare(`
+      SELECT centroid FROM vector_index_centroids
+      WHERE embedding_type = ?
+      ORDER BY list_id
+    `).all(embeddingType) as any[];
+
+    const centroids = rows.map((row) => blobToFloat32(row.centroid));
+    this.cache.set(embeddingType, { builtAt: meta.built_at, centroids });
+    return centroids;
+  }
+
+  getStats(embeddingType: EmbeddingType): VectorIndexStats | null {
+    const meta = db.prepare(`
+      SELECT kind, dim, list_count, built_at FROM vector_index_meta WHERE embedding_type = ?
+    `).get(embeddingType) as any;
+
+    if (!meta) return null;
+
+    const vectorTable = EMBEDDING_CONFIGS[embeddingType].tableName;
+    const counts = db.prepare(`
+      SELECT
+        COUNT(a.fact_id) as indexed,
+        SUM(CASE WHEN a.fact_id IS NULL THEN 1 ELSE 0 END) as unindexed
+      FROM ${vectorTable} v
+      LEFT JOIN vector_index_assignments a
+        ON a.fact_id = v.fact_id AND a.embedding_type = ?
+    `).get(embeddingType) as any;
+
+    return {
+      kind: meta.kind,
+      embeddingType,
+      dimension: meta.dim,
+      listCount: meta.list_count,
+      factCount: counts.indexed,
+      unindexedCount: counts.unindexed || 0,
+      builtAt: meta.built_at,
+    };
+  }
+
+  build(embeddingType: EmbeddingType): VectorIndexStats {
+    const vectorTable = EMBEDDING_CONFIGS[embeddingType].tableName;
+    const rows = db.prepare(`SELECT fact_id, embedding FROM ${vectorTable}`).all() as any[];
+
+    if (rows.length === 0) {
+      throw new Error(`No ${embeddingType} vectors stored yet - nothing to index`);
+    }
+
+    const vectors = rows.map((row) => blobToFloat32(row.embedding));
+    const dim = vectors[0].length;
+    const listCount = Math.max(1, Math.min(MAX_LISTS, Math.round(Math.sqrt(vectors.length))));
+
+    const trainingSet = sample(vectors, listCount * TRAINING_POINTS_PER_LIST);
+    const centroids = trainCentroids(trainingSet, listCount);
+    const builtAt = Date.now();
+
+    const insertMeta = db.prepare(`
+      INSERT INTO vector_index_meta (embedding_type, kind, dim, list_count, built_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const insertCentroid = db.prepare(`
+      INSERT INTO vector_index_centroids (embedding_type, list_id, centroid) VALUES (?, ?, ?)
+    `);
+    const insertAssignment = db.prepare(`
+      INSERT INTO vector_index_assignments (embedding_type, fact_id, list_id) VALUES (?, ?, ?)
+    `);
+
+    const write = db.transaction(() => {
+      this.drop(embeddingType);
+      insertMeta.run(embeddingType, this.kind, dim, centroids.length, builtAt);
+      centroids.forEach((centroid, listId) => {
+        insertCentroid.run(embeddingType, listId, Buffer.from(centroid.buffer));
+      });
+      rows.forEach((row, i) => {
+        insertAssignment.run(embeddingType, row.fact_id, nearestList(vectors[i], centroids));
+      });
+    });
+
+    write();
+    this.cache.set(embeddingType, { builtAt, centroids });
+
+    return this.getStats(embeddingType)!;
+  }
+
+  drop(embeddingType: EmbeddingType): void {
+    db.prepare(`DELETE FROM vector_index_assignments WHERE embedding_type = ?`).run(embeddingType);
+    db.prepare(`DELETE FROM vector_index_centroids WHERE embedding_type = ?`).run(embeddingType);
+    db.prepare(`DELETE FROM vector_index_meta WHERE embedding_type = ?`).run(embeddingType);
+    this.cache.delete(embeddingType);
+  }
+
+  add(factId: string, embedding: number[], embeddingType: EmbeddingType): void {
+    const centroids = this.loadCentroids(embeddingType);
+    if (!centroids || centroids[0].length !== embedding.length) return;
+
+    db.prepare(`
+      INSERT OR REPLACE INTO vector_index_assignments (embedding_type, fact_id, list_id)
+      VALUES (?, ?, ?)
+    `).run(embeddingType, factId, nearestList(embedding, centroids));
+  }
+
+  remove(factIds: string[]): void {
+    if (factIds.length === 0) return;
+
+    const placeholders = factIds.map(() => "?").join(", ");
+    db.prepare(`
+      DELETE FROM vector_index_assignments WHERE fact_id IN (${placeholders})
+    `).run(...factIds);
+  }
+
+  candidateFilter(queryVector: number[], embeddingType: EmbeddingType): CandidateFilter | null {
+    if (!config.vectorIndex.enabled) return null;
+
+    const centroids = this.loadCentroids(embeddingType);
+    if (!centroids || centroids[0].length !== queryVector.length) return null;
+
+    const nprobe = Math.max(1, config.vectorIndex.nprobe);
+    if (nprobe >= centroids.length) {
+      return null; // Probing every list is an exact scan anyway
+    }
+
+    const probed = centroids
+      .map((centroid, listId) => ({ listId, score: dot(queryVector, centroid) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, nprobe)
+      .map((entry) => entry.listId);
+
+    return {
+      sql: `f.id IN (
+        SELECT fact_id FROM vector_index_assignments
+        WHERE embedding_type = ? AND list_id IN (${probed.map(() => "?").join(", ")})
+      )`,
+      params: [embeddingType, ...probed],
+    };
+  }
+}
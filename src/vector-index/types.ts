@@ -0,0 +1,50 @@
+/**
+ * Vector Index Types
+ */
+
+import type { EmbeddingType } from "../embeddings/types.js";
+
+/**
+ * SQL fragment restricting a search to candidate facts.
+ * Applied as an extra WHERE condition on the `facts f` alias.
+ */
+export interface CandidateFilter {
+  sql: string;
+  params: unknown[];
+}
+
+export interface VectorIndexStats {
+  kind: string;
+  embeddingType: EmbeddingType;
+  dimension: number;
+  listCount: number;
+  factCount: number; // Vectors assigned to a list
+  unindexedCount: number; // Vectors stored since the last build that could not be placed
+  builtAt: number;
+}
+
+export interface VectorIndex {
+  /** Index implementation identifier (e.g. 'ivf') */
+  readonly kind: string;
+
+  /** Stats for the built index, or null if none exists for this embedding type */
+  getStats(embeddingType: EmbeddingType): VectorIndexStats | null;
+
+  /** (Re)build the index from every stored vector of this embedding type */
+  build(embeddingType: EmbeddingType): VectorIndexStats;
+
+  /** Remove the index for this embedding type (search falls back to exact scan) */
+  drop(embeddingType: EmbeddingType): void;
+
+  /** Register a newly stored fact vector. No-op when no index is built. */
+  add(factId: string, embedding: number[], embeddingType: EmbeddingType): void;
+
+  /** Forget facts that are about to be deleted */
+  remove(factIds: string[]): void;
+
+  /**
+   * Restrict a search to likely neighbours of the query.
+   * Returns null when no index is built, meaning: scan every vector.
+   */
+  candidateFilter(queryVector: number[], embeddingType: EmbeddingType): CandidateFilter | null;
+}
@@ -40,3 +40,13 @@ export function blobToVector(blob: Buffer): number[] {
   return vector;
 }
 
+
+/**
+ * View a stored embedding blob as a Float32Array (no per-element decoding)
+ * Copies the bytes so the result is correctly aligned
+ */
+export function blobToFloat32(blob: Buffer): Float32Array {
+  const copy = new Uint8Array(blob.byteLength);
+  copy.set(blob);
+  return new Float32Array(copy.buffer);
+}